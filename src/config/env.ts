@@ -5,6 +5,8 @@
 
 import dotenv from "dotenv";
 import path from "path";
+import { OperatorConfig, PaymentOperator } from "../types/payment.types";
+import logger from "../utils/logger";
 
 // Charger le fichier .env
 dotenv.config({ path: path.resolve(__dirname, "../../.env") });
@@ -16,25 +18,161 @@ export const SERVER_CONFIG = {
   port: parseInt(process.env.PORT || "3001", 10),
   nodeEnv: process.env.NODE_ENV || "development",
   isProduction: process.env.NODE_ENV === "production",
+  // Nombre de proxies de confiance devant l'API (pour req.ip derrière un load balancer)
+  trustProxy: parseInt(process.env.TRUST_PROXY || "0", 10),
+};
+
+/**
+ * Configuration des logs
+ * JSON (une ligne par entrée) en production, format lisible en développement
+ */
+export const LOG_CONFIG = {
+  level: (process.env.LOG_LEVEL || (SERVER_CONFIG.isProduction ? "info" : "debug")) as
+    | "debug"
+    | "info"
+    | "warn"
+    | "error",
+  format: (process.env.LOG_FORMAT || (SERVER_CONFIG.isProduction ? "json" : "pretty")) as "json" | "pretty",
+};
+
+/**
+ * Configuration du fournisseur de paiement
+ * Le fournisseur actif est choisi dans le registre (src/services/providers/registry.ts)
+ */
+export const PAYMENT_CONFIG = {
+  provider: process.env.PAYMENT_PROVIDER || "ynote",
+  // Durée pendant laquelle une campagne refuse un second paiement en cours
+  inFlightLockMinutes: parseInt(process.env.PAYMENT_IN_FLIGHT_LOCK_MINUTES || "5", 10),
+  // Marqueur d'initiation plus ancien que ce délai: l'instance qui l'a posé s'est arrêtée en cours
+  initiationOrphanSeconds: parseInt(process.env.PAYMENT_INITIATION_ORPHAN_SECONDS || "120", 10),
+};
+
+/**
+ * Configuration de la tarification
+ */
+export const PRICING_CONFIG = {
+  // Taux de taxe appliqué au montant remisé (ex: 0.1925 pour la TVA Cameroun), 0 par défaut
+  taxRate: parseFloat(process.env.PAYMENT_TAX_RATE || "0"),
+  // Écart toléré (FCFA) entre le montant payé et le montant dû
+  amountTolerance: parseInt(process.env.PAYMENT_AMOUNT_TOLERANCE || "0", 10),
+};
+
+/**
+ * Configuration des remboursements
+ */
+export const REFUND_CONFIG = {
+  // Au-delà de ce montant (FCFA), un second administrateur doit approuver le remboursement
+  approvalThreshold: parseInt(process.env.REFUND_APPROVAL_THRESHOLD || "50000", 10),
+};
+
+/**
+ * Coordonnées de l'émetteur des reçus et avoirs, et préfixes de numérotation
+ */
+export const RECEIPT_CONFIG = {
+  companyName: process.env.COMPANY_NAME || "Ilios Pub",
+  companyAddress: process.env.COMPANY_ADDRESS || "Douala, Cameroun",
+  // Numéro d'identifiant unique (NIU) et registre du commerce (RCCM)
+  companyTaxId: process.env.COMPANY_TAX_ID || "",
+  companyRegistration: process.env.COMPANY_RCCM || "",
+  companyEmail: process.env.COMPANY_EMAIL || "",
+  companyPhone: process.env.COMPANY_PHONE || "",
+  receiptPrefix: process.env.RECEIPT_NUMBER_PREFIX || "REC",
+  creditNotePrefix: process.env.CREDIT_NOTE_NUMBER_PREFIX || "AV",
+};
+
+/**
+ * Configuration des clés d'idempotence (header Idempotency-Key)
+ */
+export const IDEMPOTENCY_CONFIG = {
+  // Durée de conservation d'une clé (rejeu possible pendant cette période)
+  ttlHours: parseInt(process.env.IDEMPOTENCY_TTL_HOURS || "24", 10),
+  // Une requête "en cours" plus ancienne est considérée comme abandonnée
+  processingTimeoutSeconds: parseInt(process.env.IDEMPOTENCY_PROCESSING_TIMEOUT_SECONDS || "120", 10),
+};
+
+/**
+ * Configuration du serveur Y-Note simulé (développement et tests)
+ * Quand il est activé, l'API démarre le mock et l'utilise à la place de Y-Note
+ */
+export const YNOTE_MOCK_CONFIG = {
+  enabled: process.env.YNOTE_MOCK === "true",
+  port: parseInt(process.env.YNOTE_MOCK_PORT || "3099", 10),
+  // Délai avant le callback d'un paiement simulé
+  callbackDelayMs: parseInt(process.env.YNOTE_MOCK_CALLBACK_DELAY_MS || "5000", 10),
+  // Délai du scénario "delayed" (confirmation tardive)
+  delayedCallbackMs: parseInt(process.env.YNOTE_MOCK_DELAYED_MS || "60000", 10),
+  get baseUrl() {
+    return `http://localhost:${this.port}`;
+  },
 };
 
 /**
  * Configuration Y-Note/Paynote
  */
 export const YNOTE_CONFIG = {
-  tokenUrl: process.env.YNOTE_TOKEN_URL || "https://omapi-token.ynote.africa/oauth2/token",
-  baseUrl: process.env.YNOTE_BASE_URL || "https://omapi.ynote.africa/prod",
+  tokenUrl: YNOTE_MOCK_CONFIG.enabled
+    ? `${YNOTE_MOCK_CONFIG.baseUrl}/oauth2/token`
+    : process.env.YNOTE_TOKEN_URL || "https://omapi-token.ynote.africa/oauth2/token",
+  baseUrl: YNOTE_MOCK_CONFIG.enabled
+    ? YNOTE_MOCK_CONFIG.baseUrl
+    : process.env.YNOTE_BASE_URL || "https://omapi.ynote.africa/prod",
+  // API de versement (remboursements)
+  refundPath: process.env.YNOTE_REFUND_PATH || "/refund",
+  refundStatusPath: process.env.YNOTE_REFUND_STATUS_PATH || "/refund/status",
   currency: "XAF",
 };
 
+/**
+ * Client HTTP Y-Note: délais, retentatives et disjoncteur
+ * Seuls les appels idempotents (token, statuts) sont retentés: une demande de paiement
+ * ou de versement n'est jamais renvoyée (pas de double débit).
+ */
+export const YNOTE_HTTP_CONFIG = {
+  timeoutMs: parseInt(process.env.YNOTE_TIMEOUT_MS || "15000", 10),
+  // Demandes de paiement et de versement (push USSD plus lent côté Y-Note)
+  paymentTimeoutMs: parseInt(process.env.YNOTE_PAYMENT_TIMEOUT_MS || "30000", 10),
+  maxRetries: parseInt(process.env.YNOTE_MAX_RETRIES || "3", 10),
+  // Backoff exponentiel avec jitter: aléatoire entre 0 et base * 2^(tentative - 1), plafonné
+  retryBaseDelayMs: parseInt(process.env.YNOTE_RETRY_BASE_DELAY_MS || "300", 10),
+  // Un Retry-After plus long que ce plafond n'est pas attendu: l'erreur est renvoyée
+  retryMaxDelayMs: parseInt(process.env.YNOTE_RETRY_MAX_DELAY_MS || "5000", 10),
+  // Échecs consécutifs (5xx, 429, délai dépassé, réseau) avant ouverture du disjoncteur
+  breakerFailureThreshold: parseInt(process.env.YNOTE_BREAKER_FAILURE_THRESHOLD || "5", 10),
+  // Durée d'ouverture avant une requête de test
+  breakerOpenSeconds: parseInt(process.env.YNOTE_BREAKER_OPEN_SECONDS || "30", 10),
+};
+
+/**
+ * Opérateurs Mobile Money supportés via Y-Note
+ * Chaque opérateur a sa propre méthode de paiement et son endpoint de statut
+ */
+export const OPERATOR_CONFIG: Record<PaymentOperator, OperatorConfig> = {
+  mtn: {
+    label: "MTN Mobile Money",
+    paymentMethod: process.env.YNOTE_MTN_PAYMENT_METHOD || "MTN_CMR",
+    statusPath: process.env.YNOTE_MTN_STATUS_PATH || "/webpaymentmtn/status",
+    refundMethod: process.env.YNOTE_MTN_REFUND_METHOD || "MTNMoMo",
+    // Préfixes MTN Cameroun (après l'indicatif 237)
+    prefixes: ["650", "651", "652", "653", "654", "67", "680", "681", "682", "683", "684"],
+  },
+  orange: {
+    label: "Orange Money",
+    paymentMethod: process.env.YNOTE_ORANGE_PAYMENT_METHOD || "ORANGE_CMR",
+    statusPath: process.env.YNOTE_ORANGE_STATUS_PATH || "/webpaymentom/status",
+    refundMethod: process.env.YNOTE_ORANGE_REFUND_METHOD || "OrangeMoney",
+    // Préfixes Orange Cameroun (après l'indicatif 237)
+    prefixes: ["640", "655", "656", "657", "658", "659", "69"],
+  },
+};
+
 /**
  * Credentials Y-Note
  */
 export const YNOTE_CREDENTIALS = {
-  clientId: process.env.YNOTE_CLIENT_ID || "",
-  clientSecret: process.env.YNOTE_CLIENT_SECRET || "",
-  customerKey: process.env.YNOTE_CUSTOMER_KEY || "",
-  subscriptionKey: process.env.YNOTE_SUBSCRIPTION_KEY || "",
+  clientId: process.env.YNOTE_CLIENT_ID || (YNOTE_MOCK_CONFIG.enabled ? "mock-client-id" : ""),
+  clientSecret: process.env.YNOTE_CLIENT_SECRET || (YNOTE_MOCK_CONFIG.enabled ? "mock-client-secret" : ""),
+  customerKey: process.env.YNOTE_CUSTOMER_KEY || (YNOTE_MOCK_CONFIG.enabled ? "mock-customer-key" : ""),
+  subscriptionKey: process.env.YNOTE_SUBSCRIPTION_KEY || (YNOTE_MOCK_CONFIG.enabled ? "mock-subscription-key" : ""),
 };
 
 /**
@@ -46,6 +184,32 @@ export const FIREBASE_CONFIG = {
   credentialsPath: process.env.GOOGLE_APPLICATION_CREDENTIALS || "",
 };
 
+/**
+ * Collections Firestore utilisées par le service de paiement
+ * Les enregistrements sont indépendants de l'opérateur (champ "operator")
+ */
+export const FIRESTORE_COLLECTIONS = {
+  transactions: "payment_transactions",
+  // Sous-collection de chaque transaction: historique des changements de statut
+  statusHistory: "status_history",
+  // Index secondaire: identifiants fournisseur/opérateur -> referenceId
+  references: "payment_references",
+  refunds: "payment_refunds",
+  idempotencyKeys: "idempotency_keys",
+  discrepancies: "payment_discrepancies",
+  securityAudit: "security_audit",
+  // Boîte de réception des callbacks fournisseur (traitement asynchrone)
+  webhookEvents: "webhook_events",
+  // Reçus et avoirs émis, et compteurs de numérotation séquentielle (une série par préfixe et par an)
+  receipts: "payment_receipts",
+  receiptCounters: "receipt_counters",
+  // Webhooks sortants: abonnements des marchands et journal des livraisons
+  merchantWebhooks: "merchant_webhook_subscriptions",
+  merchantWebhookDeliveries: "merchant_webhook_deliveries",
+  // Marqueurs écrits avant chaque initiation, supprimés à sa fin (reprise après un arrêt brutal)
+  paymentInitiations: "payment_initiations",
+};
+
 /**
  * Configuration CORS
  */
@@ -68,16 +232,160 @@ export const CORS_CONFIG = {
 export const CALLBACK_CONFIG = {
   host: process.env.CALLBACK_HOST || "http://localhost:3001",
   path: "/api/webhooks/ynote-callback",
+  refundPath: "/api/webhooks/ynote-refund-callback",
   get url() {
     return `${this.host}${this.path}`;
   },
+  get refundUrl() {
+    return `${this.host}${this.refundPath}`;
+  },
 };
 
 /**
- * Valide que toutes les variables d'environnement requises sont présentes
- * @throws Error si une variable requise est manquante
+ * Vérification de l'authenticité des callbacks Y-Note
+ * Couches indépendantes, chacune activable par configuration
  */
-export function validateEnv(): void {
+export const WEBHOOK_SECURITY_CONFIG = {
+  // Jeton secret propre à chaque transaction, ajouté au notifUrl (?token=...)
+  requireCallbackToken: process.env.WEBHOOK_REQUIRE_TOKEN !== "false",
+  // Adresses IP (ou plages CIDR IPv4) autorisées, vide = pas de filtrage
+  allowedIps: (process.env.WEBHOOK_ALLOWED_IPS || "")
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(Boolean),
+  // Signature HMAC SHA-256 du corps brut, si Y-Note en fournit une
+  hmacSecret: process.env.WEBHOOK_HMAC_SECRET || "",
+  signatureHeader: (process.env.WEBHOOK_SIGNATURE_HEADER || "x-ynote-signature").toLowerCase(),
+  // Confirmer tout statut SUCCESSFUL auprès de l'API de statut avant de le croire
+  verifyWithProvider: process.env.WEBHOOK_VERIFY_WITH_PROVIDER !== "false",
+  // POST /api/webhooks/test (admin): avec le mock Y-Note ou sur demande explicite, jamais en production
+  testEndpointEnabled: YNOTE_MOCK_CONFIG.enabled || process.env.WEBHOOK_TEST_ENDPOINT === "true",
+};
+
+/**
+ * Traitement asynchrone des callbacks (boîte de réception webhook_events)
+ * Chaque callback est persisté puis traité par le worker, avec retentatives
+ */
+export const WEBHOOK_INBOX_CONFIG = {
+  // Désactiver pour les instances qui ne doivent pas traiter les événements
+  workerEnabled: process.env.WEBHOOK_WORKER_ENABLED !== "false",
+  pollIntervalMs: parseInt(process.env.WEBHOOK_WORKER_POLL_MS || "5000", 10),
+  batchSize: parseInt(process.env.WEBHOOK_WORKER_BATCH_SIZE || "10", 10),
+  // Au-delà, l'événement passe en dead-letter (replay manuel par un admin)
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10),
+  // Backoff exponentiel: base * 2^(tentative - 1), plafonné
+  baseBackoffSeconds: parseInt(process.env.WEBHOOK_BACKOFF_BASE_SECONDS || "5", 10),
+  maxBackoffSeconds: parseInt(process.env.WEBHOOK_BACKOFF_MAX_SECONDS || "1800", 10),
+  // Un événement "en traitement" depuis plus longtemps est repris (crash du worker)
+  leaseSeconds: parseInt(process.env.WEBHOOK_LEASE_SECONDS || "120", 10),
+};
+
+/**
+ * Webhooks sortants vers les endpoints des marchands (payment.succeeded, refund.completed...)
+ * Chaque livraison est signée (HMAC SHA-256) et retentée avec un backoff exponentiel
+ */
+export const MERCHANT_WEBHOOK_CONFIG = {
+  // Désactiver pour les instances qui ne doivent pas livrer les événements
+  workerEnabled: process.env.MERCHANT_WEBHOOK_WORKER_ENABLED !== "false",
+  pollIntervalMs: parseInt(process.env.MERCHANT_WEBHOOK_POLL_MS || "10000", 10),
+  batchSize: parseInt(process.env.MERCHANT_WEBHOOK_BATCH_SIZE || "20", 10),
+  // Au-delà, la livraison passe en dead-letter (relivraison manuelle par un admin)
+  maxAttempts: parseInt(process.env.MERCHANT_WEBHOOK_MAX_ATTEMPTS || "10", 10),
+  // Backoff exponentiel: base * 2^(tentative - 1), plafonné
+  baseBackoffSeconds: parseInt(process.env.MERCHANT_WEBHOOK_BACKOFF_BASE_SECONDS || "30", 10),
+  maxBackoffSeconds: parseInt(process.env.MERCHANT_WEBHOOK_BACKOFF_MAX_SECONDS || "21600", 10),
+  // Délai de réponse de l'endpoint du marchand
+  timeoutMs: parseInt(process.env.MERCHANT_WEBHOOK_TIMEOUT_MS || "10000", 10),
+  // Une livraison "en cours" depuis plus longtemps est reprise (crash du worker)
+  leaseSeconds: parseInt(process.env.MERCHANT_WEBHOOK_LEASE_SECONDS || "60", 10),
+  // En-tête portant la signature: t=<timestamp>,v1=<HMAC SHA-256 de "<timestamp>.<corps>">
+  signatureHeader: (process.env.MERCHANT_WEBHOOK_SIGNATURE_HEADER || "x-ilios-signature").toLowerCase(),
+  // Endpoints HTTP (non chiffrés) acceptés, pour les tests locaux uniquement
+  allowInsecureUrls: process.env.MERCHANT_WEBHOOK_ALLOW_HTTP === "true",
+};
+
+/**
+ * Cache en mémoire des statuts fournisseur (limite les appels à l'API de statut Y-Note)
+ * Un statut SUCCESSFUL est conservé jusqu'à éviction, un statut FAILED pendant failedTtlSeconds
+ * (un succès peut encore être confirmé après coup), un statut PENDING pendant pendingTtlSeconds.
+ * Les appels simultanés pour une même référence partagent une seule requête.
+ */
+export const STATUS_CACHE_CONFIG = {
+  enabled: process.env.STATUS_CACHE_ENABLED !== "false",
+  pendingTtlSeconds: parseInt(process.env.STATUS_CACHE_PENDING_TTL_SECONDS || "3", 10),
+  failedTtlSeconds: parseInt(process.env.STATUS_CACHE_FAILED_TTL_SECONDS || "60", 10),
+  // Intervalle minimal entre deux appels au fournisseur pour une même référence
+  // (au-delà du TTL, le dernier statut connu est servi jusqu'à cette échéance)
+  minPollIntervalSeconds: parseInt(process.env.STATUS_MIN_POLL_INTERVAL_SECONDS || "5", 10),
+  // Au-delà, les entrées les plus anciennes sont évincées
+  maxEntries: parseInt(process.env.STATUS_CACHE_MAX_ENTRIES || "10000", 10),
+};
+
+/**
+ * Flux temps réel du statut d'un paiement (SSE / WebSocket) pour l'écran de paiement
+ */
+export const PAYMENT_STREAM_CONFIG = {
+  // Commentaire SSE / ping WebSocket pour garder la connexion ouverte derrière les proxies
+  keepAliveSeconds: parseInt(process.env.PAYMENT_STREAM_KEEPALIVE_SECONDS || "15", 10),
+  // Sans changement de statut pendant ce délai, le statut est demandé au fournisseur
+  fallbackPollSeconds: parseInt(process.env.PAYMENT_STREAM_FALLBACK_POLL_SECONDS || "20", 10),
+  // Durée maximale d'un flux (le client peut se reconnecter)
+  maxDurationSeconds: parseInt(process.env.PAYMENT_STREAM_MAX_DURATION_SECONDS || "600", 10),
+  websocketEnabled: process.env.PAYMENT_STREAM_WEBSOCKET_ENABLED !== "false",
+};
+
+/**
+ * Contrôle de readiness (GET /health/ready)
+ */
+export const HEALTH_CONFIG = {
+  // Délai maximal de chaque vérification (Firestore, token fournisseur)
+  checkTimeoutMs: parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || "3000", 10),
+  // Un worker sans passage depuis ce nombre d'intervalles est considéré arrêté
+  workerStaleIntervals: parseInt(process.env.HEALTH_WORKER_STALE_INTERVALS || "3", 10),
+};
+
+/**
+ * Arrêt propre (SIGTERM / SIGINT)
+ * La readiness passe à false, puis après drainDelayMs (le temps que le load balancer
+ * retire l'instance) le serveur refuse les nouvelles connexions et attend la fin des
+ * requêtes et des traitements en cours, au plus timeoutMs
+ */
+export const SHUTDOWN_CONFIG = {
+  drainDelayMs: parseInt(process.env.SHUTDOWN_DRAIN_DELAY_MS || (SERVER_CONFIG.isProduction ? "5000" : "0"), 10),
+  timeoutMs: parseInt(process.env.SHUTDOWN_TIMEOUT_MS || "25000", 10),
+};
+
+/**
+ * Endpoint Prometheus GET /metrics
+ * Avec METRICS_TOKEN, le scraper doit envoyer Authorization: Bearer <token>
+ */
+export const METRICS_CONFIG = {
+  enabled: process.env.METRICS_ENABLED !== "false",
+  token: process.env.METRICS_TOKEN || "",
+};
+
+/**
+ * Job de réconciliation des transactions en attente (callback perdu, application fermée)
+ * Le statut est redemandé au fournisseur avec un intervalle qui croît avec l'âge
+ * de la transaction, puis la transaction expire
+ */
+export const RECONCILER_CONFIG = {
+  enabled: process.env.RECONCILER_ENABLED !== "false",
+  intervalMs: parseInt(process.env.RECONCILER_INTERVAL_MS || "30000", 10),
+  batchSize: parseInt(process.env.RECONCILER_BATCH_SIZE || "20", 10),
+  // Intervalle entre deux vérifications: un quart de l'âge, borné par ces valeurs
+  minCheckIntervalSeconds: parseInt(process.env.RECONCILER_MIN_INTERVAL_SECONDS || "30", 10),
+  maxCheckIntervalSeconds: parseInt(process.env.RECONCILER_MAX_INTERVAL_SECONDS || "600", 10),
+  // Sans issue après ce délai, la transaction passe en EXPIRED
+  expireAfterMinutes: parseInt(process.env.PAYMENT_EXPIRE_AFTER_MINUTES || "30", 10),
+  // Bail d'une instance sur une transaction (plusieurs instances peuvent tourner)
+  leaseSeconds: parseInt(process.env.RECONCILER_LEASE_SECONDS || "60", 10),
+};
+
+/**
+ * Variables d'environnement requises absentes
+ */
+function getMissingEnvKeys(): string[] {
   const required: { key: string; value: string }[] = [
     { key: "YNOTE_CLIENT_ID", value: YNOTE_CREDENTIALS.clientId },
     { key: "YNOTE_CLIENT_SECRET", value: YNOTE_CREDENTIALS.clientSecret },
@@ -85,17 +393,53 @@ export function validateEnv(): void {
     { key: "YNOTE_SUBSCRIPTION_KEY", value: YNOTE_CREDENTIALS.subscriptionKey },
   ];
 
-  const missing = required.filter((item) => !item.value);
+  return required.filter((item) => !item.value).map((item) => item.key);
+}
+
+/**
+ * Problèmes de configuration, sans log ni exception (contrôle de readiness)
+ * @returns liste vide si la configuration est valide
+ */
+export function getConfigErrors(): string[] {
+  const errors: string[] = [];
+
+  if (YNOTE_MOCK_CONFIG.enabled && SERVER_CONFIG.isProduction) {
+    errors.push("YNOTE_MOCK ne peut pas être activé en production");
+  }
+
+  const missing = getMissingEnvKeys();
+  if (missing.length > 0) {
+    errors.push(`Variables d'environnement manquantes: ${missing.join(", ")}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Valide que toutes les variables d'environnement requises sont présentes
+ * @throws Error si une variable requise est manquante
+ */
+export function validateEnv(): void {
+  if (YNOTE_MOCK_CONFIG.enabled && SERVER_CONFIG.isProduction) {
+    throw new Error("YNOTE_MOCK ne peut pas être activé en production");
+  }
+
+  if (WEBHOOK_SECURITY_CONFIG.testEndpointEnabled && SERVER_CONFIG.isProduction) {
+    throw new Error("WEBHOOK_TEST_ENDPOINT ne peut pas être activé en production");
+  }
+
+  const missing = getMissingEnvKeys();
 
   if (missing.length > 0) {
-    const missingKeys = missing.map((item) => item.key).join(", ");
-    console.error(`❌ Variables d'environnement manquantes: ${missingKeys}`);
-    console.error("📝 Consultez le fichier .env.example pour la configuration");
+    const missingKeys = missing.join(", ");
+    logger.error(`❌ Variables d'environnement manquantes: ${missingKeys}`, {
+      hint: "Consultez le fichier .env.example pour la configuration",
+    });
 
     if (SERVER_CONFIG.isProduction) {
       throw new Error(`Variables d'environnement manquantes: ${missingKeys}`);
     } else {
-      console.warn("⚠️  Mode développement: continuant sans toutes les credentials...");
+      logger.warn("⚠️  Mode développement: continuant sans toutes les credentials...");
     }
   }
 }
@@ -104,23 +448,70 @@ export function validateEnv(): void {
  * Affiche la configuration actuelle (sans les secrets)
  */
 export function logConfig(): void {
-  console.log("📋 Configuration chargée:");
-  console.log(`   - Port: ${SERVER_CONFIG.port}`);
-  console.log(`   - Environnement: ${SERVER_CONFIG.nodeEnv}`);
-  console.log(`   - Y-Note Base URL: ${YNOTE_CONFIG.baseUrl}`);
-  console.log(`   - Firebase Project: ${FIREBASE_CONFIG.projectId}`);
-  console.log(`   - Callback URL: ${CALLBACK_CONFIG.url}`);
-  console.log(`   - CORS Origins: ${CORS_CONFIG.allowedOrigins.length} domaines`);
-  console.log(`   - Credentials Y-Note: ${YNOTE_CREDENTIALS.clientId ? "✅" : "❌"}`);
+  logger.info("📋 Configuration chargée", {
+    port: SERVER_CONFIG.port,
+    environment: SERVER_CONFIG.nodeEnv,
+    log: `${LOG_CONFIG.level} (${LOG_CONFIG.format})`,
+    paymentProvider: PAYMENT_CONFIG.provider,
+    ynoteBaseUrl: `${YNOTE_CONFIG.baseUrl}${YNOTE_MOCK_CONFIG.enabled ? " (mock)" : ""}`,
+    ynoteClient:
+      `délai ${YNOTE_HTTP_CONFIG.timeoutMs} ms, ${YNOTE_HTTP_CONFIG.maxRetries} retentatives, ` +
+      `disjoncteur après ${YNOTE_HTTP_CONFIG.breakerFailureThreshold} échecs`,
+    firebaseProject: FIREBASE_CONFIG.projectId,
+    callbackUrl: CALLBACK_CONFIG.url,
+    webhookSecurity:
+      `jeton ${WEBHOOK_SECURITY_CONFIG.requireCallbackToken ? "✅" : "❌"}, ` +
+      `IP ${WEBHOOK_SECURITY_CONFIG.allowedIps.length ? "✅" : "❌"}, ` +
+      `HMAC ${WEBHOOK_SECURITY_CONFIG.hmacSecret ? "✅" : "❌"}, ` +
+      `contre-vérification ${WEBHOOK_SECURITY_CONFIG.verifyWithProvider ? "✅" : "❌"}, ` +
+      `endpoint de test ${WEBHOOK_SECURITY_CONFIG.testEndpointEnabled ? "✅" : "❌"}`,
+    webhookWorker:
+      `${WEBHOOK_INBOX_CONFIG.workerEnabled ? "✅" : "❌"} (${WEBHOOK_INBOX_CONFIG.maxAttempts} tentatives max)`,
+    merchantWebhooks:
+      `${MERCHANT_WEBHOOK_CONFIG.workerEnabled ? "✅" : "❌"} (${MERCHANT_WEBHOOK_CONFIG.maxAttempts} tentatives max)`,
+    reconciler:
+      `${RECONCILER_CONFIG.enabled ? "✅" : "❌"} (expiration après ${RECONCILER_CONFIG.expireAfterMinutes} min)`,
+    statusCache:
+      `${STATUS_CACHE_CONFIG.enabled ? "✅" : "❌"} ` +
+      `(PENDING ${STATUS_CACHE_CONFIG.pendingTtlSeconds} s, FAILED ${STATUS_CACHE_CONFIG.failedTtlSeconds} s, appel fournisseur toutes les ${STATUS_CACHE_CONFIG.minPollIntervalSeconds} s max)`,
+    paymentStream:
+      `SSE ✅, WebSocket ${PAYMENT_STREAM_CONFIG.websocketEnabled ? "✅" : "❌"} ` +
+      `(polling de secours après ${PAYMENT_STREAM_CONFIG.fallbackPollSeconds} s)`,
+    shutdown: `retrait ${SHUTDOWN_CONFIG.drainDelayMs} ms, délai ${SHUTDOWN_CONFIG.timeoutMs} ms`,
+    metrics: METRICS_CONFIG.enabled ? `✅ (${METRICS_CONFIG.token ? "jeton requis" : "sans jeton"})` : "❌",
+    refundApprovalThreshold: `${REFUND_CONFIG.approvalThreshold} FCFA`,
+    corsOrigins: CORS_CONFIG.allowedOrigins.length,
+    ynoteCredentials: YNOTE_CREDENTIALS.clientId ? "✅" : "❌",
+  });
 }
 
 export default {
   server: SERVER_CONFIG,
+  log: LOG_CONFIG,
+  payment: PAYMENT_CONFIG,
+  pricing: PRICING_CONFIG,
+  refund: REFUND_CONFIG,
+  receipt: RECEIPT_CONFIG,
+  idempotency: IDEMPOTENCY_CONFIG,
   ynote: YNOTE_CONFIG,
+  ynoteHttp: YNOTE_HTTP_CONFIG,
+  ynoteMock: YNOTE_MOCK_CONFIG,
+  operators: OPERATOR_CONFIG,
   credentials: YNOTE_CREDENTIALS,
   firebase: FIREBASE_CONFIG,
+  collections: FIRESTORE_COLLECTIONS,
   cors: CORS_CONFIG,
   callback: CALLBACK_CONFIG,
+  webhookSecurity: WEBHOOK_SECURITY_CONFIG,
+  webhookInbox: WEBHOOK_INBOX_CONFIG,
+  merchantWebhook: MERCHANT_WEBHOOK_CONFIG,
+  statusCache: STATUS_CACHE_CONFIG,
+  paymentStream: PAYMENT_STREAM_CONFIG,
+  metrics: METRICS_CONFIG,
+  health: HEALTH_CONFIG,
+  shutdown: SHUTDOWN_CONFIG,
+  reconciler: RECONCILER_CONFIG,
+  getConfigErrors,
   validateEnv,
   logConfig,
 };
@@ -1,46 +1,91 @@
 /**
- * Point d'entrée de l'API de paiement Y-Note/MTN Mobile Money
+ * Point d'entrée de l'API de paiement Y-Note (MTN Mobile Money / Orange Money)
  *
  * Ce serveur Express expose les endpoints nécessaires pour:
- * - Initier des paiements MTN Mobile Money
- * - Vérifier le statut des paiements
+ * - Initier des paiements MTN Mobile Money et Orange Money
+ * - Vérifier le statut des paiements (polling ou flux temps réel SSE / WebSocket)
  * - Recevoir les callbacks de Y-Note
+ * - Réconcilier les paiements restés en attente
  * - Gérer les remboursements (admin)
+ * - Notifier les marchands par webhooks sortants
  */
 
-import express, { Request, Response, NextFunction } from "express";
+import express, { Request, Response } from "express";
 import cors from "cors";
 import helmet from "helmet";
-import morgan from "morgan";
 
 // Configuration
-import config, { validateEnv, logConfig, CORS_CONFIG, SERVER_CONFIG } from "./config/env";
+import config, {
+  validateEnv,
+  logConfig,
+  CORS_CONFIG,
+  METRICS_CONFIG,
+  SERVER_CONFIG,
+  YNOTE_MOCK_CONFIG,
+} from "./config/env";
 
 // Services
-import ynoteService from "./services/ynote.service";
+import paymentService from "./services/payment.service";
+import { getStatusCacheStats } from "./services/status-cache.service";
+import { getYnoteCircuitState } from "./services/providers/ynote-client";
+import { getMetrics } from "./services/metrics.service";
+import { checkReadiness, getLiveness, toPublicReport } from "./services/health.service";
+import { recoverOrphanedInitiations } from "./services/reconciliation.service";
+import { shutdown } from "./services/shutdown.service";
+
+// Workers
+import { startWebhookWorker } from "./workers/webhook.worker";
+import { startReconcilerWorker } from "./workers/reconciler.worker";
+import { startMerchantWebhookWorker } from "./workers/merchant-webhook.worker";
+
+// Mock Y-Note (développement)
+import { startYnoteMockServer } from "./mock/ynote-mock.server";
+
+// Middleware
+import { RawBodyRequest } from "./middleware/webhook-auth";
+import { requestContext } from "./middleware/request-context";
+import { trackInFlightRequests } from "./middleware/in-flight";
+import { errorHandler } from "./middleware/error-handler";
+import { optionalAuth, isAdminUser, AuthenticatedRequest } from "./middleware/auth";
+
+// Utilitaires
+import logger from "./utils/logger";
+import { safeEqual } from "./utils/crypto";
 
 // Routes
 import paymentRoutes from "./routes/payment.routes";
 import webhookRoutes from "./routes/webhook.routes";
+import adminRoutes from "./routes/admin.routes";
+import { attachPaymentWebSocket } from "./routes/payment-ws";
 
 // Initialiser Express
 const app = express();
 
+// Derrière un load balancer, req.ip doit refléter le client (liste blanche IP des webhooks)
+if (SERVER_CONFIG.trustProxy > 0) {
+  app.set("trust proxy", SERVER_CONFIG.trustProxy);
+}
+
 // ============== MIDDLEWARE ==============
 
+// Requêtes en cours, attendues par l'arrêt propre
+app.use(trackInFlightRequests);
+
 // CORS - Configuration simple et permissive pour le développement
 const corsOptions = SERVER_CONFIG.isProduction
   ? {
       origin: CORS_CONFIG.allowedOrigins,
       credentials: true,
       methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-      allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
+      allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "Idempotency-Key", "X-Request-Id"],
+      exposedHeaders: ["Idempotent-Replayed", "X-Request-Id"],
     }
   : {
       origin: true, // Autorise TOUTES les origines en développement
       credentials: true,
       methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-      allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
+      allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "Idempotency-Key", "X-Request-Id"],
+      exposedHeaders: ["Idempotent-Replayed", "X-Request-Id"],
     };
 
 app.use(cors(corsOptions));
@@ -53,49 +98,130 @@ if (SERVER_CONFIG.isProduction) {
   }));
 }
 
-// Logging des requêtes
-app.use(morgan(SERVER_CONFIG.isProduction ? "combined" : "dev"));
-
-// Parser JSON
-app.use(express.json());
+// Parser JSON (le corps brut est conservé pour vérifier les signatures HMAC des webhooks)
+app.use(
+  express.json({
+    verify: (req, res, buf) => {
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  })
+);
 
 // Parser URL-encoded
 app.use(express.urlencoded({ extended: true }));
 
+// Identifiant de corrélation (X-Request-Id) et journal des requêtes
+// Après les parsers: le contexte asynchrone ne survit pas à la lecture du corps
+app.use(requestContext);
+
 // ============== ROUTES ==============
 
-// Route de santé (health check)
-app.get("/health", (req: Request, res: Response) => {
-  res.status(200).json({
-    success: true,
+// Liveness: le processus répond (aucune dépendance vérifiée)
+app.get("/health/live", (req: Request, res: Response) => {
+  res.status(200).json({ success: true, ...getLiveness() });
+});
+
+// Readiness: 503 tant qu'un composant est hors service (retrait du load balancer)
+// Erreurs et détails des composants pour les admins uniquement
+app.get("/health/ready", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+  const readiness = await checkReadiness();
+
+  res.status(readiness.ready ? 200 : 503).json({
+    success: readiness.ready,
+    ...(isAdminUser(req.user) ? readiness : toPublicReport(readiness)),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Route de santé (health check): readiness et compteurs du service
+// (erreurs, détails et état complet du disjoncteur pour les admins uniquement)
+app.get("/health", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+  const readiness = await checkReadiness();
+  const detailed = isAdminUser(req.user);
+  const circuit = getYnoteCircuitState();
+
+  res.status(readiness.ready ? 200 : 503).json({
+    success: readiness.ready,
     service: "payment-api",
-    status: "healthy",
+    status: readiness.status,
     version: "1.0.0",
     timestamp: new Date().toISOString(),
     environment: SERVER_CONFIG.nodeEnv,
+    uptimeSeconds: getLiveness().uptimeSeconds,
+    checks: detailed ? readiness.checks : toPublicReport(readiness).checks,
+    providers: {
+      ynote: { circuit: detailed ? circuit : { state: circuit.state } },
+    },
+    metrics: {
+      statusCache: getStatusCacheStats(),
+    },
   });
 });
 
+// Métriques Prometheus (jeton METRICS_TOKEN requis s'il est défini)
+app.get("/metrics", async (req: Request, res: Response) => {
+  if (!METRICS_CONFIG.enabled) {
+    res.status(404).json({ success: false, error: "Métriques désactivées", code: "NOT_FOUND" });
+    return;
+  }
+
+  if (METRICS_CONFIG.token && !safeEqual(req.get("Authorization") || "", `Bearer ${METRICS_CONFIG.token}`)) {
+    res.status(401).json({ success: false, error: "Jeton de métriques manquant ou invalide", code: "UNAUTHENTICATED" });
+    return;
+  }
+
+  const { contentType, body } = await getMetrics();
+  res.setHeader("Content-Type", contentType);
+  res.status(200).send(body);
+});
+
 // Route racine
 app.get("/", (req: Request, res: Response) => {
   res.status(200).json({
     success: true,
-    message: "API de paiement Y-Note/MTN Mobile Money",
+    message: "API de paiement Y-Note (MTN Mobile Money / Orange Money)",
     version: "1.0.0",
     documentation: "/api/docs",
     endpoints: {
       health: "GET /health",
+      liveness: "GET /health/live",
+      readiness: "GET /health/ready",
+      metrics: "GET /metrics (Prometheus)",
       payments: {
+        history: "GET /api/payments",
+        detail: "GET /api/payments/:referenceId",
+        receipt: "GET /api/payments/:referenceId/receipt",
+        events: "GET /api/payments/:referenceId/events (SSE)",
+        websocket: "WS /api/payments/:referenceId/ws",
         initiate: "POST /api/payments/initiate",
         status: "POST /api/payments/status",
         statusGet: "GET /api/payments/status/:referenceId",
         refund: "POST /api/payments/refund (admin)",
+        refundDetail: "GET /api/payments/refunds/:refundId (admin)",
+        refundApprove: "POST /api/payments/refunds/:refundId/approve (admin)",
+        refundRetry: "POST /api/payments/refunds/:refundId/retry (admin)",
+        refundComplete: "POST /api/payments/refunds/:refundId/complete (admin)",
+        refundCancel: "POST /api/payments/refunds/:refundId/cancel (admin)",
         validatePhone: "POST /api/payments/validate-phone",
       },
       webhooks: {
         callback: "POST /api/webhooks/ynote-callback",
+        refundCallback: "POST /api/webhooks/ynote-refund-callback",
+        events: "GET /api/webhooks/events (admin)",
+        event: "GET /api/webhooks/events/:eventId (admin)",
+        replay: "POST /api/webhooks/events/:eventId/replay (admin)",
         health: "GET /api/webhooks/health",
       },
+      admin: {
+        transactions: "GET /api/admin/transactions (admin)",
+        transaction: "GET /api/admin/transactions/:referenceId (admin)",
+        resolveDiscrepancy: "POST /api/admin/discrepancies/:referenceId/resolve (admin)",
+        webhooks: "GET|POST /api/admin/webhooks (admin)",
+        webhook: "PATCH|DELETE /api/admin/webhooks/:subscriptionId (admin)",
+        webhookDeliveries: "GET /api/admin/webhook-deliveries (admin)",
+        webhookDelivery: "GET /api/admin/webhook-deliveries/:deliveryId (admin)",
+        webhookRedeliver: "POST /api/admin/webhook-deliveries/:deliveryId/redeliver (admin)",
+      },
     },
   });
 });
@@ -103,26 +229,40 @@ app.get("/", (req: Request, res: Response) => {
 // Documentation basique
 app.get("/api/docs", (req: Request, res: Response) => {
   res.status(200).json({
-    title: "API de paiement Y-Note/MTN Mobile Money",
+    title: "API de paiement Y-Note (MTN Mobile Money / Orange Money)",
     version: "1.0.0",
-    description: "API pour gérer les paiements MTN Mobile Money via Y-Note/Paynote au Cameroun",
+    description: "API pour gérer les paiements MTN Mobile Money et Orange Money via Y-Note/Paynote au Cameroun",
     baseUrl: `http://localhost:${SERVER_CONFIG.port}`,
     authentication: "Firebase ID Token dans le header Authorization: Bearer <token>",
+    correlation: "Header X-Request-Id (optionnel, généré sinon), renvoyé dans chaque réponse et présent dans les logs",
+    health: {
+      liveness: "GET /health/live: le processus répond (200)",
+      readiness:
+        "GET /health/ready: statut et latence par composant (config, firestore, provider, circuitBreaker, workers); 503 si un composant est down",
+      statuses: "up | degraded | disabled | down (ready | degraded | not_ready pour l'instance)",
+    },
     endpoints: [
       {
         method: "POST",
         path: "/api/payments/initiate",
-        description: "Initier un paiement MTN Mobile Money",
+        description: "Initier un paiement MTN Mobile Money ou Orange Money",
         auth: "required",
+        headers: {
+          "Idempotency-Key": "string (optionnel, rejoue la réponse d'origine pour une même requête)",
+        },
         body: {
           campaignId: "string (requis)",
-          amount: "number (requis, min 100 FCFA)",
-          phoneNumber: "string (requis, numéro MTN Cameroun)",
+          amount: "number (optionnel, calculé depuis la campagne; doit correspondre au montant dû)",
+          phoneNumber: "string (requis, numéro MTN ou Orange Cameroun)",
+          operator: "mtn | orange (optionnel, détecté depuis le numéro)",
           payerMessage: "string (optionnel)",
         },
         response: {
           success: "boolean",
-          referenceId: "string (UUID)",
+          referenceId: "string (UUID, notre référence stable)",
+          providerReference: "string (MessageId Y-Note)",
+          amount: "number (montant dû débité, FCFA)",
+          operator: "mtn | orange",
           status: "PENDING | SUCCESSFUL | FAILED",
           message: "string",
         },
@@ -130,15 +270,17 @@ app.get("/api/docs", (req: Request, res: Response) => {
       {
         method: "POST",
         path: "/api/payments/status",
-        description: "Vérifier le statut d'un paiement",
+        description: "Vérifier le statut d'un paiement (propriétaire de la transaction ou admin)",
         auth: "required",
         body: {
-          referenceId: "string (requis)",
-          campaignId: "string (optionnel)",
+          referenceId: "string (requis: notre référence, MessageId Y-Note ou financialTransactionId)",
         },
         response: {
           success: "boolean",
-          status: "PENDING | SUCCESSFUL | FAILED",
+          referenceId: "string (notre référence stable)",
+          providerReference: "string (MessageId Y-Note)",
+          operator: "mtn | orange",
+          status: "CREATED | PENDING | SUCCESSFUL | FAILED | EXPIRED | CANCELLED | REFUND_PENDING | REFUNDED | PARTIALLY_REFUNDED",
           amount: "string",
           currency: "XAF",
           financialTransactionId: "string",
@@ -148,39 +290,297 @@ app.get("/api/docs", (req: Request, res: Response) => {
       {
         method: "POST",
         path: "/api/payments/refund",
-        description: "Demander un remboursement (admin uniquement)",
+        description: "Rembourser tout ou partie d'un paiement réussi via un versement Y-Note (admin uniquement)",
         auth: "required (admin)",
         body: {
           referenceId: "string (requis)",
-          amount: "number (requis)",
-          phoneNumber: "string (requis)",
+          amount: "number (optionnel, entier FCFA; par défaut tout le montant restant remboursable)",
+          phoneNumber: "string (optionnel, numéro du payeur par défaut; doit lui correspondre)",
           reason: "string (requis)",
         },
+        response: {
+          success: "boolean",
+          refundId: "string",
+          status: "PENDING_APPROVAL | PENDING_MANUAL | PENDING | PROCESSING | SUCCESSFUL | FAILED | CANCELLED",
+          message: "string",
+        },
+      },
+      {
+        method: "GET",
+        path: "/api/payments/refunds/:refundId",
+        description: "Détail d'un remboursement, statut rafraîchi auprès de Y-Note s'il est en cours (admin uniquement)",
+        auth: "required (admin)",
+      },
+      {
+        method: "POST",
+        path: "/api/payments/refunds/:refundId/approve",
+        description: "Approuver un remboursement au-delà du seuil, par un admin autre que le demandeur",
+        auth: "required (admin)",
+      },
+      {
+        method: "POST",
+        path: "/api/payments/refunds/:refundId/retry",
+        description: "Relancer un remboursement en échec, sauf si la tentative précédente a abouti ou est encore en cours chez le fournisseur (admin uniquement)",
+        auth: "required (admin)",
+      },
+      {
+        method: "POST",
+        path: "/api/payments/refunds/:refundId/complete",
+        description: "Clôturer un remboursement manuel une fois le versement effectué: avoir et événement refund.completed (admin uniquement)",
+        auth: "required (admin)",
+        body: {
+          operatorReference: "string (requis, référence du versement chez l'opérateur)",
+          note: "string (optionnel)",
+        },
+      },
+      {
+        method: "POST",
+        path: "/api/payments/refunds/:refundId/cancel",
+        description: "Annuler (ou refuser) un remboursement en échec, manuel ou en attente d'approbation (admin uniquement)",
+        auth: "required (admin)",
+        body: {
+          reason: "string (optionnel)",
+        },
+      },
+      {
+        method: "GET",
+        path: "/api/payments",
+        description: "Historique des paiements de l'utilisateur connecté, les plus récents d'abord",
+        auth: "required",
+        query: {
+          campaignId: "string (optionnel)",
+          cursor: "string (optionnel, nextCursor de la page précédente)",
+          limit: "number (optionnel, 20 par défaut, 100 max)",
+        },
+        response: {
+          success: "boolean",
+          count: "number",
+          payments: "array (sans données fournisseur, numéro masqué)",
+          nextCursor: "string | null",
+        },
+      },
+      {
+        method: "GET",
+        path: "/api/payments/:referenceId",
+        description: "Détail d'un paiement de l'utilisateur connecté, avec l'historique de ses statuts",
+        auth: "required (propriétaire de la transaction)",
+      },
+      {
+        method: "GET",
+        path: "/api/payments/:referenceId/receipt",
+        description: "Télécharger le reçu numéroté d'un paiement réussi, ou l'avoir d'un remboursement",
+        auth: "required (propriétaire de la transaction ou admin)",
+        query: {
+          format: "pdf | html (optionnel, pdf par défaut)",
+          refundId: "string (optionnel, avoir de ce remboursement)",
+        },
+      },
+      {
+        method: "GET",
+        path: "/api/payments/:referenceId/events",
+        description: "Flux Server-Sent Events du statut: 'status' à l'ouverture et à chaque changement, 'end' sur un statut final, keep-alive; polling Y-Note de secours sans callback",
+        auth: "required (propriétaire de la transaction ou admin)",
+        query: {
+          access_token: "string (optionnel, Firebase ID token pour EventSource)",
+        },
+        events: {
+          status: "paiement (même format que GET /api/payments/:referenceId)",
+          end: "{ referenceId, status, reason: final | timeout | shutdown } (shutdown: se reconnecter)",
+          error: "{ referenceId, error }",
+        },
+      },
+      {
+        method: "WS",
+        path: "/api/payments/:referenceId/ws",
+        description: "Même flux en WebSocket (messages JSON { event, data }, fermeture 1000 après end)",
+        auth: "required (Authorization ou ?access_token=)",
       },
       {
         method: "POST",
         path: "/api/payments/validate-phone",
-        description: "Valider un numéro MTN Cameroun",
+        description: "Valider un numéro MTN ou Orange Cameroun et détecter l'opérateur",
         auth: "non requis",
         body: {
           phoneNumber: "string (requis)",
+          operator: "mtn | orange (optionnel)",
         },
       },
       {
         method: "POST",
         path: "/api/webhooks/ynote-callback",
         description: "Webhook pour les callbacks Y-Note (appelé par Y-Note)",
-        auth: "non requis",
+        auth: "jeton de transaction (?token=), liste blanche IP et signature HMAC selon la configuration",
+        response: {
+          success: "boolean",
+          eventId: "string (clé de déduplication du callback)",
+          duplicate: "boolean (callback déjà reçu)",
+        },
+      },
+      {
+        method: "POST",
+        path: "/api/webhooks/ynote-refund-callback",
+        description: "Webhook pour l'issue des remboursements Y-Note (appelé par Y-Note)",
+        auth: "jeton du remboursement (?token=), liste blanche IP et signature HMAC selon la configuration",
+      },
+      {
+        method: "GET",
+        path: "/api/webhooks/events",
+        description: "Lister les callbacks reçus et leur état de traitement (admin uniquement)",
+        auth: "required (admin)",
+        query: {
+          status: "PENDING | PROCESSING | PROCESSED | DEAD_LETTER (optionnel)",
+          referenceId: "string (optionnel)",
+          limit: "number (optionnel, 50 par défaut, 200 max)",
+        },
+      },
+      {
+        method: "GET",
+        path: "/api/webhooks/events/:eventId",
+        description: "Détail d'un callback: payload, tentatives, dernière erreur (admin uniquement)",
+        auth: "required (admin)",
+      },
+      {
+        method: "POST",
+        path: "/api/webhooks/events/:eventId/replay",
+        description: "Rejouer un callback, par exemple après un dead-letter (admin uniquement)",
+        auth: "required (admin)",
+      },
+      {
+        method: "GET",
+        path: "/api/admin/transactions",
+        description: "Rechercher des transactions, les plus récentes d'abord (admin uniquement)",
+        auth: "required (admin)",
+        query: {
+          status: "CREATED | PENDING | SUCCESSFUL | FAILED | ... (optionnel)",
+          campaignId: "string (optionnel)",
+          userId: "string (optionnel)",
+          phoneNumber: "string (optionnel)",
+          from: "date ISO 8601 (optionnel, createdAt >=)",
+          to: "date ISO 8601 (optionnel, createdAt <=)",
+          minAmount: "number (optionnel, FCFA)",
+          maxAmount: "number (optionnel, FCFA)",
+          cursor: "string (optionnel, nextCursor de la page précédente)",
+          limit: "number (optionnel, 20 par défaut, 100 max)",
+        },
+        response: {
+          success: "boolean",
+          count: "number",
+          transactions: "array",
+          nextCursor: "string | null (null sur la dernière page)",
+        },
+      },
+      {
+        method: "GET",
+        path: "/api/admin/transactions/:referenceId",
+        description: "Détail d'une transaction: réponses Y-Note brutes, historique des statuts, campagne et remboursements (admin uniquement)",
+        auth: "required (admin)",
+        response: {
+          success: "boolean",
+          transaction: "object",
+          providerData: "{ ynoteResponse, ynoteStatusResponse, callbackData }",
+          statusHistory: "array (du plus ancien au plus récent)",
+          campaign: "object | null",
+          refunds: "array",
+        },
+      },
+      {
+        method: "POST",
+        path: "/api/admin/discrepancies/:referenceId/resolve",
+        description: "Trancher un écart de paiement; la campagne reste bloquée tant qu'il est ouvert (admin uniquement)",
+        auth: "required (admin)",
+        body: {
+          decision: "accept (campagne planifiée avec le montant reçu) | reject (campagne de nouveau payable, montant à rembourser)",
+          note: "string (optionnel)",
+        },
+        response: {
+          success: "boolean",
+          discrepancy: "{ referenceId, campaignId, type, expected, paid, status: RESOLVED, resolution: ACCEPTED | REJECTED, resolvedBy, resolvedAt }",
+        },
+      },
+      {
+        method: "GET",
+        path: "/api/admin/webhooks",
+        description: "Lister les abonnements des endpoints marchands, sans leur secret (admin uniquement)",
+        auth: "required (admin)",
+      },
+      {
+        method: "POST",
+        path: "/api/admin/webhooks",
+        description: "Abonner un endpoint HTTPS à des événements; le secret de signature n'est renvoyé qu'à la création (admin uniquement)",
+        auth: "required (admin)",
+        body: {
+          url: "string (HTTPS)",
+          events: "payment.pending | payment.succeeded | payment.failed | refund.completed | campaign.scheduled (tableau)",
+          description: "string (optionnel)",
+        },
+      },
+      {
+        method: "PATCH",
+        path: "/api/admin/webhooks/:subscriptionId",
+        description: "Modifier un abonnement: url, events, description, active (admin uniquement)",
+        auth: "required (admin)",
+      },
+      {
+        method: "DELETE",
+        path: "/api/admin/webhooks/:subscriptionId",
+        description: "Supprimer un abonnement (admin uniquement)",
+        auth: "required (admin)",
+      },
+      {
+        method: "GET",
+        path: "/api/admin/webhook-deliveries",
+        description: "Journal des livraisons de webhooks, les plus récentes d'abord (admin uniquement)",
+        auth: "required (admin)",
+        query: {
+          subscriptionId: "string (optionnel)",
+          status: "PENDING | DELIVERING | DELIVERED | DEAD_LETTER (optionnel)",
+          eventType: "string (optionnel)",
+          limit: "number (optionnel, 50 par défaut, 200 max)",
+        },
+      },
+      {
+        method: "GET",
+        path: "/api/admin/webhook-deliveries/:deliveryId",
+        description: "Détail d'une livraison: événement, journal des tentatives, dernière réponse (admin uniquement)",
+        auth: "required (admin)",
+      },
+      {
+        method: "POST",
+        path: "/api/admin/webhook-deliveries/:deliveryId/redeliver",
+        description: "Relivrer un événement, par exemple après un dead-letter (admin uniquement)",
+        auth: "required (admin)",
       },
     ],
+    merchantWebhooks: {
+      signature: "En-tête X-Ilios-Signature: t=<timestamp>,v1=<HMAC SHA-256 hex de \"<timestamp>.<corps brut>\"> avec le secret de l'abonnement",
+      headers: "X-Ilios-Event (type d'événement), X-Ilios-Delivery (ID de livraison)",
+      body: "{ id, type, createdAt, data }",
+      retries: "Toute réponse non 2xx est retentée avec un backoff exponentiel, puis dead-letter",
+    },
+    errors: {
+      format: "{ success: false, error, code, details? }",
+      details: "Erreurs de validation (INVALID_ARGUMENT): liste { field, message } des champs refusés (ex: field \"amount\", \"events.1\")",
+      retryAfter: "Header Retry-After (secondes) sur PROVIDER_UNAVAILABLE",
+      referenceId: "Présent sur PROVIDER_UNAVAILABLE si la demande de paiement a pu partir: suivre cette transaction au lieu de relancer (réponse rejouée pour la même Idempotency-Key)",
+    },
     errorCodes: {
       UNAUTHENTICATED: "Token d'authentification manquant ou invalide",
       TOKEN_EXPIRED: "Token expiré",
-      INVALID_ARGUMENT: "Paramètre manquant ou invalide",
-      INVALID_PHONE: "Numéro de téléphone MTN invalide",
+      INVALID_ARGUMENT: "Paramètre manquant ou invalide (détail par champ dans details)",
+      INVALID_JSON: "Corps de requête JSON illisible",
+      INVALID_PHONE: "Numéro MTN/Orange invalide, ne correspondant pas à l'opérateur ou au payeur (remboursement)",
       NOT_FOUND: "Ressource introuvable",
       PERMISSION_DENIED: "Accès non autorisé",
-      INVALID_STATUS: "Statut de campagne invalide pour cette opération",
+      INVALID_STATUS: "Statut de campagne, de paiement ou de remboursement invalide pour cette opération (409)",
+      AMOUNT_MISMATCH: "Le montant ne correspond pas au montant dû pour la campagne",
+      PAYMENT_IN_PROGRESS: "Un paiement est déjà en cours pour cette campagne",
+      IDEMPOTENCY_KEY_REUSED: "Idempotency-Key déjà utilisée avec une requête différente",
+      IDEMPOTENCY_IN_PROGRESS: "Requête avec cette Idempotency-Key encore en traitement",
+      REFUND_AMOUNT_EXCEEDED: "Montant supérieur au montant restant remboursable de la transaction",
+      INVALID_TRANSITION: "Changement de statut de transaction interdit (ex: remboursement d'un paiement non réussi)",
+      EVENT_IN_PROGRESS: "Événement ou livraison webhook en cours de traitement par le worker",
+      PROVIDER_ERROR: "Requête refusée par Y-Note (erreur renvoyée par le fournisseur)",
+      PROVIDER_UNAVAILABLE: "Y-Note indisponible (disjoncteur ouvert, délais dépassés) ou demande restée sans réponse; réessayer après Retry-After",
       INTERNAL_ERROR: "Erreur serveur interne",
     },
   });
@@ -192,6 +592,9 @@ app.use("/api/payments", paymentRoutes);
 // Routes webhook
 app.use("/api/webhooks", webhookRoutes);
 
+// Routes d'administration
+app.use("/api/admin", adminRoutes);
+
 // ============== GESTION DES ERREURS ==============
 
 // Route 404
@@ -203,42 +606,14 @@ app.use((req: Request, res: Response) => {
   });
 });
 
-// Gestionnaire d'erreurs global
-app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error("❌ Erreur non gérée:", err);
-
-  // Erreur CORS
-  if (err.message.includes("CORS")) {
-    res.status(403).json({
-      success: false,
-      error: "Accès CORS refusé",
-      code: "CORS_ERROR",
-    });
-    return;
-  }
-
-  // Erreur JSON parsing
-  if (err instanceof SyntaxError && "body" in err) {
-    res.status(400).json({
-      success: false,
-      error: "JSON invalide dans le corps de la requête",
-      code: "INVALID_JSON",
-    });
-    return;
-  }
-
-  res.status(500).json({
-    success: false,
-    error: SERVER_CONFIG.isProduction ? "Erreur serveur interne" : err.message,
-    code: "INTERNAL_ERROR",
-  });
-});
+// Gestionnaire d'erreurs global: erreurs métier, validation, JSON invalide, CORS
+app.use(errorHandler);
 
 // ============== DÉMARRAGE DU SERVEUR ==============
 
 async function startServer(): Promise<void> {
   try {
-    console.log("\n🚀 Démarrage du serveur Payment API...\n");
+    logger.info("🚀 Démarrage du serveur Payment API...");
 
     // Valider les variables d'environnement
     validateEnv();
@@ -247,40 +622,68 @@ async function startServer(): Promise<void> {
     logConfig();
 
     // Initialiser Firebase Admin SDK
-    ynoteService.initializeFirebase();
+    paymentService.initializeFirebase();
+
+    // Initiations interrompues par un arrêt brutal (marqueurs orphelins), sans retarder l'écoute
+    recoverOrphanedInitiations()
+      .then((recovered) => recovered > 0 && logger.warn(`⚠️  ${recovered} initiation(s) interrompue(s) reprise(s)`))
+      .catch((error: any) => logger.error("❌ Erreur reprise des initiations interrompues", { error: error.message }));
+
+    // Traitement asynchrone des callbacks (retentatives, dead-letter)
+    startWebhookWorker();
+
+    // Réconciliation des transactions restées en attente (callback perdu)
+    startReconcilerWorker();
+
+    // Livraison des webhooks sortants aux marchands (retentatives, dead-letter)
+    startMerchantWebhookWorker();
+
+    // Démarrer le mock Y-Note si demandé (YNOTE_MOCK=true)
+    if (YNOTE_MOCK_CONFIG.enabled) {
+      await startYnoteMockServer();
+    }
 
     // Démarrer le serveur
     const PORT = SERVER_CONFIG.port;
-    app.listen(PORT, () => {
-      console.log(`\n✅ Serveur démarré sur http://localhost:${PORT}`);
-      console.log(`📋 Documentation: http://localhost:${PORT}/api/docs`);
-      console.log(`🏥 Health check: http://localhost:${PORT}/health`);
-      console.log(`\n📌 Endpoints disponibles:`);
-      console.log(`   POST /api/payments/initiate`);
-      console.log(`   POST /api/payments/status`);
-      console.log(`   GET  /api/payments/status/:referenceId`);
-      console.log(`   POST /api/payments/refund (admin)`);
-      console.log(`   POST /api/payments/validate-phone`);
-      console.log(`   POST /api/webhooks/ynote-callback`);
-      console.log(`\n🎉 Prêt à recevoir des requêtes!\n`);
+    const server = app.listen(PORT, () => {
+      logger.info(`✅ Serveur démarré sur http://localhost:${PORT}`, {
+        documentation: `http://localhost:${PORT}/api/docs`,
+        health: `http://localhost:${PORT}/health`,
+        liveness: `http://localhost:${PORT}/health/live`,
+        readiness: `http://localhost:${PORT}/health/ready`,
+        metrics: `http://localhost:${PORT}/metrics`,
+        endpoints: [
+          "GET  /api/payments",
+          "POST /api/payments/initiate",
+          "POST /api/payments/status",
+          "GET  /api/payments/status/:referenceId",
+          "GET  /api/payments/:referenceId/events (SSE)",
+          "POST /api/payments/refund (admin)",
+          "GET  /api/payments/refunds/:refundId (admin)",
+          "POST /api/payments/validate-phone",
+          "POST /api/webhooks/ynote-callback",
+          "POST /api/webhooks/ynote-refund-callback",
+          "GET  /api/webhooks/events (admin)",
+          "GET  /api/admin/transactions (admin)",
+          "GET  /api/admin/webhooks (admin)",
+          "GET  /api/admin/webhook-deliveries (admin)",
+        ],
+      });
+      logger.info("🎉 Prêt à recevoir des requêtes!");
     });
+
+    // Flux WebSocket du statut des paiements (même serveur HTTP)
+    attachPaymentWebSocket(server);
+
+    // Arrêt propre: retrait du load balancer, fin des requêtes et traitements en cours
+    process.on("SIGINT", () => void shutdown(server, "SIGINT"));
+    process.on("SIGTERM", () => void shutdown(server, "SIGTERM"));
   } catch (error) {
-    console.error("❌ Erreur au démarrage:", error);
+    logger.error("❌ Erreur au démarrage", { error });
     process.exit(1);
   }
 }
 
-// Gestion de l'arrêt propre
-process.on("SIGINT", () => {
-  console.log("\n👋 Arrêt du serveur...");
-  process.exit(0);
-});
-
-process.on("SIGTERM", () => {
-  console.log("\n👋 Arrêt du serveur (SIGTERM)...");
-  process.exit(0);
-});
-
 // Démarrer le serveur
 startServer();
 
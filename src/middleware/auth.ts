@@ -5,6 +5,7 @@
 
 import { Request, Response, NextFunction } from "express";
 import * as admin from "firebase-admin";
+import logger from "../utils/logger";
 
 /**
  * Interface pour les requêtes authentifiées
@@ -17,6 +18,41 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+/**
+ * Vérifie un Firebase ID Token et récupère le rôle de l'utilisateur
+ * Partagé par le middleware HTTP et les connexions WebSocket
+ * @throws Error (code Firebase) si le token est invalide ou expiré
+ */
+export async function verifyUserToken(token: string): Promise<NonNullable<AuthenticatedRequest["user"]>> {
+  // Vérifier le token avec Firebase Admin
+  const decodedToken = await admin.auth().verifyIdToken(token);
+
+  const user: NonNullable<AuthenticatedRequest["user"]> = {
+    uid: decodedToken.uid,
+    email: decodedToken.email,
+  };
+
+  // Optionnel: récupérer le rôle depuis Firestore
+  try {
+    const userDoc = await admin.firestore().collection("users").doc(decodedToken.uid).get();
+    if (userDoc.exists) {
+      user.role = userDoc.data()?.role;
+    }
+  } catch (error) {
+    // Ignorer l'erreur si on ne peut pas récupérer le rôle
+    logger.warn("⚠️  Impossible de récupérer le rôle utilisateur", { error });
+  }
+
+  return user;
+}
+
+/**
+ * Indique si un utilisateur authentifié a les droits administrateur
+ */
+export function isAdminUser(user?: AuthenticatedRequest["user"]): boolean {
+  return user?.role === "admin" || user?.role === "both";
+}
+
 /**
  * Middleware pour vérifier l'authentification via Firebase ID Token
  * Le token doit être passé dans le header Authorization: Bearer <token>
@@ -40,29 +76,12 @@ export async function authenticateToken(
   const token = authHeader.split("Bearer ")[1];
 
   try {
-    // Vérifier le token avec Firebase Admin
-    const decodedToken = await admin.auth().verifyIdToken(token);
-
     // Attacher les informations utilisateur à la requête
-    req.user = {
-      uid: decodedToken.uid,
-      email: decodedToken.email,
-    };
-
-    // Optionnel: récupérer le rôle depuis Firestore
-    try {
-      const userDoc = await admin.firestore().collection("users").doc(decodedToken.uid).get();
-      if (userDoc.exists) {
-        req.user.role = userDoc.data()?.role;
-      }
-    } catch (error) {
-      // Ignorer l'erreur si on ne peut pas récupérer le rôle
-      console.warn("⚠️  Impossible de récupérer le rôle utilisateur:", error);
-    }
+    req.user = await verifyUserToken(token);
 
     next();
   } catch (error: any) {
-    console.error("❌ Erreur vérification token:", error.message);
+    logger.error("❌ Erreur vérification token", { error: error.message });
 
     if (error.code === "auth/id-token-expired") {
       res.status(401).json({
@@ -81,6 +100,19 @@ export async function authenticateToken(
   }
 }
 
+/**
+ * Accepte le token en query string (?access_token=...) quand le header est absent
+ * Réservé aux flux temps réel: EventSource ne permet pas d'envoyer de header.
+ * Doit être utilisé AVANT authenticateToken
+ */
+export function acceptQueryToken(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+  if (!req.headers.authorization && typeof req.query.access_token === "string") {
+    req.headers.authorization = `Bearer ${req.query.access_token}`;
+  }
+
+  next();
+}
+
 /**
  * Middleware pour vérifier que l'utilisateur est admin
  * Doit être utilisé APRÈS authenticateToken
@@ -99,7 +131,7 @@ export function requireAdmin(
     return;
   }
 
-  if (req.user.role !== "admin" && req.user.role !== "both") {
+  if (!isAdminUser(req.user)) {
     res.status(403).json({
       success: false,
       error: "Accès réservé aux administrateurs",
@@ -112,7 +144,7 @@ export function requireAdmin(
 }
 
 /**
- * Middleware optionnel pour extraire l'utilisateur sans bloquer
+ * Middleware optionnel pour extraire l'utilisateur (et son rôle) sans bloquer
  * Utile pour les endpoints qui fonctionnent avec ou sans authentification
  */
 export async function optionalAuth(
@@ -131,21 +163,20 @@ export async function optionalAuth(
   const token = authHeader.split("Bearer ")[1];
 
   try {
-    const decodedToken = await admin.auth().verifyIdToken(token);
-    req.user = {
-      uid: decodedToken.uid,
-      email: decodedToken.email,
-    };
+    req.user = await verifyUserToken(token);
   } catch (error) {
     // Ignorer l'erreur, continuer sans utilisateur
-    console.warn("⚠️  Token invalide (optionalAuth)");
+    logger.warn("⚠️  Token invalide (optionalAuth)");
   }
 
   next();
 }
 
 export default {
+  verifyUserToken,
+  isAdminUser,
   authenticateToken,
+  acceptQueryToken,
   requireAdmin,
   optionalAuth,
 };
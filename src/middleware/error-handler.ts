@@ -0,0 +1,90 @@
+/**
+ * Gestionnaire d'erreurs global
+ * Seul point de traduction des erreurs en réponses HTTP: les routes laissent remonter
+ * les erreurs des services (Express 5 transmet les rejets des handlers async).
+ *
+ * - erreur métier (utils/errors.ts): statut et code de l'erreur, détail des champs pour
+ *   une erreur de validation, header Retry-After si le fournisseur est indisponible,
+ *   referenceId d'un paiement à l'issue inconnue
+ * - JSON invalide: 400 INVALID_JSON
+ * - toute autre erreur: 500 INTERNAL_ERROR (message masqué en production)
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { SERVER_CONFIG } from "../config/env";
+import { ApiError } from "../types/payment.types";
+import { DomainError, ProviderOutcomeUnknownError, ProviderUnavailableError, ValidationError } from "../utils/errors";
+import logger from "../utils/logger";
+
+/**
+ * Statut HTTP et corps de la réponse d'erreur
+ */
+export function toErrorResponse(error: any): { status: number; body: ApiError } {
+  if (error instanceof DomainError) {
+    return {
+      status: error.status,
+      body: {
+        success: false,
+        error: error.message,
+        code: error.code,
+        ...(error instanceof ValidationError && error.details.length > 0 && { details: error.details }),
+        ...(error instanceof ProviderOutcomeUnknownError && error.referenceId && { referenceId: error.referenceId }),
+      },
+    };
+  }
+
+  // Origine refusée par la configuration CORS
+  if (error?.message?.includes("CORS")) {
+    return { status: 403, body: { success: false, error: "Accès CORS refusé", code: "CORS_ERROR" } };
+  }
+
+  // Corps JSON illisible (express.json)
+  if (error instanceof SyntaxError && "body" in error) {
+    return {
+      status: 400,
+      body: { success: false, error: "JSON invalide dans le corps de la requête", code: "INVALID_JSON" },
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      success: false,
+      error: SERVER_CONFIG.isProduction ? "Erreur serveur interne" : error?.message || "Erreur serveur interne",
+      code: "INTERNAL_ERROR",
+    },
+  };
+}
+
+/**
+ * Middleware d'erreur, enregistré après toutes les routes
+ */
+export function errorHandler(err: any, req: Request, res: Response, next: NextFunction): void {
+  const { status, body } = toErrorResponse(err);
+
+  if (status >= 500) {
+    logger.error(`❌ Erreur ${req.method} ${req.path}`, { error: err });
+  } else {
+    logger.warn(`⚠️  ${req.method} ${req.path} refusée: ${err.message}`, {
+      code: body.code,
+      ...(body.details && { details: body.details }),
+    });
+  }
+
+  // Réponse déjà commencée (ex: flux SSE): seule la fermeture est possible
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  if (err instanceof ProviderUnavailableError) {
+    res.setHeader("Retry-After", String(err.retryAfterSeconds));
+  }
+
+  res.status(status).json(body);
+}
+
+export default {
+  toErrorResponse,
+  errorHandler,
+};
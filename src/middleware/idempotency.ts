@@ -0,0 +1,197 @@
+/**
+ * Middleware d'idempotence
+ * Gère le header Idempotency-Key pour éviter les doubles paiements (double-clic,
+ * retentative de l'application mobile après un timeout)
+ */
+
+import { Response, NextFunction } from "express";
+import * as admin from "firebase-admin";
+import { AuthenticatedRequest } from "./auth";
+import { FIRESTORE_COLLECTIONS, IDEMPOTENCY_CONFIG } from "../config/env";
+import { sha256 } from "../utils/crypto";
+import logger from "../utils/logger";
+
+const IDEMPOTENCY_HEADER = "idempotency-key";
+const MAX_KEY_LENGTH = 255;
+
+type IdempotencyOutcome =
+  | { type: "new" }
+  | { type: "replay"; statusCode: number; body: unknown }
+  | { type: "mismatch" }
+  | { type: "in_progress" };
+
+/**
+ * Sérialise un objet JSON avec des clés triées (hash indépendant de l'ordre)
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Erreur portant la référence d'une demande à l'issue inconnue (ProviderOutcomeUnknownError):
+ * la demande a pu être exécutée, la rejouer évite un second envoi
+ */
+function hasPendingReference(body: unknown): boolean {
+  return typeof (body as { referenceId?: unknown } | null)?.referenceId === "string";
+}
+
+/**
+ * Réserve la clé dans Firestore ou retourne l'état d'une requête précédente
+ */
+async function reserveKey(
+  docRef: FirebaseFirestore.DocumentReference,
+  requestHash: string,
+  userId: string,
+  scope: string
+): Promise<IdempotencyOutcome> {
+  return admin.firestore().runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    const now = Date.now();
+    const data = doc.data();
+
+    if (doc.exists && data && data.expiresAt.toMillis() > now) {
+      if (data.requestHash !== requestHash) {
+        return { type: "mismatch" } as IdempotencyOutcome;
+      }
+
+      if (data.state === "completed") {
+        return { type: "replay", statusCode: data.statusCode, body: data.response } as IdempotencyOutcome;
+      }
+
+      const processingTimeoutMs = IDEMPOTENCY_CONFIG.processingTimeoutSeconds * 1000;
+      if (data.createdAt.toMillis() + processingTimeoutMs > now) {
+        return { type: "in_progress" } as IdempotencyOutcome;
+      }
+      // Requête précédente abandonnée (crash, timeout): on la reprend
+    }
+
+    tx.set(docRef, {
+      scope,
+      userId,
+      requestHash,
+      state: "processing",
+      createdAt: admin.firestore.Timestamp.fromMillis(now),
+      expiresAt: admin.firestore.Timestamp.fromMillis(now + IDEMPOTENCY_CONFIG.ttlHours * 3600 * 1000),
+    });
+
+    return { type: "new" } as IdempotencyOutcome;
+  });
+}
+
+/**
+ * Crée un middleware d'idempotence pour une route
+ * Doit être utilisé APRÈS authenticateToken (les clés sont propres à chaque utilisateur)
+ *
+ * - Même clé + même corps: la réponse d'origine est rejouée (header Idempotent-Replayed)
+ * - Même clé + corps différent: 422 IDEMPOTENCY_KEY_REUSED
+ * - Même clé encore en traitement: 409 IDEMPOTENCY_IN_PROGRESS
+ * - Erreur serveur: la clé est libérée, sauf si la demande a pu partir (réponse avec
+ *   referenceId), rejouée comme une réponse finale
+ * Les clés expirent après IDEMPOTENCY_TTL_HOURS (champ expiresAt, utilisable en TTL Firestore).
+ *
+ * @param scope - Identifiant de l'opération (ex: "payments.initiate")
+ */
+export function idempotency(scope: string) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.headers[IDEMPOTENCY_HEADER];
+
+    // Header optionnel: sans clé, la requête est traitée normalement
+    if (key === undefined) {
+      next();
+      return;
+    }
+
+    if (typeof key !== "string" || !key.trim() || key.length > MAX_KEY_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: `Idempotency-Key invalide (1 à ${MAX_KEY_LENGTH} caractères)`,
+        code: "INVALID_ARGUMENT",
+      });
+      return;
+    }
+
+    const userId = req.user?.uid || "anonymous";
+    const docRef = admin
+      .firestore()
+      .collection(FIRESTORE_COLLECTIONS.idempotencyKeys)
+      .doc(sha256(`${scope}:${userId}:${key}`));
+    const requestHash = sha256(stableStringify(req.body ?? {}));
+
+    let outcome: IdempotencyOutcome;
+    try {
+      outcome = await reserveKey(docRef, requestHash, userId, scope);
+    } catch (error: any) {
+      logger.error("❌ Erreur idempotence", { error: error.message });
+      res.status(500).json({
+        success: false,
+        error: "Impossible de vérifier la clé d'idempotence",
+        code: "INTERNAL_ERROR",
+      });
+      return;
+    }
+
+    if (outcome.type === "mismatch") {
+      res.status(422).json({
+        success: false,
+        error: "Cette Idempotency-Key a déjà été utilisée avec une requête différente",
+        code: "IDEMPOTENCY_KEY_REUSED",
+      });
+      return;
+    }
+
+    if (outcome.type === "in_progress") {
+      res.status(409).json({
+        success: false,
+        error: "Une requête avec cette Idempotency-Key est déjà en cours de traitement",
+        code: "IDEMPOTENCY_IN_PROGRESS",
+      });
+      return;
+    }
+
+    if (outcome.type === "replay") {
+      logger.info(`🔁 Rejeu idempotent (${scope})`);
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(outcome.statusCode).json(outcome.body);
+      return;
+    }
+
+    // Enregistrer la réponse finale pour les rejeux
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const persist =
+        res.statusCode >= 500 && !hasPendingReference(body)
+          ? // Erreur serveur, rien n'a été envoyé: libérer la clé pour permettre une nouvelle tentative
+            docRef.delete()
+          : docRef.update({
+              state: "completed",
+              statusCode: res.statusCode,
+              // Aller-retour JSON: Firestore refuse les valeurs undefined
+              response: JSON.parse(JSON.stringify(body ?? null)),
+              completedAt: admin.firestore.Timestamp.now(),
+            });
+
+      persist.catch((error: any) => {
+        logger.error("❌ Erreur enregistrement réponse idempotente", { error: error.message });
+      });
+
+      return originalJson(body);
+    };
+
+    next();
+  };
+}
+
+export default {
+  idempotency,
+};
@@ -0,0 +1,27 @@
+/**
+ * Suivi des requêtes HTTP en cours, attendues par l'arrêt propre du serveur
+ * Pendant l'arrêt, les requêtes reçues sur une connexion déjà ouverte sont traitées
+ * puis la connexion est fermée (Connection: close)
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { isShuttingDown, trackRequest } from "../services/shutdown.service";
+
+/**
+ * Compte la requête jusqu'à la fin de sa réponse (ou la déconnexion du client)
+ */
+export function trackInFlightRequests(req: Request, res: Response, next: NextFunction): void {
+  const done = trackRequest();
+  res.once("finish", done);
+  res.once("close", done);
+
+  if (isShuttingDown()) {
+    res.setHeader("Connection", "close");
+  }
+
+  next();
+}
+
+export default {
+  trackInFlightRequests,
+};
@@ -0,0 +1,48 @@
+/**
+ * Middleware de corrélation et journal des requêtes HTTP
+ *
+ * - reprend l'identifiant du header X-Request-Id s'il est fourni (load balancer, frontend),
+ *   sinon en génère un, et le renvoie dans la réponse
+ * - tout le traitement de la requête s'exécute avec cet identifiant (logs, appels Y-Note,
+ *   enregistrements Firestore)
+ * - journalise chaque requête à la fin de la réponse (méthode, URL, statut, durée)
+ */
+
+import { Request, Response, NextFunction } from "express";
+import logger from "../utils/logger";
+import { resolveRequestId, runWithRequestId } from "../utils/request-context";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Sondes appelées en continu (monitoring): journalisées en debug
+const PROBE_PATHS = ["/health", "/health/live", "/health/ready", "/metrics"];
+
+/**
+ * Attache l'identifiant de corrélation à la requête et journalise la réponse
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const requestId = resolveRequestId(req.get(REQUEST_ID_HEADER));
+  const startedAt = Date.now();
+
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  res.on("finish", () => {
+    runWithRequestId(requestId, () => {
+      const log =
+        res.statusCode >= 500 ? logger.warn : PROBE_PATHS.includes(req.path) ? logger.debug : logger.info;
+      log(`${req.method} ${req.originalUrl} ${res.statusCode}`, {
+        method: req.method,
+        url: req.originalUrl,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+        ip: req.ip,
+      });
+    });
+  });
+
+  runWithRequestId(requestId, next);
+}
+
+export default {
+  requestContext,
+};
@@ -0,0 +1,77 @@
+/**
+ * Middleware de validation des requêtes
+ * Vérifie le corps et la query string avec les schémas de src/schemas, puis remplace
+ * les valeurs reçues par les valeurs validées (champs inconnus retirés, nombres et
+ * dates de la query convertis).
+ * Une requête invalide est refusée en 400 INVALID_ARGUMENT avec le détail des champs.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { FieldError } from "../types/payment.types";
+import { ValidationError } from "../utils/errors";
+
+// Messages par défaut des schémas en français
+z.config(z.locales.fr());
+
+type RequestSchemas = {
+  body?: z.ZodType;
+  query?: z.ZodType;
+};
+
+/**
+ * Convertit les erreurs zod en erreurs par champ (ex: "events.1")
+ */
+function toFieldErrors(error: z.ZodError, source: keyof RequestSchemas): FieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.map(String).join(".") : source,
+    message: issue.message,
+  }));
+}
+
+/**
+ * Crée un middleware de validation pour une route
+ * Les erreurs de toutes les parties de la requête sont renvoyées ensemble.
+ *
+ * @example router.post("/refund", authenticateToken, validate({ body: refundSchema }), handler)
+ */
+export function validate(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const details: FieldError[] = [];
+    const parsed: Partial<Record<keyof RequestSchemas, unknown>> = {};
+
+    for (const source of ["query", "body"] as const) {
+      const schema = schemas[source];
+      if (!schema) {
+        continue;
+      }
+
+      // Requête sans corps: chaque champ requis est signalé comme manquant
+      const result = schema.safeParse(req[source] ?? {});
+      if (result.success) {
+        parsed[source] = result.data;
+      } else {
+        details.push(...toFieldErrors(result.error, source));
+      }
+    }
+
+    if (details.length > 0) {
+      next(new ValidationError(details.length === 1 ? details[0].message : "Requête invalide", details));
+      return;
+    }
+
+    if ("body" in parsed) {
+      req.body = parsed.body;
+    }
+    if ("query" in parsed) {
+      // Express 5: req.query est un accesseur en lecture seule
+      Object.defineProperty(req, "query", { value: parsed.query, writable: true, configurable: true, enumerable: true });
+    }
+
+    next();
+  };
+}
+
+export default {
+  validate,
+};
@@ -0,0 +1,170 @@
+/**
+ * Middleware de vérification des callbacks fournisseur
+ * Couches configurables (WEBHOOK_SECURITY_CONFIG):
+ * - liste blanche d'adresses IP source
+ * - signature HMAC SHA-256 du corps brut
+ * - jeton secret propre à chaque transaction (ou remboursement), transmis dans l'URL de callback
+ * Toute requête rejetée est enregistrée dans le journal d'audit sécurité.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { WEBHOOK_SECURITY_CONFIG } from "../config/env";
+import { recordSecurityEvent } from "../services/audit.service";
+import { getPaymentProvider } from "../services/providers/registry";
+import { resolveTransaction } from "../services/reference.service";
+import { callbackTokenHashes, resolveRefund } from "../services/refund.service";
+import { WebhookEventKind } from "../types/payment.types";
+import { hmacSha256, safeEqual, sha256 } from "../utils/crypto";
+import logger from "../utils/logger";
+
+/**
+ * Requête Express avec le corps brut conservé (nécessaire pour le HMAC)
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * Normalise une adresse IP (retire le préfixe IPv6 des adresses IPv4)
+ */
+function normalizeIp(ip: string | undefined): string {
+  return (ip || "").replace(/^::ffff:/, "");
+}
+
+function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split(".").map((part) => parseInt(part, 10));
+
+  if (parts.length !== 4 || parts.some((part) => isNaN(part) || part < 0 || part > 255)) {
+    return null;
+  }
+
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+}
+
+/**
+ * Vérifie qu'une IP appartient à la liste blanche (IP exactes ou plages CIDR IPv4)
+ */
+function isIpAllowed(ip: string, allowlist: string[]): boolean {
+  return allowlist.some((entry) => {
+    if (!entry.includes("/")) {
+      return entry === ip;
+    }
+
+    const [range, bitsValue] = entry.split("/");
+    const bits = parseInt(bitsValue, 10);
+    const ipInt = ipv4ToInt(ip);
+    const rangeInt = ipv4ToInt(range);
+
+    if (ipInt === null || rangeInt === null || isNaN(bits) || bits < 0 || bits > 32) {
+      return false;
+    }
+
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return (ipInt & mask) === (rangeInt & mask);
+  });
+}
+
+/**
+ * Retrouve le document (transaction ou remboursement) portant le hash du jeton de callback
+ * @returns le document et sa référence, ou null si le corps ne référence rien de connu
+ */
+async function resolveCallbackTarget(
+  providerName: string,
+  kind: WebhookEventKind,
+  body: Record<string, unknown>
+): Promise<{ referenceId: string; doc: FirebaseFirestore.DocumentSnapshot | null } | null> {
+  const provider = getPaymentProvider(providerName);
+
+  if (kind === "refund") {
+    const { refundId, providerReference } = provider.parseRefundCallback(body);
+    const referenceId = refundId || providerReference;
+    return referenceId ? { referenceId, doc: await resolveRefund(refundId, providerReference) } : null;
+  }
+
+  const { referenceId } = provider.parseCallback(body);
+  return referenceId ? { referenceId, doc: await resolveTransaction(referenceId) } : null;
+}
+
+/**
+ * Crée le middleware de vérification des callbacks d'un fournisseur
+ * @param providerName - Fournisseur émetteur (pour extraire la référence du corps)
+ * @param kind - Callback de paiement ou de remboursement (document portant le jeton)
+ */
+export function verifyProviderWebhook(providerName: string, kind: WebhookEventKind = "payment") {
+  return async (req: RawBodyRequest, res: Response, next: NextFunction): Promise<void> => {
+    const ip = normalizeIp(req.ip);
+
+    const reject = async (
+      statusCode: number,
+      code: string,
+      reason: string,
+      referenceId?: string
+    ): Promise<void> => {
+      await recordSecurityEvent({
+        type: "webhook_rejected",
+        reason,
+        ip,
+        referenceId,
+        details: {
+          provider: providerName,
+          kind,
+          code,
+          userAgent: req.headers["user-agent"] || null,
+          body: req.body,
+        },
+      });
+
+      res.status(statusCode).json({ error: reason, code });
+    };
+
+    // 1. Liste blanche d'IP
+    const { allowedIps, hmacSecret, signatureHeader, requireCallbackToken } = WEBHOOK_SECURITY_CONFIG;
+    if (allowedIps.length > 0 && !isIpAllowed(ip, allowedIps)) {
+      await reject(403, "IP_NOT_ALLOWED", `Adresse IP non autorisée: ${ip}`);
+      return;
+    }
+
+    // 2. Signature HMAC du corps brut
+    if (hmacSecret) {
+      const header = req.headers[signatureHeader];
+      const signature = (Array.isArray(header) ? header[0] : header || "").replace(/^sha256=/, "");
+      const expected = hmacSha256(hmacSecret, req.rawBody || Buffer.from(""));
+
+      if (!signature || !safeEqual(signature.toLowerCase(), expected)) {
+        await reject(401, "INVALID_SIGNATURE", "Signature HMAC du callback invalide");
+        return;
+      }
+    }
+
+    // 3. Jeton secret de la transaction ou du remboursement (présent dans l'URL de callback)
+    if (requireCallbackToken) {
+      try {
+        const target = await resolveCallbackTarget(providerName, kind, req.body || {});
+
+        // Référence absente ou document pas encore écrit: le jeton est vérifié au traitement
+        // de l'événement (boîte de réception), avant application du callback
+        const tokenHashes = callbackTokenHashes(target?.doc?.data());
+        const token = typeof req.query.token === "string" ? req.query.token : "";
+
+        if (
+          target &&
+          tokenHashes.length > 0 &&
+          (!token || !tokenHashes.some((tokenHash) => safeEqual(sha256(token), tokenHash)))
+        ) {
+          await reject(401, "INVALID_CALLBACK_TOKEN", "Jeton de callback invalide ou manquant", target.referenceId);
+          return;
+        }
+      } catch (error: any) {
+        logger.error("❌ Erreur vérification jeton callback", { error: error.message });
+        res.status(500).json({ error: "Erreur interne lors de la vérification" });
+        return;
+      }
+    }
+
+    next();
+  };
+}
+
+export default {
+  verifyProviderWebhook,
+};
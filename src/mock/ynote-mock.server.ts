@@ -0,0 +1,402 @@
+/**
+ * Serveur Y-Note simulé pour le développement et les tests
+ * Implémente les contrats OAuth, webpayment, statut (MTN / Orange) et remboursement sans argent
+ * réel ni réseau, et envoie de vrais callbacks vers l'URL de notification
+ * (signés en HMAC si WEBHOOK_HMAC_SECRET est défini).
+ *
+ * Démarrage:
+ * - Avec l'API: YNOTE_MOCK=true npm run dev
+ * - Seul: npm run mock:ynote
+ *
+ * Scénarios (choisis par les 4 derniers chiffres du numéro ou par le montant):
+ * | Numéro   | Montant | Scénario                                            |
+ * |----------|---------|-----------------------------------------------------|
+ * | ...0001  | 101     | failure: paiement refusé (callback FAILED)          |
+ * | ...0002  | 102     | timeout: le client ne confirme jamais (pas de callback) |
+ * | ...0003  | 103     | rate_limit: webpayment répond 429 avec Retry-After  |
+ * | ...0004  | 104     | delayed: confirmation tardive (YNOTE_MOCK_DELAYED_MS) |
+ * | ...0005  | 105     | error: erreur Y-Note dans un HTTP 200 (errorCode)   |
+ * | autre    | autre   | success: paiement confirmé après le délai de callback |
+ *
+ * Les remboursements suivent le numéro du client remboursé: ...0001 échoue,
+ * ...0002 reste en cours sans callback, les autres aboutissent.
+ */
+
+import express, { Request, Response, NextFunction } from "express";
+import http from "http";
+import axios from "axios";
+import { v4 as uuidv4 } from "uuid";
+import { YNOTE_MOCK_CONFIG, CALLBACK_CONFIG, WEBHOOK_SECURITY_CONFIG } from "../config/env";
+import { hmacSha256 } from "../utils/crypto";
+import logger from "../utils/logger";
+
+type MockScenario = "success" | "failure" | "timeout" | "rate_limit" | "delayed" | "error";
+
+type MockPaymentStatus = "PENDING" | "SUCCESSFUL" | "FAILED";
+
+/**
+ * Remboursement simulé conservé en mémoire
+ */
+interface MockRefund {
+  messageId: string;
+  orderId: string;
+  msisdn: string;
+  amount: string;
+  refundMethod: string;
+  webhook?: string;
+  scenario: MockScenario;
+  status: MockPaymentStatus;
+  callbackSent: boolean;
+  createdAt: string;
+}
+
+/**
+ * Paiement simulé conservé en mémoire
+ */
+interface MockPayment {
+  messageId: string;
+  orderId: string;
+  msisdn: string;
+  amount: string;
+  paymentMethod: string;
+  notifUrl: string;
+  scenario: MockScenario;
+  status: MockPaymentStatus;
+  financialTransactionId?: string;
+  callbackSent: boolean;
+  createdAt: string;
+}
+
+const SCENARIOS_BY_SUFFIX: Record<string, MockScenario> = {
+  "0001": "failure",
+  "0002": "timeout",
+  "0003": "rate_limit",
+  "0004": "delayed",
+  "0005": "error",
+};
+
+const SCENARIOS_BY_AMOUNT: Record<string, MockScenario> = {
+  "101": "failure",
+  "102": "timeout",
+  "103": "rate_limit",
+  "104": "delayed",
+  "105": "error",
+};
+
+const payments = new Map<string, MockPayment>();
+const refunds = new Map<string, MockRefund>();
+const issuedTokens = new Set<string>();
+
+/**
+ * Détermine le scénario d'un paiement à partir du numéro puis du montant
+ */
+function resolveScenario(msisdn: string, amount: string): MockScenario {
+  const suffix = msisdn.replace(/\D/g, "").slice(-4);
+  return SCENARIOS_BY_SUFFIX[suffix] || SCENARIOS_BY_AMOUNT[String(parseInt(amount, 10))] || "success";
+}
+
+/**
+ * Orange Money renvoie "SUCCESSFULL" (sic) et txnid, comme la vraie API
+ */
+function isOrange(payment: MockPayment): boolean {
+  return payment.paymentMethod.toUpperCase().includes("ORANGE");
+}
+
+function formatStatus(payment: MockPayment): Record<string, unknown> {
+  const orange = isOrange(payment);
+  const status = orange && payment.status === "SUCCESSFUL" ? "SUCCESSFULL" : payment.status;
+
+  return {
+    status,
+    amount: payment.amount,
+    order_id: payment.orderId,
+    message_id: payment.messageId,
+    ...(orange
+      ? { txnid: payment.financialTransactionId }
+      : { financialTransactionId: payment.financialTransactionId }),
+    ...(payment.status === "FAILED" ? { reason: "Paiement refusé par le client (simulation)" } : {}),
+  };
+}
+
+/**
+ * Fait passer un paiement à son statut final et envoie le callback
+ */
+async function settlePayment(payment: MockPayment, status: "SUCCESSFUL" | "FAILED"): Promise<void> {
+  payment.status = status;
+  payment.financialTransactionId = `MOCK${Date.now()}`;
+
+  logger.info(`🧪 [mock Y-Note] Paiement ${payment.orderId} -> ${status}, callback vers ${payment.notifUrl}`);
+
+  try {
+    await postCallback(payment.notifUrl, formatStatus(payment));
+    payment.callbackSent = true;
+  } catch (error: any) {
+    logger.error(`❌ [mock Y-Note] Échec du callback ${payment.orderId}`, {
+      error: error.response?.status || error.message,
+    });
+  }
+}
+
+/**
+ * Envoie un callback JSON (signé en HMAC si un secret est configuré)
+ */
+async function postCallback(url: string, payload: Record<string, unknown>): Promise<void> {
+  // Corps sérialisé une seule fois: la signature HMAC porte sur ces octets exacts
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (WEBHOOK_SECURITY_CONFIG.hmacSecret) {
+    headers[WEBHOOK_SECURITY_CONFIG.signatureHeader] = hmacSha256(WEBHOOK_SECURITY_CONFIG.hmacSecret, body);
+  }
+
+  await axios.post(url, body, { headers, timeout: 10000 });
+}
+
+function formatRefundStatus(refund: MockRefund): Record<string, unknown> {
+  return {
+    status: refund.status,
+    amount: refund.amount,
+    order_id: refund.orderId,
+    MessageId: refund.messageId,
+    ...(refund.status === "FAILED" ? { reason: "Versement refusé par l'opérateur (simulation)" } : {}),
+  };
+}
+
+/**
+ * Fait passer un remboursement à son statut final et envoie le callback
+ */
+async function settleRefund(refund: MockRefund, status: "SUCCESSFUL" | "FAILED"): Promise<void> {
+  refund.status = status;
+
+  if (!refund.webhook) {
+    return;
+  }
+
+  logger.info(`🧪 [mock Y-Note] Remboursement ${refund.orderId} -> ${status}, callback vers ${refund.webhook}`);
+
+  try {
+    await postCallback(refund.webhook, formatRefundStatus(refund));
+    refund.callbackSent = true;
+  } catch (error: any) {
+    logger.error(`❌ [mock Y-Note] Échec du callback remboursement ${refund.orderId}`, {
+      error: error.response?.status || error.message,
+    });
+  }
+}
+
+/**
+ * Planifie l'issue d'un paiement selon son scénario
+ */
+function scheduleOutcome(payment: MockPayment): void {
+  switch (payment.scenario) {
+    case "success":
+      setTimeout(() => void settlePayment(payment, "SUCCESSFUL"), YNOTE_MOCK_CONFIG.callbackDelayMs);
+      break;
+    case "failure":
+      setTimeout(() => void settlePayment(payment, "FAILED"), YNOTE_MOCK_CONFIG.callbackDelayMs);
+      break;
+    case "delayed":
+      setTimeout(() => void settlePayment(payment, "SUCCESSFUL"), YNOTE_MOCK_CONFIG.delayedCallbackMs);
+      break;
+    default:
+      // timeout: reste PENDING indéfiniment, aucun callback
+      break;
+  }
+}
+
+/**
+ * Vérifie le Bearer token émis par /oauth2/token
+ */
+function requireBearer(req: Request, res: Response, next: NextFunction): void {
+  const token = req.headers.authorization?.split("Bearer ")[1];
+
+  if (!token || !issuedTokens.has(token)) {
+    res.status(401).json({ fault: { code: 900901, message: "Invalid Credentials" } });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Crée l'application Express du mock Y-Note
+ */
+export function createYnoteMockApp(): express.Express {
+  const app = express();
+
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+
+  // OAuth 2.0 client_credentials (Basic Auth)
+  app.post("/oauth2/token", (req: Request, res: Response): void => {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith("Basic ") || req.body?.grant_type !== "client_credentials") {
+      res.status(401).json({ error: "invalid_client" });
+      return;
+    }
+
+    const token = `mock_${uuidv4()}`;
+    issuedTokens.add(token);
+
+    res.status(200).json({
+      access_token: token,
+      token_type: "Bearer",
+      expires_in: 3600,
+      scope: "default",
+    });
+  });
+
+  // Initiation de paiement (push USSD simulé)
+  app.post("/webpayment", requireBearer, (req: Request, res: Response): void => {
+    const body = req.body?.API_MUT;
+
+    if (!body?.subscriberMsisdn || !body?.amount || !body?.order_id || !body?.PaiementMethod) {
+      res.status(200).json({ ErrorCode: 400, ErrorMessage: "Paramètres API_MUT manquants" });
+      return;
+    }
+
+    const scenario = resolveScenario(body.subscriberMsisdn, body.amount);
+
+    if (scenario === "rate_limit") {
+      res.setHeader("Retry-After", "5");
+      res.status(429).json({ ErrorCode: 429, ErrorMessage: "Too Many Requests (simulation)" });
+      return;
+    }
+
+    if (scenario === "error") {
+      res.status(200).json({ ErrorCode: 500, ErrorMessage: "Erreur interne Y-Note (simulation)" });
+      return;
+    }
+
+    const payment: MockPayment = {
+      messageId: uuidv4(),
+      orderId: body.order_id,
+      msisdn: body.subscriberMsisdn,
+      amount: String(body.amount),
+      paymentMethod: body.PaiementMethod,
+      notifUrl: body.notifUrl || CALLBACK_CONFIG.url,
+      scenario,
+      status: "PENDING",
+      callbackSent: false,
+      createdAt: new Date().toISOString(),
+    };
+
+    payments.set(payment.messageId, payment);
+    scheduleOutcome(payment);
+
+    logger.info(`🧪 [mock Y-Note] Paiement ${payment.orderId} (${payment.paymentMethod}) scénario: ${scenario}`);
+
+    res.status(200).json({
+      ErrorCode: 200,
+      body: "Paiement en attente de confirmation (simulation)",
+      parameters: {
+        MessageId: payment.messageId,
+        order_id: payment.orderId,
+      },
+    });
+  });
+
+  // Statut d'un paiement (mêmes contrats pour MTN et Orange)
+  const statusHandler = (req: Request, res: Response): void => {
+    const payment = payments.get(req.body?.message_id);
+
+    if (!payment) {
+      res.status(404).json({ ErrorCode: 404, ErrorMessage: "Transaction introuvable" });
+      return;
+    }
+
+    res.status(200).json(formatStatus(payment));
+  };
+
+  app.post("/webpaymentmtn/status", requireBearer, statusHandler);
+  app.post("/webpaymentom/status", requireBearer, statusHandler);
+
+  // Remboursement (versement vers le client)
+  app.post("/refund", requireBearer, (req: Request, res: Response): void => {
+    const body = req.body || {};
+
+    if (!body.final_customer_phone || !body.amount || !body.order_id || !body.refund_method) {
+      res.status(200).json({ ErrorCode: 400, ErrorMessage: "Paramètres de remboursement manquants" });
+      return;
+    }
+
+    const scenario = resolveScenario(body.final_customer_phone, "");
+
+    const refund: MockRefund = {
+      messageId: uuidv4(),
+      orderId: body.order_id,
+      msisdn: body.final_customer_phone,
+      amount: String(body.amount),
+      refundMethod: body.refund_method,
+      webhook: body.webhook,
+      scenario,
+      status: "PENDING",
+      callbackSent: false,
+      createdAt: new Date().toISOString(),
+    };
+
+    refunds.set(refund.messageId, refund);
+
+    if (scenario === "failure") {
+      setTimeout(() => void settleRefund(refund, "FAILED"), YNOTE_MOCK_CONFIG.callbackDelayMs);
+    } else if (scenario !== "timeout") {
+      setTimeout(() => void settleRefund(refund, "SUCCESSFUL"), YNOTE_MOCK_CONFIG.callbackDelayMs);
+    }
+
+    logger.info(`🧪 [mock Y-Note] Remboursement ${refund.orderId} (${refund.refundMethod}) scénario: ${scenario}`);
+
+    res.status(200).json({
+      ErrorCode: 200,
+      body: "Remboursement en cours de traitement (simulation)",
+      parameters: {
+        MessageId: refund.messageId,
+        order_id: refund.orderId,
+      },
+    });
+  });
+
+  // Statut d'un remboursement
+  app.get("/refund/status/:messageId", requireBearer, (req: Request, res: Response): void => {
+    const refund = refunds.get(String(req.params.messageId));
+
+    if (!refund) {
+      res.status(404).json({ ErrorCode: 404, ErrorMessage: "Remboursement introuvable" });
+      return;
+    }
+
+    res.status(200).json({ result: formatRefundStatus(refund) });
+  });
+
+  // Inspection des paiements simulés (outil de développement)
+  app.get("/__mock/payments", (req: Request, res: Response): void => {
+    res.status(200).json({ payments: Array.from(payments.values()) });
+  });
+
+  app.get("/__mock/refunds", (req: Request, res: Response): void => {
+    res.status(200).json({ refunds: Array.from(refunds.values()) });
+  });
+
+  return app;
+}
+
+/**
+ * Démarre le mock Y-Note sur le port configuré
+ */
+export function startYnoteMockServer(port: number = YNOTE_MOCK_CONFIG.port): Promise<http.Server> {
+  return new Promise((resolve) => {
+    const server = createYnoteMockApp().listen(port, () => {
+      logger.info(`🧪 Mock Y-Note démarré sur http://localhost:${port}`);
+      resolve(server);
+    });
+  });
+}
+
+// Démarrage autonome: ts-node src/mock/ynote-mock.server.ts
+if (require.main === module) {
+  startYnoteMockServer();
+}
+
+export default {
+  createYnoteMockApp,
+  startYnoteMockServer,
+};
@@ -0,0 +1,187 @@
+/**
+ * Routes d'administration
+ * Recherche et consultation détaillée des paiements, décision sur les écarts de paiement,
+ * abonnements et livraisons des webhooks marchands (admin uniquement)
+ */
+
+import { Router, Response } from "express";
+import { authenticateToken, requireAdmin, AuthenticatedRequest } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import transactionAdmin from "../services/transaction-admin.service";
+import paymentService from "../services/payment.service";
+import merchantWebhooks from "../services/merchant-webhook.service";
+import {
+  merchantWebhookDeliveryQuerySchema,
+  merchantWebhookSubscriptionSchema,
+  merchantWebhookUpdateSchema,
+  resolveDiscrepancySchema,
+  transactionSearchSchema,
+} from "../schemas/admin.schemas";
+import {
+  MerchantWebhookDeliveryQuery,
+  MerchantWebhookSubscriptionRequest,
+  MerchantWebhookSubscriptionUpdate,
+  ResolveDiscrepancyRequest,
+  TransactionSearchFilters,
+} from "../types/payment.types";
+
+const router = Router();
+
+// Toutes les routes de ce routeur sont réservées aux administrateurs
+router.use(authenticateToken, requireAdmin);
+
+/**
+ * GET /api/admin/transactions
+ * Recherche des transactions, les plus récentes d'abord (admin uniquement)
+ *
+ * Query:
+ * - status?: statut de la transaction (CREATED, PENDING, SUCCESSFUL...)
+ * - campaignId?, userId?, phoneNumber?: string
+ * - from?, to?: dates ISO 8601 (createdAt, bornes incluses)
+ * - minAmount?, maxAmount?: number (FCFA)
+ * - cursor?: nextCursor de la page précédente
+ * - limit?: number (20 par défaut, 100 max)
+ */
+router.get(
+  "/transactions",
+  validate({ query: transactionSearchSchema }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const result = await transactionAdmin.searchTransactions(req.query as unknown as TransactionSearchFilters);
+    res.status(200).json({ success: true, count: result.transactions.length, ...result });
+  }
+);
+
+/**
+ * GET /api/admin/transactions/:referenceId
+ * Détail d'une transaction: réponses brutes du fournisseur, historique des statuts,
+ * campagne et remboursements liés (admin uniquement)
+ * referenceId: notre référence, le MessageId fournisseur ou l'ID opérateur
+ */
+router.get("/transactions/:referenceId", async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const detail = await transactionAdmin.getTransactionDetail(String(req.params.referenceId));
+  res.status(200).json({ success: true, ...detail });
+});
+
+/**
+ * POST /api/admin/discrepancies/:referenceId/resolve
+ * Tranche un écart de paiement (montant payé différent du montant dû): tant qu'il est
+ * ouvert, la campagne ne peut pas être payée à nouveau
+ *
+ * Body:
+ * - decision: accept (campagne planifiée avec le montant reçu) | reject (campagne de nouveau
+ *   payable, montant reçu à rembourser via POST /api/payments/refund)
+ * - note?: string
+ */
+router.post(
+  "/discrepancies/:referenceId/resolve",
+  validate({ body: resolveDiscrepancySchema }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const discrepancy = await paymentService.resolvePaymentDiscrepancy(
+      String(req.params.referenceId),
+      req.body as ResolveDiscrepancyRequest,
+      req.user!.uid
+    );
+    res.status(200).json({ success: true, discrepancy });
+  }
+);
+
+/**
+ * GET /api/admin/webhooks
+ * Liste les abonnements des endpoints marchands (sans leur secret)
+ */
+router.get("/webhooks", async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const subscriptions = await merchantWebhooks.listSubscriptions();
+  res.status(200).json({ success: true, count: subscriptions.length, subscriptions });
+});
+
+/**
+ * POST /api/admin/webhooks
+ * Abonne un endpoint HTTPS à des événements
+ * Le secret de signature n'est renvoyé qu'ici: le marchand doit le conserver.
+ *
+ * Body:
+ * - url: string (HTTPS)
+ * - events: string[] (payment.pending, payment.succeeded, payment.failed, refund.completed, campaign.scheduled)
+ * - description?: string
+ */
+router.post(
+  "/webhooks",
+  validate({ body: merchantWebhookSubscriptionSchema }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const subscription = await merchantWebhooks.createSubscription(
+      req.body as MerchantWebhookSubscriptionRequest,
+      req.user!.uid
+    );
+    res.status(201).json({ success: true, subscription });
+  }
+);
+
+/**
+ * PATCH /api/admin/webhooks/:subscriptionId
+ * Modifie un abonnement
+ *
+ * Body (tous optionnels): url, events, description, active (false suspend les livraisons)
+ */
+router.patch(
+  "/webhooks/:subscriptionId",
+  validate({ body: merchantWebhookUpdateSchema }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const subscription = await merchantWebhooks.updateSubscription(
+      String(req.params.subscriptionId),
+      req.body as MerchantWebhookSubscriptionUpdate,
+      req.user!.uid
+    );
+    res.status(200).json({ success: true, subscription });
+  }
+);
+
+/**
+ * DELETE /api/admin/webhooks/:subscriptionId
+ * Supprime un abonnement (ses livraisons en attente sont abandonnées)
+ */
+router.delete("/webhooks/:subscriptionId", async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  await merchantWebhooks.deleteSubscription(String(req.params.subscriptionId), req.user!.uid);
+  res.status(200).json({ success: true });
+});
+
+/**
+ * GET /api/admin/webhook-deliveries
+ * Journal des livraisons, les plus récentes d'abord
+ *
+ * Query:
+ * - subscriptionId?: string
+ * - status?: PENDING | DELIVERING | DELIVERED | DEAD_LETTER
+ * - eventType?: payment.pending | payment.succeeded | payment.failed | refund.completed | campaign.scheduled
+ * - limit?: number (50 par défaut, 200 max)
+ */
+router.get(
+  "/webhook-deliveries",
+  validate({ query: merchantWebhookDeliveryQuerySchema }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const deliveries = await merchantWebhooks.listMerchantDeliveries(req.query as MerchantWebhookDeliveryQuery);
+    res.status(200).json({ success: true, count: deliveries.length, deliveries });
+  }
+);
+
+/**
+ * GET /api/admin/webhook-deliveries/:deliveryId
+ * Détail d'une livraison: événement envoyé, journal des tentatives, dernière réponse
+ */
+router.get("/webhook-deliveries/:deliveryId", async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const delivery = await merchantWebhooks.getMerchantDelivery(String(req.params.deliveryId));
+  res.status(200).json({ success: true, delivery });
+});
+
+/**
+ * POST /api/admin/webhook-deliveries/:deliveryId/redeliver
+ * Relivre un événement (ex: après dead-letter, une fois l'endpoint du marchand rétabli)
+ */
+router.post(
+  "/webhook-deliveries/:deliveryId/redeliver",
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const delivery = await merchantWebhooks.redeliverMerchantEvent(String(req.params.deliveryId), req.user!.uid);
+    res.status(200).json({ success: true, delivery });
+  }
+);
+
+export default router;
@@ -0,0 +1,150 @@
+/**
+ * Flux WebSocket du statut d'un paiement
+ * Même contenu que le flux SSE (GET /api/payments/:referenceId/events), pour les clients
+ * qui préfèrent une WebSocket: ws(s)://<hôte>/api/payments/:referenceId/ws?access_token=<token>
+ *
+ * Chaque message est un objet JSON { event, data }; la connexion est fermée par le
+ * serveur (code 1000) après "end" ou "error".
+ */
+
+import { IncomingMessage, Server, STATUS_CODES } from "http";
+import { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { PAYMENT_STREAM_CONFIG } from "../config/env";
+import { isAdminUser, verifyUserToken } from "../middleware/auth";
+import { toErrorResponse } from "../middleware/error-handler";
+import { openPaymentStream, PaymentStreamEvent } from "../services/payment-stream.service";
+import logger from "../utils/logger";
+import { resolveRequestId, runWithRequestId } from "../utils/request-context";
+
+const STREAM_PATH = /^\/api\/payments\/([^/]+)\/ws$/;
+
+/**
+ * Refuse une demande d'upgrade avec un statut HTTP (avant l'ouverture de la WebSocket)
+ */
+function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Token de la connexion: header Authorization ou ?access_token= (navigateurs)
+ */
+function extractToken(req: IncomingMessage, url: URL): string | null {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.split("Bearer ")[1];
+  }
+
+  return url.searchParams.get("access_token");
+}
+
+/**
+ * Authentifie la demande d'upgrade puis ouvre la WebSocket et le flux de la transaction
+ */
+async function handleUpgrade(wss: WebSocketServer, req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+  const url = new URL(req.url || "/", "http://localhost");
+  const match = STREAM_PATH.exec(url.pathname);
+
+  if (!match) {
+    rejectUpgrade(socket, 404, "Not Found");
+    return;
+  }
+
+  const token = extractToken(req, url);
+  if (!token) {
+    rejectUpgrade(socket, 401, "Unauthorized");
+    return;
+  }
+
+  let user: Awaited<ReturnType<typeof verifyUserToken>>;
+  try {
+    user = await verifyUserToken(token);
+  } catch (error: any) {
+    logger.error("❌ Erreur vérification token (WebSocket)", { error: error.message });
+    rejectUpgrade(socket, 401, "Unauthorized");
+    return;
+  }
+
+  let referenceId: string;
+  try {
+    referenceId = decodeURIComponent(match[1]);
+  } catch {
+    rejectUpgrade(socket, 400, "Bad Request");
+    return;
+  }
+
+  const ip = req.socket.remoteAddress;
+  const pending: PaymentStreamEvent[] = [];
+  let ws: WebSocket | null = null;
+
+  const send = (message: PaymentStreamEvent): void => {
+    if (!ws) {
+      pending.push(message);
+      return;
+    }
+
+    ws.send(JSON.stringify(message));
+    if (message.event !== "status") {
+      ws.close(1000);
+    }
+  };
+
+  let close: () => void;
+  try {
+    close = await openPaymentStream(referenceId, user.uid, { isAdmin: isAdminUser(user), ip }, send);
+  } catch (error: any) {
+    logger.error("❌ Erreur WebSocket /payments/:referenceId/ws", { error: error.message });
+
+    const { status } = toErrorResponse(error);
+    rejectUpgrade(socket, status, STATUS_CODES[status] || "Error");
+    return;
+  }
+
+  // Client parti avant la fin de la poignée de main
+  socket.once("close", () => {
+    if (!ws) {
+      close();
+    }
+  });
+
+  wss.handleUpgrade(req, socket, head, (connection) => {
+    ws = connection;
+
+    const keepAlive = setInterval(() => connection.ping(), PAYMENT_STREAM_CONFIG.keepAliveSeconds * 1000);
+    connection.on("close", () => {
+      clearInterval(keepAlive);
+      close();
+    });
+
+    // Événements émis pendant la poignée de main
+    pending.splice(0).forEach(send);
+  });
+}
+
+/**
+ * Branche le flux WebSocket sur le serveur HTTP (sans effet s'il est désactivé)
+ */
+export function attachPaymentWebSocket(server: Server): void {
+  if (!PAYMENT_STREAM_CONFIG.websocketEnabled) {
+    return;
+  }
+
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Même identifiant de corrélation que les requêtes HTTP (logs, appels Y-Note)
+    runWithRequestId(resolveRequestId(req.headers["x-request-id"]), () =>
+      handleUpgrade(wss, req, socket, head).catch((error: any) => {
+        logger.error("❌ Erreur upgrade WebSocket", { error: error.message });
+        socket.destroy();
+      })
+    );
+  });
+
+  logger.info("📡 Flux WebSocket des paiements activé (/api/payments/:referenceId/ws)");
+}
+
+export default {
+  attachPaymentWebSocket,
+};
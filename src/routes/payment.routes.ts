@@ -1,122 +1,66 @@
 /**
- * Routes de paiement MTN Mobile Money
+ * Routes de paiement Mobile Money (MTN / Orange)
  * Endpoints pour initier, vérifier et rembourser des paiements
  */
 
-import { Router, Response } from "express";
-import { authenticateToken, requireAdmin, AuthenticatedRequest } from "../middleware/auth";
-import ynoteService from "../services/ynote.service";
+import { Router, Request, Response } from "express";
+import { acceptQueryToken, authenticateToken, isAdminUser, requireAdmin, AuthenticatedRequest } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
+import { validate } from "../middleware/validate";
+import paymentService from "../services/payment.service";
+import refundService from "../services/refund.service";
+import paymentHistory from "../services/payment-history.service";
+import receiptService from "../services/receipt.service";
+import { openPaymentStream, PaymentStreamEvent } from "../services/payment-stream.service";
+import { PAYMENT_STREAM_CONFIG } from "../config/env";
+import { renderReceiptPdf } from "../utils/receipt-renderer";
+import { formatPhoneNumber, validatePhoneNumber } from "../utils/phone";
 import {
-  InitiatePaymentRequest,
+  cancelRefundSchema,
+  checkStatusSchema,
+  completeRefundSchema,
+  initiatePaymentSchema,
+  paymentHistoryQuerySchema,
+  receiptQuerySchema,
+  refundSchema,
+  validatePhoneSchema,
+} from "../schemas/payment.schemas";
+import {
+  CancelRefundRequest,
   CheckStatusRequest,
+  CompleteRefundRequest,
+  InitiatePaymentRequest,
+  PaymentHistoryQuery,
+  ReceiptQuery,
   RefundRequest,
+  ValidatePhoneRequest,
 } from "../types/payment.types";
 
 const router = Router();
 
 /**
  * POST /api/payments/initiate
- * Initie un paiement MTN Mobile Money
+ * Initie un paiement Mobile Money (MTN ou Orange)
  *
  * Body:
  * - campaignId: string (requis)
- * - amount: number (requis, minimum 100 FCFA)
- * - phoneNumber: string (requis, numéro MTN Cameroun)
+ * - amount?: number (optionnel, calculé depuis la campagne; refusé s'il diffère du montant dû)
+ * - phoneNumber: string (requis, numéro MTN ou Orange Cameroun)
+ * - operator?: "mtn" | "orange" (optionnel, détecté depuis le préfixe sinon)
  * - payerMessage?: string (optionnel)
  *
  * Headers:
  * - Authorization: Bearer <firebase_id_token>
+ * - Idempotency-Key?: string (optionnel, rejoue la réponse d'origine en cas de retentative)
  */
 router.post(
   "/initiate",
   authenticateToken,
+  validate({ body: initiatePaymentSchema }),
+  idempotency("payments.initiate"),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const { campaignId, amount, phoneNumber, payerMessage } = req.body as InitiatePaymentRequest;
-
-      // Validation basique
-      if (!campaignId) {
-        res.status(400).json({
-          success: false,
-          error: "campaignId est requis",
-          code: "INVALID_ARGUMENT",
-        });
-        return;
-      }
-
-      if (!amount || amount < 100) {
-        res.status(400).json({
-          success: false,
-          error: "Le montant minimum est de 100 FCFA",
-          code: "INVALID_ARGUMENT",
-        });
-        return;
-      }
-
-      if (!phoneNumber) {
-        res.status(400).json({
-          success: false,
-          error: "phoneNumber est requis",
-          code: "INVALID_ARGUMENT",
-        });
-        return;
-      }
-
-      // Valider le numéro MTN
-      const phoneValidation = ynoteService.validateMtnPhoneNumber(phoneNumber);
-      if (!phoneValidation.isValid) {
-        res.status(400).json({
-          success: false,
-          error: phoneValidation.error || "Numéro de téléphone MTN invalide",
-          code: "INVALID_PHONE",
-        });
-        return;
-      }
-
-      // Initier le paiement
-      const result = await ynoteService.initiatePayment(
-        { campaignId, amount, phoneNumber, payerMessage },
-        req.user!.uid
-      );
-
-      res.status(200).json(result);
-    } catch (error: any) {
-      console.error("❌ Erreur /initiate:", error.message);
-
-      // Mapper les erreurs métier
-      if (error.message.includes("introuvable")) {
-        res.status(404).json({
-          success: false,
-          error: error.message,
-          code: "NOT_FOUND",
-        });
-        return;
-      }
-
-      if (error.message.includes("appartient pas")) {
-        res.status(403).json({
-          success: false,
-          error: error.message,
-          code: "PERMISSION_DENIED",
-        });
-        return;
-      }
-
-      if (error.message.includes("attente de paiement")) {
-        res.status(400).json({
-          success: false,
-          error: error.message,
-          code: "INVALID_STATUS",
-        });
-        return;
-      }
-
-      res.status(500).json({
-        success: false,
-        error: error.message || "Erreur lors de l'initiation du paiement",
-        code: "INTERNAL_ERROR",
-      });
-    }
+    const result = await paymentService.initiatePayment(req.body as InitiatePaymentRequest, req.user!.uid);
+    res.status(200).json(result);
   }
 );
 
@@ -125,8 +69,10 @@ router.post(
  * Vérifie le statut d'un paiement
  *
  * Body:
- * - referenceId: string (requis)
- * - campaignId?: string (optionnel, pour mise à jour automatique)
+ * - referenceId: string (requis: notre référence, le MessageId Y-Note ou le financialTransactionId)
+ *
+ * La campagne mise à jour est celle enregistrée sur la transaction; seul le
+ * propriétaire de la transaction (ou un admin) peut vérifier son statut.
  *
  * Headers:
  * - Authorization: Bearer <firebase_id_token>
@@ -134,35 +80,16 @@ router.post(
 router.post(
   "/status",
   authenticateToken,
+  validate({ body: checkStatusSchema }),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const { referenceId, campaignId } = req.body as CheckStatusRequest;
-
-      if (!referenceId) {
-        res.status(400).json({
-          success: false,
-          error: "referenceId est requis",
-          code: "INVALID_ARGUMENT",
-        });
-        return;
-      }
+    const { referenceId } = req.body as CheckStatusRequest;
 
-      const result = await ynoteService.checkPaymentStatus(
-        referenceId,
-        campaignId,
-        req.user?.uid
-      );
-
-      res.status(200).json(result);
-    } catch (error: any) {
-      console.error("❌ Erreur /status:", error.message);
-
-      res.status(500).json({
-        success: false,
-        error: error.message || "Erreur lors de la vérification du statut",
-        code: "INTERNAL_ERROR",
-      });
-    }
+    const result = await paymentService.checkPaymentStatus(referenceId, req.user!.uid, {
+      isAdmin: isAdminUser(req.user!),
+      ip: req.ip,
+    });
+
+    res.status(200).json(result);
   }
 );
 
@@ -173,9 +100,6 @@ router.post(
  * Params:
  * - referenceId: string
  *
- * Query:
- * - campaignId?: string
- *
  * Headers:
  * - Authorization: Bearer <firebase_id_token>
  */
@@ -183,46 +107,24 @@ router.get(
   "/status/:referenceId",
   authenticateToken,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const { referenceId } = req.params;
-      const { campaignId } = req.query;
-
-      if (!referenceId) {
-        res.status(400).json({
-          success: false,
-          error: "referenceId est requis",
-          code: "INVALID_ARGUMENT",
-        });
-        return;
-      }
+    const result = await paymentService.checkPaymentStatus(String(req.params.referenceId), req.user!.uid, {
+      isAdmin: isAdminUser(req.user!),
+      ip: req.ip,
+    });
 
-      const result = await ynoteService.checkPaymentStatus(
-        referenceId,
-        campaignId as string | undefined,
-        req.user?.uid
-      );
-
-      res.status(200).json(result);
-    } catch (error: any) {
-      console.error("❌ Erreur GET /status:", error.message);
-
-      res.status(500).json({
-        success: false,
-        error: error.message || "Erreur lors de la vérification du statut",
-        code: "INTERNAL_ERROR",
-      });
-    }
+    res.status(200).json(result);
   }
 );
 
 /**
  * POST /api/payments/refund
  * Crée une demande de remboursement (admin uniquement)
+ * Au-delà de REFUND_APPROVAL_THRESHOLD, la demande attend l'approbation d'un second admin
  *
  * Body:
  * - referenceId: string (requis)
- * - amount: number (requis)
- * - phoneNumber: string (requis)
+ * - amount?: number (par défaut: montant restant remboursable)
+ * - phoneNumber?: string (par défaut: numéro du payeur, doit lui correspondre s'il est fourni)
  * - reason: string (requis)
  *
  * Headers:
@@ -232,75 +134,119 @@ router.post(
   "/refund",
   authenticateToken,
   requireAdmin,
+  validate({ body: refundSchema }),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const { referenceId, amount, phoneNumber, reason } = req.body as RefundRequest;
-
-      if (!referenceId || !amount || !phoneNumber || !reason) {
-        res.status(400).json({
-          success: false,
-          error: "Tous les champs sont requis: referenceId, amount, phoneNumber, reason",
-          code: "INVALID_ARGUMENT",
-        });
-        return;
-      }
+    const { referenceId, amount, phoneNumber, reason } = req.body as RefundRequest;
 
-      const result = await ynoteService.createRefundRequest(
-        referenceId,
-        amount,
-        phoneNumber,
-        reason,
-        req.user!.uid
-      );
-
-      res.status(200).json(result);
-    } catch (error: any) {
-      console.error("❌ Erreur /refund:", error.message);
-
-      if (error.message.includes("administrateurs")) {
-        res.status(403).json({
-          success: false,
-          error: error.message,
-          code: "PERMISSION_DENIED",
-        });
-        return;
-      }
+    const result = await refundService.createRefundRequest(referenceId, amount, phoneNumber, reason, req.user!.uid);
 
-      res.status(500).json({
-        success: false,
-        error: error.message || "Erreur lors de la demande de remboursement",
-        code: "INTERNAL_ERROR",
-      });
-    }
+    res.status(200).json(result);
+  }
+);
+
+/**
+ * GET /api/payments/refunds/:refundId
+ * Détail d'un remboursement, statut rafraîchi auprès du fournisseur s'il est en cours (admin uniquement)
+ */
+router.get(
+  "/refunds/:refundId",
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const refund = await refundService.getRefund(String(req.params.refundId));
+    res.status(200).json({ success: true, refund });
+  }
+);
+
+/**
+ * POST /api/payments/refunds/:refundId/approve
+ * Approuve un remboursement au-delà du seuil, par un admin autre que le demandeur (admin uniquement)
+ */
+router.post(
+  "/refunds/:refundId/approve",
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const result = await refundService.approveRefund(String(req.params.refundId), req.user!.uid);
+    res.status(200).json(result);
+  }
+);
+
+/**
+ * POST /api/payments/refunds/:refundId/retry
+ * Relance un remboursement en échec (admin uniquement)
+ */
+router.post(
+  "/refunds/:refundId/retry",
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const result = await refundService.retryRefund(String(req.params.refundId), req.user!.uid);
+    res.status(200).json(result);
+  }
+);
+
+/**
+ * POST /api/payments/refunds/:refundId/complete
+ * Clôture un remboursement manuel une fois le versement effectué chez l'opérateur (admin uniquement)
+ *
+ * Body:
+ * - operatorReference: string (référence du versement chez l'opérateur)
+ * - note?: string
+ */
+router.post(
+  "/refunds/:refundId/complete",
+  authenticateToken,
+  requireAdmin,
+  validate({ body: completeRefundSchema }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const result = await refundService.completeManualRefund(
+      String(req.params.refundId),
+      req.user!.uid,
+      req.body as CompleteRefundRequest
+    );
+    res.status(200).json(result);
+  }
+);
+
+/**
+ * POST /api/payments/refunds/:refundId/cancel
+ * Annule un remboursement en échec, manuel ou en attente d'approbation (admin uniquement)
+ *
+ * Body:
+ * - reason?: string
+ */
+router.post(
+  "/refunds/:refundId/cancel",
+  authenticateToken,
+  requireAdmin,
+  validate({ body: cancelRefundSchema }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { reason } = req.body as CancelRefundRequest;
+    const result = await refundService.cancelRefund(String(req.params.refundId), req.user!.uid, reason);
+    res.status(200).json(result);
   }
 );
 
 /**
  * POST /api/payments/validate-phone
- * Valide un numéro de téléphone MTN (sans authentification requise)
+ * Valide un numéro de téléphone MTN ou Orange (sans authentification requise)
  *
  * Body:
  * - phoneNumber: string
+ * - operator?: "mtn" | "orange" (optionnel)
  */
-router.post("/validate-phone", (req, res): void => {
-  const { phoneNumber } = req.body;
-
-  if (!phoneNumber) {
-    res.status(400).json({
-      success: false,
-      error: "phoneNumber est requis",
-      code: "INVALID_ARGUMENT",
-    });
-    return;
-  }
+router.post("/validate-phone", validate({ body: validatePhoneSchema }), (req: Request, res: Response): void => {
+  const { phoneNumber, operator } = req.body as ValidatePhoneRequest;
 
-  const validation = ynoteService.validateMtnPhoneNumber(phoneNumber);
+  const validation = validatePhoneNumber(phoneNumber, operator);
 
   if (validation.isValid) {
     res.status(200).json({
       success: true,
       isValid: true,
-      formattedNumber: ynoteService.formatPhoneNumber(phoneNumber),
+      operator: validation.operator,
+      formattedNumber: formatPhoneNumber(phoneNumber),
     });
   } else {
     res.status(200).json({
@@ -311,4 +257,144 @@ router.post("/validate-phone", (req, res): void => {
   }
 });
 
+/**
+ * GET /api/payments
+ * Historique des paiements de l'utilisateur connecté, les plus récents d'abord
+ *
+ * Query:
+ * - campaignId?: string
+ * - cursor?: nextCursor de la page précédente
+ * - limit?: number (20 par défaut, 100 max)
+ *
+ * Headers:
+ * - Authorization: Bearer <firebase_id_token>
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validate({ query: paymentHistoryQuerySchema }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const result = await paymentHistory.listUserPayments(req.user!.uid, req.query as PaymentHistoryQuery);
+    res.status(200).json({ success: true, count: result.payments.length, ...result });
+  }
+);
+
+/**
+ * GET /api/payments/:referenceId/receipt
+ * Reçu d'un paiement réussi, ou avoir d'un de ses remboursements (propriétaire ou admin)
+ *
+ * Query:
+ * - format?: "pdf" (par défaut) | "html"
+ * - refundId?: string (avoir de ce remboursement au lieu du reçu)
+ *
+ * Headers:
+ * - Authorization: Bearer <firebase_id_token>
+ */
+router.get(
+  "/:referenceId/receipt",
+  authenticateToken,
+  validate({ query: receiptQuerySchema }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { format, refundId } = req.query as unknown as ReceiptQuery;
+
+    const receipt = await receiptService.getTransactionReceipt(String(req.params.referenceId), req.user!.uid, {
+      isAdmin: isAdminUser(req.user!),
+      ip: req.ip,
+      refundId,
+    });
+
+    if (format === "html") {
+      res.status(200).type("html").send(receipt.html);
+      return;
+    }
+
+    const pdf = await renderReceiptPdf(receipt);
+    res
+      .status(200)
+      .type("application/pdf")
+      .setHeader("Content-Disposition", `attachment; filename="${receipt.number}.pdf"`)
+      .send(pdf);
+  }
+);
+
+/**
+ * GET /api/payments/:referenceId/events
+ * Flux Server-Sent Events du statut d'un paiement (propriétaire ou admin)
+ * Remplace le polling de l'écran de paiement: événement "status" à l'ouverture puis à
+ * chaque changement, "end" sur un statut final (le flux se ferme), commentaires keep-alive.
+ *
+ * Headers:
+ * - Authorization: Bearer <firebase_id_token>
+ *
+ * Query:
+ * - access_token?: string (Firebase ID token, pour EventSource qui n'envoie pas de header)
+ */
+router.get(
+  "/:referenceId/events",
+  acceptQueryToken,
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    let eventId = 0;
+    const write = ({ event, data }: PaymentStreamEvent): void => {
+      eventId++;
+      res.write(`id: ${eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      if (event !== "status") {
+        res.end();
+      }
+    };
+
+    // Écouté avant l'ouverture: le client peut se déconnecter pendant les vérifications
+    let disconnected = false;
+    let cleanup: () => void = () => undefined;
+    res.on("close", () => {
+      disconnected = true;
+      cleanup();
+    });
+
+    // Transaction introuvable ou d'un autre utilisateur: erreur JSON avant l'ouverture du flux
+    const close = await openPaymentStream(
+      String(req.params.referenceId),
+      req.user!.uid,
+      { isAdmin: isAdminUser(req.user!), ip: req.ip },
+      write
+    );
+
+    // Client déjà parti: libérer l'écoute Firestore sans rien écrire
+    if (disconnected) {
+      close();
+      return;
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Désactive la mise en tampon des proxies nginx
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    // Délai de reconnexion conseillé à EventSource si la connexion tombe
+    res.write(`retry: ${PAYMENT_STREAM_CONFIG.keepAliveSeconds * 1000}\n\n`);
+
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), PAYMENT_STREAM_CONFIG.keepAliveSeconds * 1000);
+
+    cleanup = () => {
+      clearInterval(keepAlive);
+      close();
+    };
+  }
+);
+
+/**
+ * GET /api/payments/:referenceId
+ * Détail d'un paiement de l'utilisateur connecté (défini après les routes spécifiques)
+ *
+ * Headers:
+ * - Authorization: Bearer <firebase_id_token>
+ */
+router.get("/:referenceId", authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const payment = await paymentHistory.getUserPayment(req.user!.uid, String(req.params.referenceId), req.ip);
+  res.status(200).json({ success: true, payment });
+});
+
 export default router;
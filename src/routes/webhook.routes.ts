@@ -1,70 +1,99 @@
 /**
- * Routes Webhook pour les callbacks Y-Note/MTN
- * Reçoit les notifications de changement de statut de paiement
+ * Routes Webhook pour les callbacks Y-Note (MTN / Orange)
+ * Reçoit les notifications de changement de statut de paiement et expose
+ * la boîte de réception des callbacks aux administrateurs
  */
 
 import { Router, Request, Response } from "express";
-import ynoteService from "../services/ynote.service";
+import paymentService from "../services/payment.service";
+import webhookInbox from "../services/webhook-inbox.service";
+import { checkWebhookReadiness, toPublicReport } from "../services/health.service";
+import { trackBackgroundTask } from "../services/shutdown.service";
+import { verifyProviderWebhook } from "../middleware/webhook-auth";
+import { WEBHOOK_SECURITY_CONFIG } from "../config/env";
+import { authenticateToken, isAdminUser, optionalAuth, requireAdmin, AuthenticatedRequest } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import { webhookEventQuerySchema } from "../schemas/admin.schemas";
+import { WebhookEventKind, WebhookEventQuery } from "../types/payment.types";
+import logger from "../utils/logger";
 
 const router = Router();
 
+/**
+ * Enregistre un callback dans la boîte de réception puis répond immédiatement
+ * Seul un échec de l'enregistrement renvoie une erreur (le fournisseur retentera)
+ */
+function receiveCallback(providerName: string, kind: WebhookEventKind) {
+  return async (req: Request, res: Response): Promise<void> => {
+    logger.info(`📨 Webhook ${providerName} (${kind}) reçu`, { body: req.body });
+
+    try {
+      const { eventId, duplicate } = await webhookInbox.recordWebhookEvent(providerName, req.body, {
+        ip: req.ip,
+        kind,
+        callbackToken: typeof req.query.token === "string" ? req.query.token : undefined,
+      });
+
+      res.status(200).json({ success: true, eventId, duplicate, message: "Callback reçu" });
+
+      // Première tentative immédiate; les retentatives sont assurées par le worker
+      if (!duplicate) {
+        trackBackgroundTask(webhookInbox.processWebhookEvent(eventId)).catch((error: any) =>
+          logger.error(`❌ Erreur traitement événement ${eventId}`, { error: error.message })
+        );
+      }
+    } catch (error: any) {
+      logger.error("❌ Erreur enregistrement callback", { error: error.message });
+      res.status(500).json({ error: "Erreur interne lors de l'enregistrement du callback" });
+    }
+  };
+}
+
 /**
  * POST /api/webhooks/ynote-callback
- * Webhook pour recevoir les callbacks de Y-Note/MTN
+ * Webhook pour recevoir les callbacks de Y-Note (MTN et Orange)
  *
  * Ce endpoint est appelé par Y-Note quand le statut d'un paiement change.
- * Il ne nécessite pas d'authentification Firebase mais peut implémenter
- * une vérification de signature si Y-Note le supporte.
+ * Il ne nécessite pas d'authentification Firebase: l'authenticité est vérifiée par
+ * verifyProviderWebhook (IP, HMAC, jeton de transaction ?token=...) et tout succès
+ * est contre-vérifié auprès de l'API de statut Y-Note lors du traitement.
  *
- * Body attendu (peut varier selon Y-Note):
+ * Le callback est persisté dans webhook_events puis traité de manière asynchrone
+ * (retentatives avec backoff): la réponse 200 est envoyée dès l'enregistrement.
+ *
+ * Body attendu (peut varier selon Y-Note et l'opérateur):
  * - referenceId ou order_id: string
- * - status: string (SUCCESSFUL, FAILED, etc.)
- * - financialTransactionId?: string
+ * - status: string (SUCCESSFUL, SUCCESSFULL pour Orange, FAILED, etc.)
+ * - financialTransactionId ou txnid (Orange)?: string
  * - amount?: number
  * - message?: string
  */
-router.post("/ynote-callback", async (req: Request, res: Response): Promise<void> => {
-  console.log("📨 Webhook Y-Note reçu");
-  console.log("Headers:", JSON.stringify(req.headers, null, 2));
-  console.log("Body:", JSON.stringify(req.body, null, 2));
-
-  // Vérifier que c'est bien une requête POST
-  if (req.method !== "POST") {
-    res.status(405).json({ error: "Method Not Allowed" });
-    return;
-  }
-
-  try {
-    // Traiter le callback
-    await ynoteService.handleCallback(req.body);
+router.post("/ynote-callback", verifyProviderWebhook("ynote"), receiveCallback("ynote", "payment"));
 
-    // Répondre avec succès
-    res.status(200).json({ success: true, message: "Callback traité avec succès" });
-  } catch (error: any) {
-    console.error("❌ Erreur traitement callback:", error.message);
-
-    // Même en cas d'erreur, on renvoie un 200 pour éviter les retentatives
-    // mais on logue l'erreur pour investigation
-    if (error.message.includes("introuvable")) {
-      res.status(404).json({ error: error.message });
-      return;
-    }
-
-    if (error.message.includes("manquant")) {
-      res.status(400).json({ error: error.message });
-      return;
-    }
-
-    res.status(500).json({ error: "Erreur interne lors du traitement" });
-  }
-});
+/**
+ * POST /api/webhooks/ynote-refund-callback
+ * Webhook pour recevoir l'issue des remboursements (versements) Y-Note
+ *
+ * Même traitement que /ynote-callback: vérification (jeton du remboursement ?token=...),
+ * enregistrement dans webhook_events puis traitement asynchrone.
+ *
+ * Body attendu (peut varier selon Y-Note):
+ * - order_id: string (notre refundId)
+ * - MessageId?: string
+ * - status: string (SUCCESSFUL, FAILED...)
+ */
+router.post(
+  "/ynote-refund-callback",
+  verifyProviderWebhook("ynote", "refund"),
+  receiveCallback("ynote", "refund")
+);
 
 /**
  * GET /api/webhooks/ynote-callback
  * Endpoint de vérification pour Y-Note (certains providers font un GET d'abord)
  */
 router.get("/ynote-callback", (req: Request, res: Response): void => {
-  console.log("📨 Webhook Y-Note GET (vérification)");
+  logger.info("📨 Webhook Y-Note GET (vérification)");
 
   // Répondre avec un 200 pour confirmer que l'endpoint existe
   res.status(200).json({
@@ -76,55 +105,103 @@ router.get("/ynote-callback", (req: Request, res: Response): void => {
 
 /**
  * POST /api/webhooks/test
- * Endpoint de test pour simuler un callback (développement uniquement)
+ * Simule un callback (admin uniquement), enregistré seulement avec le mock Y-Note ou
+ * WEBHOOK_TEST_ENDPOINT=true (refusé en production)
+ * Le callback suit le traitement normal: un succès est contre-vérifié auprès du fournisseur.
  */
-router.post("/test", async (req: Request, res: Response): Promise<void> => {
-  // Uniquement en développement
-  if (process.env.NODE_ENV === "production") {
-    res.status(404).json({ error: "Not found" });
-    return;
-  }
-
-  console.log("🧪 Test callback reçu:", JSON.stringify(req.body, null, 2));
+if (WEBHOOK_SECURITY_CONFIG.testEndpointEnabled) {
+  router.post(
+    "/test",
+    authenticateToken,
+    requireAdmin,
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+      logger.info("🧪 Test callback reçu", { body: req.body, adminId: req.user!.uid });
+
+      const { referenceId, status } = req.body || {};
+
+      if (!referenceId) {
+        res.status(400).json({ success: false, error: "referenceId requis pour le test", code: "INVALID_ARGUMENT" });
+        return;
+      }
+
+      await paymentService.handleCallback(
+        {
+          referenceId,
+          status: status || "SUCCESSFUL",
+          financialTransactionId: `TEST_${Date.now()}`,
+        },
+        "ynote"
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Test callback traité",
+        data: req.body,
+      });
+    }
+  );
+}
 
-  try {
-    // Simuler le traitement
-    const { referenceId, status } = req.body;
+/**
+ * GET /api/webhooks/events
+ * Liste les callbacks reçus (admin uniquement)
+ *
+ * Query:
+ * - status?: PENDING | PROCESSING | PROCESSED | DEAD_LETTER
+ * - referenceId?: string
+ * - limit?: number (50 par défaut, 200 max)
+ */
+router.get(
+  "/events",
+  authenticateToken,
+  requireAdmin,
+  validate({ query: webhookEventQuerySchema }),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const events = await webhookInbox.listWebhookEvents(req.query as WebhookEventQuery);
+    res.status(200).json({ success: true, count: events.length, events });
+  }
+);
 
-    if (!referenceId) {
-      res.status(400).json({ error: "referenceId requis pour le test" });
-      return;
-    }
+/**
+ * GET /api/webhooks/events/:eventId
+ * Détail d'un callback reçu: payload, tentatives, dernière erreur (admin uniquement)
+ */
+router.get(
+  "/events/:eventId",
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const event = await webhookInbox.getWebhookEvent(String(req.params.eventId));
+    res.status(200).json({ success: true, event });
+  }
+);
 
-    // Appeler le handler avec les données de test
-    await ynoteService.handleCallback({
-      referenceId,
-      status: status || "SUCCESSFUL",
-      financialTransactionId: `TEST_${Date.now()}`,
-    });
-
-    res.status(200).json({
-      success: true,
-      message: "Test callback traité",
-      data: req.body,
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
+/**
+ * POST /api/webhooks/events/:eventId/replay
+ * Rejoue un callback (ex: après dead-letter, une fois la cause corrigée) (admin uniquement)
+ */
+router.post(
+  "/events/:eventId/replay",
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const event = await webhookInbox.replayWebhookEvent(String(req.params.eventId), req.user!.uid);
+    res.status(200).json({ success: true, event });
   }
-});
+);
 
 /**
  * GET /api/webhooks/health
- * Endpoint de santé pour vérifier que le service webhook fonctionne
+ * Readiness de la réception des callbacks (Firestore et worker de traitement)
+ * Erreurs et détails des composants pour les admins uniquement
  */
-router.get("/health", (req: Request, res: Response): void => {
-  res.status(200).json({
-    success: true,
+router.get("/health", optionalAuth, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const readiness = await checkWebhookReadiness();
+
+  res.status(readiness.ready ? 200 : 503).json({
+    success: readiness.ready,
     service: "webhook",
-    status: "healthy",
+    ...(isAdminUser(req.user) ? readiness : toPublicReport(readiness)),
     timestamp: new Date().toISOString(),
   });
 });
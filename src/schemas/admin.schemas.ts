@@ -0,0 +1,102 @@
+/**
+ * Schémas des requêtes d'administration: recherche des transactions, écarts de paiement,
+ * abonnements et livraisons des webhooks marchands, boîte de réception des callbacks
+ */
+
+import { z } from "zod";
+import {
+  MerchantWebhookDeliveryQuery,
+  MerchantWebhookSubscriptionRequest,
+  MerchantWebhookSubscriptionUpdate,
+  ResolveDiscrepancyRequest,
+  TransactionSearchFilters,
+  WebhookEventQuery,
+} from "../types/payment.types";
+import { PAYMENT_STATUSES } from "../services/payment-state.service";
+import { MERCHANT_DELIVERY_STATUSES, MERCHANT_EVENT_TYPES } from "../services/merchant-webhook.service";
+import { WEBHOOK_EVENT_STATUSES } from "../services/webhook-inbox.service";
+import {
+  enumValue,
+  queryAmount,
+  queryDate,
+  queryEnum,
+  queryLimit,
+  queryString,
+  requiredString,
+} from "./common.schemas";
+
+/**
+ * GET /api/admin/transactions
+ */
+export const transactionSearchSchema = z.object({
+  status: queryEnum("status", PAYMENT_STATUSES),
+  campaignId: queryString,
+  userId: queryString,
+  phoneNumber: queryString,
+  from: queryDate("from"),
+  to: queryDate("to"),
+  minAmount: queryAmount("minAmount"),
+  maxAmount: queryAmount("maxAmount"),
+  cursor: queryString,
+  limit: queryLimit,
+}) satisfies z.ZodType<TransactionSearchFilters>;
+
+/**
+ * POST /api/admin/discrepancies/:referenceId/resolve
+ */
+export const resolveDiscrepancySchema = z.object({
+  decision: enumValue("decision", ["accept", "reject"] as const),
+  note: z.string().trim().optional(),
+}) satisfies z.ZodType<ResolveDiscrepancyRequest>;
+
+// L'URL (HTTPS requis hors développement) est vérifiée par le service
+const webhookEvents = z
+  .array(enumValue("events", MERCHANT_EVENT_TYPES), { error: "events doit être une liste d'événements" })
+  .min(1, { error: "Liste d'événements invalide: au moins un événement requis" });
+
+/**
+ * POST /api/admin/webhooks
+ */
+export const merchantWebhookSubscriptionSchema = z.object({
+  url: requiredString("url"),
+  events: webhookEvents,
+  description: z.string().optional(),
+}) satisfies z.ZodType<MerchantWebhookSubscriptionRequest>;
+
+/**
+ * PATCH /api/admin/webhooks/:subscriptionId
+ */
+export const merchantWebhookUpdateSchema = z.object({
+  url: requiredString("url").optional(),
+  events: webhookEvents.optional(),
+  description: z.string().optional(),
+  active: z.boolean({ error: "active doit être un booléen" }).optional(),
+}) satisfies z.ZodType<MerchantWebhookSubscriptionUpdate>;
+
+/**
+ * GET /api/admin/webhook-deliveries
+ */
+export const merchantWebhookDeliveryQuerySchema = z.object({
+  subscriptionId: queryString,
+  status: queryEnum("status", MERCHANT_DELIVERY_STATUSES),
+  eventType: queryEnum("eventType", MERCHANT_EVENT_TYPES),
+  limit: queryLimit,
+}) satisfies z.ZodType<MerchantWebhookDeliveryQuery>;
+
+/**
+ * GET /api/webhooks/events
+ */
+export const webhookEventQuerySchema = z.object({
+  status: queryEnum("status", WEBHOOK_EVENT_STATUSES),
+  referenceId: queryString,
+  limit: queryLimit,
+}) satisfies z.ZodType<WebhookEventQuery>;
+
+export default {
+  transactionSearchSchema,
+  resolveDiscrepancySchema,
+  merchantWebhookSubscriptionSchema,
+  merchantWebhookUpdateSchema,
+  merchantWebhookDeliveryQuerySchema,
+  webhookEventQuerySchema,
+};
@@ -0,0 +1,84 @@
+/**
+ * Briques communes des schémas de validation des requêtes
+ *
+ * Les paramètres de query arrivent sous forme de texte: une valeur vide équivaut à un
+ * paramètre absent, les nombres et les dates sont convertis.
+ */
+
+import { z } from "zod";
+
+/**
+ * Paramètre de query vide (ex: ?status=) considéré comme absent
+ */
+function emptyToUndefined(value: unknown): unknown {
+  return typeof value === "string" && value.trim() === "" ? undefined : value;
+}
+
+/**
+ * Texte requis et non vide (espaces retirés)
+ */
+export function requiredString(field: string) {
+  return z
+    .string({
+      error: (issue) => (issue.input === undefined ? `${field} est requis` : `${field} doit être une chaîne`),
+    })
+    .trim()
+    .min(1, { error: `${field} est requis` });
+}
+
+/**
+ * Valeur parmi une liste fermée (statut, type d'événement, opérateur...)
+ */
+export function enumValue<T extends string>(field: string, values: readonly T[]) {
+  return z.enum(values, { error: `${field} invalide (valeurs acceptées: ${values.join(", ")})` });
+}
+
+/**
+ * Paramètre de query texte optionnel
+ */
+export const queryString = z.preprocess(emptyToUndefined, z.string().trim().optional());
+
+/**
+ * Paramètre de query optionnel parmi une liste fermée
+ */
+export function queryEnum<T extends string>(field: string, values: readonly T[]) {
+  return z.preprocess(emptyToUndefined, enumValue(field, values).optional());
+}
+
+/**
+ * Paramètre de query date ISO 8601 optionnel
+ */
+export function queryDate(field: string) {
+  const message = `${field} invalide (date ISO 8601 attendue)`;
+  return z.preprocess(emptyToUndefined, z.coerce.date({ error: message }).optional());
+}
+
+/**
+ * Paramètre de query nombre positif optionnel (montants)
+ */
+export function queryAmount(field: string) {
+  const message = `${field} invalide (nombre positif attendu)`;
+  return z.preprocess(emptyToUndefined, z.coerce.number({ error: message }).min(0, { error: message }).optional());
+}
+
+/**
+ * Taille de page optionnelle (bornée par chaque service)
+ */
+export const queryLimit = z.preprocess(
+  emptyToUndefined,
+  z.coerce
+    .number({ error: "limit invalide (entier positif attendu)" })
+    .int({ error: "limit invalide (entier positif attendu)" })
+    .positive({ error: "limit invalide (entier positif attendu)" })
+    .optional()
+);
+
+export default {
+  requiredString,
+  enumValue,
+  queryString,
+  queryEnum,
+  queryDate,
+  queryAmount,
+  queryLimit,
+};
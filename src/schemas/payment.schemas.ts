@@ -0,0 +1,109 @@
+/**
+ * Schémas des requêtes de paiement, de remboursement et de reçu
+ *
+ * Ils vérifient la forme des requêtes (champs requis, types, valeurs acceptées);
+ * les règles qui dépendent des données (montant dû, numéro du payeur, statut de la
+ * campagne) restent vérifiées par les services.
+ */
+
+import { z } from "zod";
+import { OPERATOR_CONFIG } from "../config/env";
+import {
+  CancelRefundRequest,
+  CheckStatusRequest,
+  CompleteRefundRequest,
+  InitiatePaymentRequest,
+  PaymentHistoryQuery,
+  PaymentOperator,
+  ReceiptQuery,
+  RefundRequest,
+  ValidatePhoneRequest,
+} from "../types/payment.types";
+import { enumValue, queryLimit, queryString, requiredString } from "./common.schemas";
+
+const OPERATORS = Object.keys(OPERATOR_CONFIG) as PaymentOperator[];
+
+const operator = enumValue("operator", OPERATORS);
+
+// Montants en FCFA: entiers, sans conversion depuis le texte ("5000" est refusé)
+const amount = z.number({ error: "amount doit être un nombre (FCFA)" }).int({ error: "amount doit être un entier (FCFA)" });
+
+/**
+ * POST /api/payments/initiate
+ */
+export const initiatePaymentSchema = z.object({
+  campaignId: requiredString("campaignId"),
+  amount: amount.min(100, { error: "Le montant minimum est de 100 FCFA" }).optional(),
+  phoneNumber: requiredString("phoneNumber"),
+  operator: operator.optional(),
+  payerMessage: z.string().optional(),
+  payeeNote: z.string().optional(),
+}) satisfies z.ZodType<InitiatePaymentRequest>;
+
+/**
+ * POST /api/payments/status
+ */
+export const checkStatusSchema = z.object({
+  referenceId: requiredString("referenceId"),
+}) satisfies z.ZodType<CheckStatusRequest>;
+
+/**
+ * POST /api/payments/refund
+ */
+export const refundSchema = z.object({
+  referenceId: requiredString("referenceId"),
+  amount: amount.positive({ error: "Le montant du remboursement doit être un entier positif (FCFA)" }).optional(),
+  phoneNumber: requiredString("phoneNumber").optional(),
+  reason: requiredString("reason"),
+}) satisfies z.ZodType<RefundRequest>;
+
+/**
+ * POST /api/payments/refunds/:refundId/cancel
+ */
+export const cancelRefundSchema = z.object({
+  reason: z.string().trim().optional(),
+}) satisfies z.ZodType<CancelRefundRequest>;
+
+/**
+ * POST /api/payments/refunds/:refundId/complete
+ */
+export const completeRefundSchema = z.object({
+  operatorReference: requiredString("operatorReference"),
+  note: z.string().trim().optional(),
+}) satisfies z.ZodType<CompleteRefundRequest>;
+
+/**
+ * POST /api/payments/validate-phone
+ */
+export const validatePhoneSchema = z.object({
+  phoneNumber: requiredString("phoneNumber"),
+  operator: operator.optional(),
+}) satisfies z.ZodType<ValidatePhoneRequest>;
+
+/**
+ * GET /api/payments
+ */
+export const paymentHistoryQuerySchema = z.object({
+  campaignId: queryString,
+  cursor: queryString,
+  limit: queryLimit,
+}) satisfies z.ZodType<PaymentHistoryQuery>;
+
+/**
+ * GET /api/payments/:referenceId/receipt
+ */
+export const receiptQuerySchema = z.object({
+  format: enumValue("format", ["pdf", "html"] as const).default("pdf"),
+  refundId: queryString,
+}) satisfies z.ZodType<ReceiptQuery>;
+
+export default {
+  initiatePaymentSchema,
+  checkStatusSchema,
+  refundSchema,
+  cancelRefundSchema,
+  completeRefundSchema,
+  validatePhoneSchema,
+  paymentHistoryQuerySchema,
+  receiptQuerySchema,
+};
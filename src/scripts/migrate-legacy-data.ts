@@ -0,0 +1,317 @@
+/**
+ * Migration des données de la version MTN uniquement
+ *
+ * Avant la prise en charge d'Orange, les paiements étaient enregistrés dans
+ * mtn_transactions, les remboursements dans mtn_refunds et la campagne portait des
+ * champs mtn*. Ce script recopie ces données vers le format actuel:
+ * - mtn_transactions -> payment_transactions (ynoteMessageId -> providerReference,
+ *   mtnCallbackData -> callbackData, paymentMethod -> operator), MessageId indexé
+ * - mtn_refunds -> payment_refunds (document nommé par refundId)
+ * - campagnes: mtnReferenceId, ynoteMessageId, mtnPaymentStatus, mtnTransactionId ->
+ *   paymentReferenceId, paymentProviderReference, paymentStatus, paymentTransactionId
+ *
+ * Les documents d'origine ne sont ni modifiés ni supprimés; un document déjà présent
+ * dans la nouvelle collection (ou un champ déjà renseigné) est conservé, le script peut
+ * donc être relancé. Les transactions encore en attente sont confiées au job de
+ * réconciliation, les remboursements PENDING_MANUAL se clôturent par
+ * POST /api/payments/refunds/:refundId/complete.
+ *
+ * Usage:
+ * - simulation (aucune écriture): npm run migrate:legacy
+ * - écriture: npm run migrate:legacy -- --apply
+ */
+
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS } from "../config/env";
+import { PaymentOperator, PaymentStatus } from "../types/payment.types";
+import { initializeFirebase, closeFirebase } from "../services/payment.service";
+import { addInitialStatusToBatch, PAYMENT_STATUSES } from "../services/payment-state.service";
+import logger from "../utils/logger";
+
+const LEGACY_COLLECTIONS = {
+  transactions: "mtn_transactions",
+  refunds: "mtn_refunds",
+};
+
+// Champs de campagne renommés: ancien nom -> nouveau nom
+const LEGACY_CAMPAIGN_FIELDS: Record<string, string> = {
+  mtnReferenceId: "paymentReferenceId",
+  ynoteMessageId: "paymentProviderReference",
+  mtnPaymentStatus: "paymentStatus",
+  mtnTransactionId: "paymentTransactionId",
+};
+
+// Marge sous la limite de 500 écritures par batch Firestore
+const BATCH_SIZE = 400;
+
+// Remboursements legacy qui n'ont pas encore d'issue
+const LEGACY_IN_FLIGHT_REFUNDS = ["PENDING_MANUAL", "PENDING", "PROCESSING"];
+
+interface MigrationStats {
+  transactions: number;
+  refunds: number;
+  campaigns: number;
+  skipped: number;
+}
+
+/**
+ * Regroupe les écritures en batchs de taille bornée
+ */
+class BatchWriter {
+  private batch: FirebaseFirestore.WriteBatch;
+  private pending = 0;
+
+  constructor(private readonly db: FirebaseFirestore.Firestore, private readonly apply: boolean) {
+    this.batch = db.batch();
+  }
+
+  async write(operations: number, add: (batch: FirebaseFirestore.WriteBatch) => void): Promise<void> {
+    if (!this.apply) {
+      return;
+    }
+
+    if (this.pending + operations > BATCH_SIZE) {
+      await this.flush();
+    }
+
+    add(this.batch);
+    this.pending += operations;
+  }
+
+  async flush(): Promise<void> {
+    if (this.pending > 0) {
+      await this.batch.commit();
+      this.batch = this.db.batch();
+      this.pending = 0;
+    }
+  }
+}
+
+/**
+ * Statut legacy converti (une valeur inconnue repasse en attente: la réconciliation tranchera)
+ */
+function toPaymentStatus(status: unknown): PaymentStatus {
+  return PAYMENT_STATUSES.includes(status as PaymentStatus) ? (status as PaymentStatus) : "PENDING";
+}
+
+/**
+ * Copie les transactions legacy
+ * Les clients recevaient le MessageId Y-Note comme référence: il est indexé pour que les
+ * anciennes références restent utilisables.
+ * @param inFlightRefunds - Références ayant un remboursement legacy sans issue (REFUND_PENDING)
+ */
+async function migrateTransactions(
+  db: FirebaseFirestore.Firestore,
+  writer: BatchWriter,
+  inFlightRefunds: Set<string>,
+  stats: MigrationStats
+): Promise<Map<string, string>> {
+  const referenceIds = new Map<string, string>();
+  const legacy = await db.collection(LEGACY_COLLECTIONS.transactions).get();
+  const now = admin.firestore.Timestamp.now();
+
+  for (const doc of legacy.docs) {
+    const data = doc.data();
+    const referenceId: string = data.referenceId || doc.id;
+    const providerReference: string | undefined = data.ynoteMessageId;
+
+    referenceIds.set(referenceId, referenceId);
+    if (providerReference) {
+      referenceIds.set(providerReference, referenceId);
+    }
+
+    const targetRef = db.collection(FIRESTORE_COLLECTIONS.transactions).doc(referenceId);
+    if ((await targetRef.get()).exists) {
+      stats.skipped++;
+      continue;
+    }
+
+    let status = toPaymentStatus(data.status);
+    if (status === "SUCCESSFUL" && (inFlightRefunds.has(referenceId) || inFlightRefunds.has(providerReference || ""))) {
+      status = "REFUND_PENDING";
+    }
+
+    const operator: PaymentOperator = data.paymentMethod === "orange" ? "orange" : "mtn";
+
+    await writer.write(providerReference && providerReference !== referenceId ? 3 : 2, (batch) => {
+      batch.set(targetRef, {
+        referenceId,
+        providerReference: providerReference || null,
+        campaignId: data.campaignId,
+        userId: data.userId,
+        amount: data.amount,
+        currency: data.currency,
+        phoneNumber: data.phoneNumber,
+        status,
+        operator,
+        provider: "ynote",
+        ...(data.ynoteResponse ? { ynoteResponse: data.ynoteResponse } : {}),
+        ...(data.ynoteStatusResponse ? { ynoteStatusResponse: data.ynoteStatusResponse } : {}),
+        ...(data.mtnCallbackData ? { callbackData: data.mtnCallbackData } : {}),
+        ...(data.financialTransactionId ? { financialTransactionId: data.financialTransactionId } : {}),
+        // Issue encore inconnue: vérification immédiate par le job de réconciliation
+        ...(status === "PENDING" ? { reconcileAfter: now } : {}),
+        migratedFrom: LEGACY_COLLECTIONS.transactions,
+        migratedAt: now,
+        createdAt: data.createdAt || now,
+        updatedAt: data.updatedAt || now,
+      });
+      addInitialStatusToBatch(batch, targetRef, status, "admin", "migration");
+
+      if (providerReference && providerReference !== referenceId) {
+        batch.set(db.collection(FIRESTORE_COLLECTIONS.references).doc(`provider:${encodeURIComponent(providerReference)}`), {
+          kind: "provider",
+          value: providerReference,
+          referenceId,
+          createdAt: now,
+        });
+      }
+    });
+
+    stats.transactions++;
+  }
+
+  return referenceIds;
+}
+
+/**
+ * Copie les remboursements legacy (tous enregistrés pour traitement manuel)
+ * @param referenceIds - Référence legacy (notre UUID ou MessageId) -> referenceId
+ */
+async function migrateRefunds(
+  db: FirebaseFirestore.Firestore,
+  writer: BatchWriter,
+  legacy: FirebaseFirestore.QuerySnapshot,
+  referenceIds: Map<string, string>,
+  stats: MigrationStats
+): Promise<void> {
+  const now = admin.firestore.Timestamp.now();
+
+  for (const doc of legacy.docs) {
+    const data = doc.data();
+    const refundId: string = data.refundId || doc.id;
+    const targetRef = db.collection(FIRESTORE_COLLECTIONS.refunds).doc(refundId);
+
+    if ((await targetRef.get()).exists) {
+      stats.skipped++;
+      continue;
+    }
+
+    const originalReferenceId = referenceIds.get(data.originalReferenceId) || data.originalReferenceId;
+    const transaction = await db.collection(FIRESTORE_COLLECTIONS.transactions).doc(originalReferenceId).get();
+
+    if (!transaction.exists && !referenceIds.has(data.originalReferenceId)) {
+      logger.warn(`⚠️  Remboursement ${refundId}: transaction ${data.originalReferenceId} introuvable`);
+    }
+
+    await writer.write(1, (batch) => {
+      batch.set(targetRef, {
+        refundId,
+        originalReferenceId,
+        campaignId: transaction.data()?.campaignId || null,
+        amount: data.amount,
+        phoneNumber: data.phoneNumber,
+        operator: transaction.data()?.operator || "mtn",
+        reason: data.reason,
+        status: data.status || "PENDING_MANUAL",
+        provider: "ynote",
+        attempts: 0,
+        requestedBy: data.requestedBy,
+        migratedFrom: LEGACY_COLLECTIONS.refunds,
+        migratedAt: now,
+        createdAt: data.createdAt || now,
+        updatedAt: data.updatedAt || data.createdAt || now,
+      });
+    });
+
+    stats.refunds++;
+  }
+}
+
+/**
+ * Renseigne les nouveaux champs des campagnes à partir des champs mtn*
+ */
+async function migrateCampaigns(
+  db: FirebaseFirestore.Firestore,
+  writer: BatchWriter,
+  referenceIds: Map<string, string>,
+  stats: MigrationStats
+): Promise<void> {
+  const seen = new Set<string>();
+
+  for (const legacyField of Object.keys(LEGACY_CAMPAIGN_FIELDS)) {
+    const campaigns = await db.collection("campaigns").where(legacyField, "!=", null).get();
+
+    for (const doc of campaigns.docs) {
+      if (seen.has(doc.id)) {
+        continue;
+      }
+      seen.add(doc.id);
+
+      const data = doc.data();
+      const updates: Record<string, unknown> = {};
+
+      for (const [from, to] of Object.entries(LEGACY_CAMPAIGN_FIELDS)) {
+        if (data[from] !== undefined && data[to] === undefined) {
+          updates[to] = from === "mtnReferenceId" ? referenceIds.get(data[from]) || data[from] : data[from];
+        }
+      }
+
+      if (Object.keys(updates).length === 0) {
+        stats.skipped++;
+        continue;
+      }
+
+      await writer.write(1, (batch) => batch.update(doc.ref, updates));
+      stats.campaigns++;
+    }
+  }
+}
+
+/**
+ * Exécute la migration
+ * @param apply - false: simulation, seuls les comptes sont calculés
+ */
+export async function migrateLegacyData(apply: boolean): Promise<MigrationStats> {
+  const db = admin.firestore();
+  const writer = new BatchWriter(db, apply);
+  const stats: MigrationStats = { transactions: 0, refunds: 0, campaigns: 0, skipped: 0 };
+
+  const legacyRefunds = await db.collection(LEGACY_COLLECTIONS.refunds).get();
+  const inFlightRefunds = new Set(
+    legacyRefunds.docs
+      .filter((doc) => LEGACY_IN_FLIGHT_REFUNDS.includes(doc.data().status || "PENDING_MANUAL"))
+      .map((doc) => doc.data().originalReferenceId as string)
+  );
+
+  const referenceIds = await migrateTransactions(db, writer, inFlightRefunds, stats);
+  // Les remboursements lisent les transactions migrées (campagne, opérateur)
+  await writer.flush();
+  await migrateRefunds(db, writer, legacyRefunds, referenceIds, stats);
+  await migrateCampaigns(db, writer, referenceIds, stats);
+  await writer.flush();
+
+  return stats;
+}
+
+// Exécution autonome: ts-node src/scripts/migrate-legacy-data.ts [--apply]
+if (require.main === module) {
+  const apply = process.argv.includes("--apply");
+
+  initializeFirebase();
+  migrateLegacyData(apply)
+    .then((stats) => {
+      logger.info(apply ? "✅ Migration terminée" : "🔎 Simulation terminée (relancer avec --apply pour écrire)", {
+        ...stats,
+      });
+    })
+    .catch((error: any) => {
+      logger.error("❌ Erreur migration", { error: error.message });
+      process.exitCode = 1;
+    })
+    .finally(() => closeFirebase());
+}
+
+export default {
+  migrateLegacyData,
+};
@@ -0,0 +1,37 @@
+/**
+ * Journal d'audit sécurité
+ * Enregistre les tentatives rejetées (callbacks non authentiques, accès refusés)
+ */
+
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS } from "../config/env";
+import { SecurityAuditEvent } from "../types/payment.types";
+import logger from "../utils/logger";
+import { getRequestId } from "../utils/request-context";
+
+/**
+ * Enregistre un événement de sécurité
+ * Ne lève jamais d'erreur: l'audit ne doit pas bloquer le traitement
+ */
+export async function recordSecurityEvent(event: SecurityAuditEvent): Promise<void> {
+  logger.warn(`🛡️  Audit sécurité [${event.type}]: ${event.reason}`);
+
+  try {
+    await admin.firestore().collection(FIRESTORE_COLLECTIONS.securityAudit).add({
+      type: event.type,
+      reason: event.reason,
+      ip: event.ip || null,
+      referenceId: event.referenceId || null,
+      userId: event.userId || null,
+      requestId: getRequestId() || null,
+      details: event.details ? JSON.parse(JSON.stringify(event.details)) : null,
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+  } catch (error: any) {
+    logger.error("❌ Erreur enregistrement audit sécurité", { error: error.message });
+  }
+}
+
+export default {
+  recordSecurityEvent,
+};
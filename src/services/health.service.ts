@@ -0,0 +1,234 @@
+/**
+ * Santé de l'instance (liveness / readiness)
+ *
+ * - liveness: le processus répond; aucune dépendance n'est vérifiée (un redémarrage ne
+ *   réparerait ni Firestore ni Y-Note)
+ * - readiness: l'instance peut traiter des paiements. Chaque composant est vérifié avec
+ *   un délai maximal (HEALTH_CHECK_TIMEOUT_MS) et rapporte son statut et sa latence:
+ *   configuration, Firestore, token du fournisseur, disjoncteur Y-Note, workers
+ *
+ * Un composant "down" retire l'instance du load balancer (503). Une indisponibilité de
+ * Y-Note (disjoncteur ouvert, API injoignable) n'est que "degraded": elle touche toutes
+ * les instances, qui doivent rester routables pour l'historique et les statuts.
+ *
+ * Les messages d'erreur et détails des composants sont journalisés et réservés aux admins:
+ * un appelant anonyme ne reçoit que le statut et la latence (toPublicReport).
+ */
+
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS, HEALTH_CONFIG, getConfigErrors } from "../config/env";
+import { ComponentHealth, ComponentStatus, ReadinessReport, WorkerHeartbeat } from "../types/payment.types";
+import { getPaymentProvider } from "./providers/registry";
+import { getYnoteCircuitState } from "./providers/ynote-client";
+import { getWebhookWorkerHeartbeat } from "../workers/webhook.worker";
+import { getReconcilerWorkerHeartbeat } from "../workers/reconciler.worker";
+import { getMerchantWebhookWorkerHeartbeat } from "../workers/merchant-webhook.worker";
+import { isShuttingDown } from "./shutdown.service";
+import { ProviderUnavailableError } from "../utils/errors";
+import logger from "../utils/logger";
+
+class HealthCheckTimeoutError extends Error {}
+
+/**
+ * Rejette si la vérification dépasse HEALTH_CHECK_TIMEOUT_MS
+ */
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new HealthCheckTimeoutError(`Délai de ${HEALTH_CONFIG.checkTimeoutMs} ms dépassé`)),
+      HEALTH_CONFIG.checkTimeoutMs
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Exécute une vérification et mesure sa latence
+ * @param failureStatus - Statut d'un composant dont la vérification échoue
+ */
+async function measure(
+  check: () => Promise<Partial<ComponentHealth> | void>,
+  failureStatus: (error: any) => ComponentStatus = () => "down"
+): Promise<ComponentHealth> {
+  const startedAt = Date.now();
+
+  try {
+    const result = await withTimeout(check());
+    return { status: "up", ...result, latencyMs: Date.now() - startedAt };
+  } catch (error: any) {
+    return { status: failureStatus(error), latencyMs: Date.now() - startedAt, error: error.message };
+  }
+}
+
+function checkConfig(): ComponentHealth {
+  const errors = getConfigErrors();
+
+  return errors.length > 0
+    ? { status: "down", latencyMs: 0, error: errors.join("; ") }
+    : { status: "up", latencyMs: 0 };
+}
+
+/**
+ * Lecture d'un document (connectivité et droits du compte de service)
+ */
+function checkFirestore(): Promise<ComponentHealth> {
+  return measure(async () => {
+    await admin.firestore().collection(FIRESTORE_COLLECTIONS.transactions).select().limit(1).get();
+  });
+}
+
+/**
+ * Token du fournisseur actif: des credentials refusées rendent l'instance inutilisable,
+ * une indisponibilité du fournisseur ne fait que la dégrader
+ */
+function checkProvider(): Promise<ComponentHealth> {
+  return measure(
+    async () => {
+      const provider = getPaymentProvider();
+
+      if (provider.checkHealth) {
+        await provider.checkHealth();
+      }
+
+      return { details: { provider: provider.name } };
+    },
+    (error) =>
+      error instanceof ProviderUnavailableError || error instanceof HealthCheckTimeoutError ? "degraded" : "down"
+  );
+}
+
+function checkCircuitBreaker(): ComponentHealth {
+  const circuit = getYnoteCircuitState();
+
+  return {
+    status: circuit.state === "CLOSED" ? "up" : "degraded",
+    latencyMs: 0,
+    ...(circuit.lastError && circuit.state !== "CLOSED" && { error: circuit.lastError }),
+    details: circuit,
+  };
+}
+
+/**
+ * Un worker activé doit avoir terminé un passage récemment
+ * (avant le premier passage, le démarrage du processus sert de référence)
+ */
+function checkWorker(heartbeat: WorkerHeartbeat): ComponentHealth {
+  if (!heartbeat.enabled) {
+    return { status: "disabled", latencyMs: 0, details: { ...heartbeat } };
+  }
+
+  if (!heartbeat.started) {
+    return { status: "down", latencyMs: 0, error: "Worker non démarré", details: { ...heartbeat } };
+  }
+
+  const lastActivity = heartbeat.lastRunAt ? Date.parse(heartbeat.lastRunAt) : Date.now() - process.uptime() * 1000;
+  const silentMs = Date.now() - lastActivity;
+
+  if (silentMs > heartbeat.intervalMs * HEALTH_CONFIG.workerStaleIntervals) {
+    return {
+      status: "down",
+      latencyMs: 0,
+      error: `Aucun passage depuis ${Math.round(silentMs / 1000)} s`,
+      details: { ...heartbeat },
+    };
+  }
+
+  return {
+    status: heartbeat.lastError ? "degraded" : "up",
+    latencyMs: 0,
+    ...(heartbeat.lastError && { error: heartbeat.lastError }),
+    details: { ...heartbeat },
+  };
+}
+
+function toReport(checks: Record<string, ComponentHealth>): ReadinessReport {
+  const statuses = Object.values(checks).map((check) => check.status);
+
+  for (const [name, check] of Object.entries(checks)) {
+    if (check.error && (check.status === "down" || check.status === "degraded")) {
+      logger.warn(`⚠️  Readiness: composant ${name} ${check.status}: ${check.error}`);
+    }
+  }
+
+  if (statuses.includes("down")) {
+    return { status: "not_ready", ready: false, checks };
+  }
+
+  return { status: statuses.includes("degraded") ? "degraded" : "ready", ready: true, checks };
+}
+
+/**
+ * Liveness: le processus répond
+ */
+export function getLiveness(): { status: "alive"; uptimeSeconds: number } {
+  return { status: "alive", uptimeSeconds: Math.round(process.uptime()) };
+}
+
+/**
+ * Instance en cours d'arrêt: retirée du load balancer sans autre vérification
+ */
+function shutdownReport(): ReadinessReport | null {
+  return isShuttingDown()
+    ? toReport({ shutdown: { status: "down", latencyMs: 0, error: "Arrêt de l'instance en cours" } })
+    : null;
+}
+
+/**
+ * Vue d'un rapport pour un appelant non administrateur: statut et latence par composant,
+ * sans message d'erreur ni détails (configuration, fournisseur, workers)
+ */
+export function toPublicReport(report: ReadinessReport): ReadinessReport {
+  return {
+    ...report,
+    checks: Object.fromEntries(
+      Object.entries(report.checks).map(([name, check]) => [name, { status: check.status, latencyMs: check.latencyMs }])
+    ),
+  };
+}
+
+/**
+ * Readiness de l'instance (vérifications en parallèle)
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const stopping = shutdownReport();
+  if (stopping) {
+    return stopping;
+  }
+
+  const [firestore, provider] = await Promise.all([checkFirestore(), checkProvider()]);
+
+  return toReport({
+    config: checkConfig(),
+    firestore,
+    provider,
+    circuitBreaker: checkCircuitBreaker(),
+    webhookWorker: checkWorker(getWebhookWorkerHeartbeat()),
+    reconciler: checkWorker(getReconcilerWorkerHeartbeat()),
+    merchantWebhookWorker: checkWorker(getMerchantWebhookWorkerHeartbeat()),
+  });
+}
+
+/**
+ * Readiness de la réception des callbacks: enregistrement (Firestore) et traitement (worker)
+ */
+export async function checkWebhookReadiness(): Promise<ReadinessReport> {
+  const stopping = shutdownReport();
+  if (stopping) {
+    return stopping;
+  }
+
+  return toReport({
+    firestore: await checkFirestore(),
+    webhookWorker: checkWorker(getWebhookWorkerHeartbeat()),
+  });
+}
+
+export default {
+  getLiveness,
+  toPublicReport,
+  checkReadiness,
+  checkWebhookReadiness,
+};
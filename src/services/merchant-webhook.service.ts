@@ -0,0 +1,584 @@
+/**
+ * Webhooks sortants vers les marchands
+ *
+ * Les administrateurs abonnent des endpoints HTTPS à des événements (payment.succeeded,
+ * refund.completed...). Chaque événement émis produit une livraison par abonnement
+ * (collection merchant_webhook_deliveries), tentée immédiatement puis reprise par le
+ * worker avec un backoff exponentiel:
+ * - le corps est signé: en-tête t=<timestamp>,v1=<HMAC SHA-256 de "<timestamp>.<corps>">
+ *   avec le secret de l'abonnement (le timestamp permet au marchand de refuser les rejeux)
+ * - toute réponse 2xx vaut accusé de réception, le reste est retenté
+ * - après MERCHANT_WEBHOOK_MAX_ATTEMPTS échecs, la livraison passe en DEAD_LETTER
+ *   (relivraison manuelle par un admin)
+ * L'émission ne lève jamais d'erreur: un marchand injoignable n'affecte pas le paiement.
+ */
+
+import axios from "axios";
+import { v4 as uuidv4 } from "uuid";
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS, MERCHANT_WEBHOOK_CONFIG, YNOTE_CONFIG } from "../config/env";
+import {
+  MerchantEvent,
+  MerchantEventType,
+  MerchantWebhookDelivery,
+  MerchantWebhookDeliveryQuery,
+  MerchantWebhookDeliveryStatus,
+  MerchantWebhookSubscription,
+  MerchantWebhookSubscriptionRequest,
+  MerchantWebhookSubscriptionUpdate,
+  PaymentStatus,
+} from "../types/payment.types";
+import { trackBackgroundTask } from "./shutdown.service";
+import { generateSecretToken, hmacSha256 } from "../utils/crypto";
+import logger from "../utils/logger";
+import { EventInProgressError, NotFoundError, ValidationError } from "../utils/errors";
+
+export const MERCHANT_EVENT_TYPES: MerchantEventType[] = [
+  "payment.pending",
+  "payment.succeeded",
+  "payment.failed",
+  "refund.completed",
+  "campaign.scheduled",
+];
+
+export const MERCHANT_DELIVERY_STATUSES: MerchantWebhookDeliveryStatus[] = [
+  "PENDING",
+  "DELIVERING",
+  "DELIVERED",
+  "DEAD_LETTER",
+];
+
+// Événement correspondant à un statut de transaction (les autres statuts ne sont pas notifiés)
+const PAYMENT_EVENTS: Partial<Record<PaymentStatus, MerchantEventType>> = {
+  PENDING: "payment.pending",
+  SUCCESSFUL: "payment.succeeded",
+  FAILED: "payment.failed",
+  EXPIRED: "payment.failed",
+};
+
+// Taille maximale de la réponse de l'endpoint conservée sur la livraison
+const RESPONSE_BODY_MAX_LENGTH = 500;
+
+function subscriptionsCollection(): FirebaseFirestore.CollectionReference {
+  return admin.firestore().collection(FIRESTORE_COLLECTIONS.merchantWebhooks);
+}
+
+function deliveriesCollection(): FirebaseFirestore.CollectionReference {
+  return admin.firestore().collection(FIRESTORE_COLLECTIONS.merchantWebhookDeliveries);
+}
+
+/**
+ * Délai avant la prochaine tentative (exponentiel, plafonné)
+ */
+function backoffMs(attempts: number): number {
+  const seconds = MERCHANT_WEBHOOK_CONFIG.baseBackoffSeconds * Math.pow(2, Math.max(attempts - 1, 0));
+  return Math.min(seconds, MERCHANT_WEBHOOK_CONFIG.maxBackoffSeconds) * 1000;
+}
+
+/**
+ * Convertit un document Firestore en objet JSON (dates ISO, y compris dans le journal)
+ */
+function serialize(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(serialize);
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, serialize(entry)]));
+  }
+
+  return value;
+}
+
+/**
+ * Abonnement présenté aux admins (le secret n'est communiqué qu'à la création)
+ */
+function serializeSubscription(data: FirebaseFirestore.DocumentData): Record<string, unknown> {
+  const { secret: _secret, ...rest } = data;
+  return serialize(rest) as Record<string, unknown>;
+}
+
+/**
+ * Vérifie l'URL d'un endpoint marchand
+ * @throws ValidationError si l'URL est invalide ou n'est pas en HTTPS
+ */
+function validateEndpointUrl(url: string): string {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw ValidationError.forField("url", "URL de webhook invalide");
+  }
+
+  const insecureAllowed = MERCHANT_WEBHOOK_CONFIG.allowInsecureUrls && parsed.protocol === "http:";
+  if (parsed.protocol !== "https:" && !insecureAllowed) {
+    throw ValidationError.forField("url", "URL de webhook invalide: HTTPS requis");
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Abonne un endpoint à des événements (admin)
+ * @returns l'abonnement, avec son secret de signature (seule fois où il est communiqué)
+ */
+export async function createSubscription(
+  input: MerchantWebhookSubscriptionRequest,
+  adminId: string
+): Promise<Record<string, unknown>> {
+  const docRef = subscriptionsCollection().doc();
+  const now = admin.firestore.Timestamp.now();
+
+  const subscription: MerchantWebhookSubscription = {
+    subscriptionId: docRef.id,
+    url: validateEndpointUrl(input.url),
+    events: Array.from(new Set(input.events)),
+    secret: `whsec_${generateSecretToken(32)}`,
+    description: input.description ?? null,
+    active: true,
+    createdBy: adminId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await docRef.set(subscription);
+
+  logger.info(`🔔 Abonnement webhook ${docRef.id} créé par ${adminId}: ${subscription.url} (${subscription.events.join(", ")})`);
+
+  return { ...serializeSubscription(subscription), secret: subscription.secret };
+}
+
+/**
+ * Liste les abonnements (admin), du plus récent au plus ancien
+ */
+export async function listSubscriptions(): Promise<Record<string, unknown>[]> {
+  const snapshot = await subscriptionsCollection().orderBy("createdAt", "desc").get();
+  return snapshot.docs.map((doc) => serializeSubscription(doc.data()));
+}
+
+/**
+ * Modifie un abonnement (admin): URL, événements, description, activation
+ */
+export async function updateSubscription(
+  subscriptionId: string,
+  changes: MerchantWebhookSubscriptionUpdate,
+  adminId: string
+): Promise<Record<string, unknown>> {
+  const docRef = subscriptionsCollection().doc(subscriptionId);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    throw new NotFoundError("Abonnement webhook introuvable");
+  }
+
+  const updates: Record<string, unknown> = {};
+
+  if (changes.url !== undefined) {
+    updates.url = validateEndpointUrl(changes.url);
+  }
+  if (changes.events !== undefined) {
+    updates.events = Array.from(new Set(changes.events));
+  }
+  if (changes.description !== undefined) {
+    updates.description = changes.description;
+  }
+  if (changes.active !== undefined) {
+    updates.active = changes.active;
+  }
+
+  await docRef.update({ ...updates, updatedBy: adminId, updatedAt: admin.firestore.Timestamp.now() });
+
+  logger.info(`🔔 Abonnement webhook ${subscriptionId} modifié par ${adminId}`);
+
+  const updated = await docRef.get();
+  return serializeSubscription(updated.data() || {});
+}
+
+/**
+ * Supprime un abonnement (admin)
+ * Ses livraisons en attente passent en dead-letter à leur prochaine tentative.
+ */
+export async function deleteSubscription(subscriptionId: string, adminId: string): Promise<void> {
+  const docRef = subscriptionsCollection().doc(subscriptionId);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    throw new NotFoundError("Abonnement webhook introuvable");
+  }
+
+  await docRef.delete();
+
+  logger.info(`🔕 Abonnement webhook ${subscriptionId} supprimé par ${adminId}`);
+}
+
+/**
+ * Émet un événement vers les abonnements actifs qui y sont inscrits
+ * Les livraisons sont persistées puis tentées immédiatement (le worker reprend les échecs).
+ * Ne lève pas d'erreur: l'échec est journalisé.
+ */
+export async function emitMerchantEvent(type: MerchantEventType, data: Record<string, unknown>): Promise<void> {
+  try {
+    const subscriptions = await subscriptionsCollection()
+      .where("active", "==", true)
+      .where("events", "array-contains", type)
+      .get();
+
+    if (subscriptions.empty) {
+      return;
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const event: MerchantEvent = {
+      id: `evt_${uuidv4()}`,
+      type,
+      createdAt: now.toDate().toISOString(),
+      // Aller-retour JSON: Firestore refuse les valeurs undefined
+      data: JSON.parse(JSON.stringify(data)),
+    };
+
+    const batch = admin.firestore().batch();
+    const deliveryIds: string[] = [];
+
+    subscriptions.docs.forEach((doc) => {
+      const subscription = doc.data() as MerchantWebhookSubscription;
+      const deliveryId = `${event.id}_${doc.id}`;
+      const delivery: MerchantWebhookDelivery = {
+        deliveryId,
+        subscriptionId: doc.id,
+        url: subscription.url,
+        eventId: event.id,
+        eventType: type,
+        event,
+        status: "PENDING",
+        attempts: 0,
+        attemptLog: [],
+        lastStatusCode: null,
+        lastError: null,
+        lastResponseBody: null,
+        createdAt: now,
+        nextAttemptAt: now,
+      };
+
+      batch.set(deliveriesCollection().doc(deliveryId), delivery);
+      deliveryIds.push(deliveryId);
+    });
+
+    await batch.commit();
+
+    logger.info(`🔔 Événement ${type} (${event.id}): ${deliveryIds.length} livraison(s) planifiée(s)`);
+
+    // Première tentative sans attendre: la réponse au client ne dépend pas des marchands
+    deliveryIds.forEach((deliveryId) => {
+      trackBackgroundTask(deliverMerchantEvent(deliveryId)).catch((error: any) =>
+        logger.error(`❌ Erreur livraison webhook ${deliveryId}`, { error: error.message })
+      );
+    });
+  } catch (error: any) {
+    logger.error(`❌ Erreur émission de l'événement ${type}`, { error: error.message });
+  }
+}
+
+/**
+ * Émet l'événement correspondant au nouveau statut d'une transaction (s'il y en a un)
+ */
+export async function emitPaymentEvent(
+  referenceId: string,
+  transactionData: FirebaseFirestore.DocumentData,
+  status: PaymentStatus,
+  details: { paidAmount?: number; financialTransactionId?: string; reason?: string } = {}
+): Promise<void> {
+  const type = PAYMENT_EVENTS[status];
+  if (!type) {
+    return;
+  }
+
+  await emitMerchantEvent(type, {
+    referenceId,
+    campaignId: transactionData.campaignId || null,
+    userId: transactionData.userId || null,
+    amount: transactionData.amount,
+    ...(details.paidAmount !== undefined ? { paidAmount: details.paidAmount } : {}),
+    currency: transactionData.currency || YNOTE_CONFIG.currency,
+    operator: transactionData.operator || null,
+    status,
+    providerReference: transactionData.providerReference || null,
+    financialTransactionId: details.financialTransactionId || transactionData.financialTransactionId || null,
+    ...(details.reason ? { reason: details.reason } : {}),
+  });
+}
+
+/**
+ * Prend en charge une livraison (bail exclusif) si elle est prête à être tentée
+ * @returns les données de la livraison, ou null si elle n'est pas à tenter maintenant
+ */
+async function claimDelivery(docRef: FirebaseFirestore.DocumentReference): Promise<MerchantWebhookDelivery | null> {
+  return admin.firestore().runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    const data = doc.data() as MerchantWebhookDelivery | undefined;
+    const now = Date.now();
+
+    if (!doc.exists || !data) {
+      return null;
+    }
+
+    const ready =
+      (data.status === "PENDING" && data.nextAttemptAt.toMillis() <= now) ||
+      (data.status === "DELIVERING" && (data.leaseExpiresAt?.toMillis() || 0) <= now);
+
+    if (!ready) {
+      return null;
+    }
+
+    tx.update(docRef, {
+      status: "DELIVERING",
+      leaseExpiresAt: admin.firestore.Timestamp.fromMillis(now + MERCHANT_WEBHOOK_CONFIG.leaseSeconds * 1000),
+    });
+
+    return data;
+  });
+}
+
+/**
+ * Envoie un événement signé à l'endpoint d'un abonnement
+ * @returns le code HTTP et le début de la réponse
+ */
+async function postSignedEvent(
+  subscription: MerchantWebhookSubscription,
+  delivery: MerchantWebhookDelivery
+): Promise<{ statusCode: number; body: string }> {
+  const body = JSON.stringify(delivery.event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = hmacSha256(subscription.secret, `${timestamp}.${body}`);
+
+  const response = await axios.post(subscription.url, body, {
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "IliosPub-Webhooks/1.0",
+      [MERCHANT_WEBHOOK_CONFIG.signatureHeader]: `t=${timestamp},v1=${signature}`,
+      "x-ilios-event": delivery.eventType,
+      "x-ilios-delivery": delivery.deliveryId,
+    },
+    timeout: MERCHANT_WEBHOOK_CONFIG.timeoutMs,
+    maxRedirects: 0,
+    // Tout code HTTP est une réponse à journaliser, pas une exception
+    validateStatus: () => true,
+    transformResponse: (raw) => raw,
+  });
+
+  const responseBody = typeof response.data === "string" ? response.data : JSON.stringify(response.data ?? "");
+
+  return { statusCode: response.status, body: responseBody.slice(0, RESPONSE_BODY_MAX_LENGTH) };
+}
+
+/**
+ * Tente une livraison
+ * Ne lève pas d'erreur de livraison: l'échec est enregistré dans le journal
+ * @returns le statut de la livraison après la tentative, ou null si elle n'était pas à tenter
+ */
+export async function deliverMerchantEvent(deliveryId: string): Promise<MerchantWebhookDeliveryStatus | null> {
+  const docRef = deliveriesCollection().doc(deliveryId);
+  const delivery = await claimDelivery(docRef);
+
+  if (!delivery) {
+    return null;
+  }
+
+  const subscriptionDoc = await subscriptionsCollection().doc(delivery.subscriptionId).get();
+  const subscription = subscriptionDoc.data() as MerchantWebhookSubscription | undefined;
+
+  if (!subscription || !subscription.active) {
+    await docRef.update({
+      status: "DEAD_LETTER",
+      lastError: "Abonnement webhook désactivé ou supprimé",
+      leaseExpiresAt: admin.firestore.FieldValue.delete(),
+    });
+
+    logger.warn(`⚠️  Livraison webhook ${deliveryId} abandonnée: abonnement désactivé ou supprimé`);
+    return "DEAD_LETTER";
+  }
+
+  const attempts = (delivery.attempts || 0) + 1;
+  const startedAt = Date.now();
+  let statusCode: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await postSignedEvent(subscription, delivery);
+    statusCode = response.statusCode;
+    responseBody = response.body;
+
+    if (statusCode < 200 || statusCode >= 300) {
+      error = `Réponse HTTP ${statusCode}`;
+    }
+  } catch (requestError: any) {
+    error = requestError.message || "Erreur inconnue";
+  }
+
+  const attempt = {
+    attempt: attempts,
+    at: admin.firestore.Timestamp.now(),
+    statusCode,
+    durationMs: Date.now() - startedAt,
+    error,
+  };
+  const logUpdates = {
+    attempts,
+    attemptLog: admin.firestore.FieldValue.arrayUnion(attempt),
+    url: subscription.url,
+    lastStatusCode: statusCode,
+    lastError: error,
+    lastResponseBody: responseBody,
+    leaseExpiresAt: admin.firestore.FieldValue.delete(),
+  };
+
+  if (!error) {
+    await docRef.update({ ...logUpdates, status: "DELIVERED", deliveredAt: admin.firestore.Timestamp.now() });
+
+    logger.info(`✅ Webhook ${delivery.eventType} livré à ${subscription.url} (tentative ${attempts})`);
+    return "DELIVERED";
+  }
+
+  const deadLetter = attempts >= MERCHANT_WEBHOOK_CONFIG.maxAttempts;
+
+  await docRef.update({
+    ...logUpdates,
+    status: deadLetter ? "DEAD_LETTER" : "PENDING",
+    nextAttemptAt: admin.firestore.Timestamp.fromMillis(Date.now() + backoffMs(attempts)),
+  });
+
+  if (deadLetter) {
+    logger.error(`💀 Livraison webhook ${deliveryId} en dead-letter après ${attempts} tentative(s): ${error}`);
+    return "DEAD_LETTER";
+  }
+
+  logger.warn(`⚠️  Livraison webhook ${deliveryId} en échec (tentative ${attempts}), nouvelle tentative planifiée: ${error}`);
+  return "PENDING";
+}
+
+/**
+ * Tente les livraisons dues: retentatives arrivées à échéance et bails expirés
+ * @returns le nombre de livraisons tentées
+ */
+export async function processDueMerchantDeliveries(
+  limit: number = MERCHANT_WEBHOOK_CONFIG.batchSize
+): Promise<number> {
+  const now = admin.firestore.Timestamp.now();
+
+  const [due, stale] = await Promise.all([
+    deliveriesCollection()
+      .where("status", "==", "PENDING")
+      .where("nextAttemptAt", "<=", now)
+      .orderBy("nextAttemptAt")
+      .limit(limit)
+      .get(),
+    deliveriesCollection()
+      .where("status", "==", "DELIVERING")
+      .where("leaseExpiresAt", "<=", now)
+      .limit(limit)
+      .get(),
+  ]);
+
+  let processed = 0;
+
+  for (const doc of [...due.docs, ...stale.docs]) {
+    if ((await deliverMerchantEvent(doc.id)) !== null) {
+      processed++;
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Liste les livraisons (admin), de la plus récente à la plus ancienne
+ */
+export async function listMerchantDeliveries(filters: MerchantWebhookDeliveryQuery): Promise<Record<string, unknown>[]> {
+  let query: FirebaseFirestore.Query = deliveriesCollection();
+
+  if (filters.subscriptionId) {
+    query = query.where("subscriptionId", "==", filters.subscriptionId);
+  }
+
+  if (filters.status) {
+    query = query.where("status", "==", filters.status);
+  }
+
+  if (filters.eventType) {
+    query = query.where("eventType", "==", filters.eventType);
+  }
+
+  const limit = Math.min(Math.max(filters.limit || 50, 1), 200);
+  const snapshot = await query.orderBy("createdAt", "desc").limit(limit).get();
+
+  return snapshot.docs.map((doc) => serialize(doc.data()) as Record<string, unknown>);
+}
+
+/**
+ * Récupère une livraison et son journal de tentatives (admin)
+ */
+export async function getMerchantDelivery(deliveryId: string): Promise<Record<string, unknown>> {
+  const doc = await deliveriesCollection().doc(deliveryId).get();
+
+  if (!doc.exists) {
+    throw new NotFoundError("Livraison webhook introuvable");
+  }
+
+  return serialize(doc.data() || {}) as Record<string, unknown>;
+}
+
+/**
+ * Relivre un événement (admin): remis à zéro puis tenté immédiatement
+ * Le même événement (même id) est renvoyé, le marchand peut donc le dédupliquer.
+ */
+export async function redeliverMerchantEvent(deliveryId: string, adminId: string): Promise<Record<string, unknown>> {
+  const docRef = deliveriesCollection().doc(deliveryId);
+
+  await admin.firestore().runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    const data = doc.data() as MerchantWebhookDelivery | undefined;
+
+    if (!doc.exists || !data) {
+      throw new NotFoundError("Livraison webhook introuvable");
+    }
+
+    if (data.status === "DELIVERING" && (data.leaseExpiresAt?.toMillis() || 0) > Date.now()) {
+      throw new EventInProgressError("Livraison webhook en cours");
+    }
+
+    tx.update(docRef, {
+      status: "PENDING",
+      attempts: 0,
+      nextAttemptAt: admin.firestore.Timestamp.now(),
+      redeliveredBy: adminId,
+      redeliveredAt: admin.firestore.Timestamp.now(),
+    });
+  });
+
+  logger.info(`🔁 Relivraison du webhook ${deliveryId} par ${adminId}`);
+
+  await deliverMerchantEvent(deliveryId);
+
+  return getMerchantDelivery(deliveryId);
+}
+
+export default {
+  MERCHANT_EVENT_TYPES,
+  MERCHANT_DELIVERY_STATUSES,
+  createSubscription,
+  listSubscriptions,
+  updateSubscription,
+  deleteSubscription,
+  emitMerchantEvent,
+  emitPaymentEvent,
+  deliverMerchantEvent,
+  processDueMerchantDeliveries,
+  listMerchantDeliveries,
+  getMerchantDelivery,
+  redeliverMerchantEvent,
+};
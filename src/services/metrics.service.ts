@@ -0,0 +1,234 @@
+/**
+ * Métriques Prometheus des opérations de paiement (exposées sur GET /metrics)
+ *
+ * - paiements initiés puis aboutis / échoués / expirés, par opérateur (taux de succès)
+ * - délai entre l'initiation et le statut final
+ * - appels Y-Note: latence et codes d'erreur par opération, renouvellements du token OAuth
+ * - callbacks reçus et issue de leur traitement
+ * - remboursements: nombre et montants
+ * - état du disjoncteur Y-Note et compteurs du cache des statuts (lus à chaque collecte)
+ *
+ * Les compteurs sont propres à l'instance: Prometheus les agrège entre instances.
+ */
+
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+import { PaymentStatus, RefundStatus } from "../types/payment.types";
+import { getStatusCacheStats } from "./status-cache.service";
+import { getYnoteCircuitState } from "./providers/ynote-client";
+
+const PREFIX = "payment_api_";
+
+const registry = new Registry();
+
+collectDefaultMetrics({ register: registry, prefix: PREFIX });
+
+// Issue d'un paiement telle que suivie par les alertes de taux de succès
+type PaymentOutcome = "initiated" | "succeeded" | "failed" | "expired";
+
+const PAYMENT_OUTCOMES: Partial<Record<PaymentStatus, PaymentOutcome>> = {
+  SUCCESSFUL: "succeeded",
+  FAILED: "failed",
+  EXPIRED: "expired",
+};
+
+const paymentsTotal = new Counter({
+  name: `${PREFIX}payments_total`,
+  help: "Paiements initiés et statuts finaux atteints, par opérateur",
+  labelNames: ["operator", "outcome"] as const,
+  registers: [registry],
+});
+
+const paymentSettlementSeconds = new Histogram({
+  name: `${PREFIX}payment_settlement_seconds`,
+  help: "Délai entre l'initiation d'un paiement et son statut final",
+  labelNames: ["operator", "outcome"] as const,
+  buckets: [5, 15, 30, 60, 120, 300, 600, 1800, 3600, 7200],
+  registers: [registry],
+});
+
+const ynoteRequestSeconds = new Histogram({
+  name: `${PREFIX}ynote_request_duration_seconds`,
+  help: "Latence des appels Y-Note par opération et statut HTTP (ou erreur réseau)",
+  labelNames: ["operation", "status"] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30],
+  registers: [registry],
+});
+
+const ynoteErrorsTotal = new Counter({
+  name: `${PREFIX}ynote_errors_total`,
+  help: "Erreurs Y-Note par opération: statut HTTP, erreur réseau, disjoncteur ouvert ou errorCode Y-Note",
+  labelNames: ["operation", "code"] as const,
+  registers: [registry],
+});
+
+const ynoteTokenRefreshesTotal = new Counter({
+  name: `${PREFIX}ynote_token_refreshes_total`,
+  help: "Renouvellements du token OAuth Y-Note",
+  labelNames: ["outcome"] as const,
+  registers: [registry],
+});
+
+const callbacksReceivedTotal = new Counter({
+  name: `${PREFIX}callbacks_received_total`,
+  help: "Callbacks fournisseur enregistrés dans la boîte de réception",
+  labelNames: ["provider", "kind", "duplicate"] as const,
+  registers: [registry],
+});
+
+const callbacksProcessedTotal = new Counter({
+  name: `${PREFIX}callbacks_processed_total`,
+  help: "Tentatives de traitement des callbacks (processed, retry, dead_letter)",
+  labelNames: ["kind", "outcome"] as const,
+  registers: [registry],
+});
+
+const refundsTotal = new Counter({
+  name: `${PREFIX}refunds_total`,
+  help: "Remboursements demandés puis aboutis ou échoués, par opérateur",
+  labelNames: ["operator", "status"] as const,
+  registers: [registry],
+});
+
+const refundAmountTotal = new Counter({
+  name: `${PREFIX}refund_amount_xaf_total`,
+  help: "Montants remboursés (FCFA) par opérateur et statut",
+  labelNames: ["operator", "status"] as const,
+  registers: [registry],
+});
+
+const CIRCUIT_STATE_VALUES = { CLOSED: 0, HALF_OPEN: 1, OPEN: 2 };
+
+new Gauge({
+  name: `${PREFIX}ynote_circuit_state`,
+  help: "État du disjoncteur Y-Note (0 fermé, 1 semi-ouvert, 2 ouvert)",
+  registers: [registry],
+  collect() {
+    this.set(CIRCUIT_STATE_VALUES[getYnoteCircuitState().state]);
+  },
+});
+
+new Counter({
+  name: `${PREFIX}status_cache_lookups_total`,
+  help: "Vérifications de statut: servies par le cache (hit, throttled, coalesced) ou par Y-Note (miss)",
+  labelNames: ["result"] as const,
+  registers: [registry],
+  collect() {
+    // Recopie des compteurs du cache (déjà cumulatifs)
+    const stats = getStatusCacheStats();
+    this.reset();
+    this.inc({ result: "hit" }, stats.hits);
+    this.inc({ result: "throttled" }, stats.throttled);
+    this.inc({ result: "coalesced" }, stats.coalesced);
+    this.inc({ result: "miss" }, stats.misses);
+  },
+});
+
+/**
+ * Transaction créée (avant l'appel au fournisseur: un refus compte comme failed)
+ */
+export function recordPaymentInitiated(operator: string): void {
+  paymentsTotal.inc({ operator, outcome: "initiated" });
+}
+
+/**
+ * Issue donnée par le fournisseur à une transaction en attente (ou expirée): seuls les
+ * statuts finaux sont comptés; une confirmation tardive après expiration compte à la fois
+ * expired et succeeded
+ * @param createdAt - Date de création de la transaction (délai jusqu'au statut final)
+ */
+export function recordPaymentOutcome(operator: string, status: PaymentStatus, createdAt?: Date): void {
+  const outcome = PAYMENT_OUTCOMES[status];
+  if (!outcome) {
+    return;
+  }
+
+  paymentsTotal.inc({ operator, outcome });
+
+  if (createdAt) {
+    paymentSettlementSeconds.observe({ operator, outcome }, (Date.now() - createdAt.getTime()) / 1000);
+  }
+}
+
+/**
+ * Appel HTTP Y-Note terminé (une observation par tentative)
+ * @param status - Statut HTTP, ou "timeout" / code d'erreur réseau sans réponse
+ */
+export function recordYnoteRequest(operation: string, status: string, durationMs: number): void {
+  ynoteRequestSeconds.observe({ operation, status }, durationMs / 1000);
+
+  if (!/^2\d\d$/.test(status)) {
+    ynoteErrorsTotal.inc({ operation, code: status });
+  }
+}
+
+/**
+ * Erreur Y-Note sans appel HTTP en échec: disjoncteur ouvert ou errorCode dans une réponse 200
+ */
+export function recordYnoteError(operation: string, code: string): void {
+  ynoteErrorsTotal.inc({ operation, code });
+}
+
+export function recordTokenRefresh(outcome: "success" | "failure"): void {
+  ynoteTokenRefreshesTotal.inc({ outcome });
+}
+
+export function recordCallbackReceived(provider: string, kind: string, duplicate: boolean): void {
+  callbacksReceivedTotal.inc({ provider, kind, duplicate: String(duplicate) });
+}
+
+export function recordCallbackProcessed(kind: string, outcome: "processed" | "retry" | "dead_letter"): void {
+  callbacksProcessedTotal.inc({ kind, outcome });
+}
+
+/**
+ * Remboursement demandé (status "requested") ou arrivé à un statut final
+ */
+export function recordRefund(operator: string, status: "requested" | RefundStatus, amount: number): void {
+  refundsTotal.inc({ operator, status });
+  refundAmountTotal.inc({ operator, status }, amount);
+}
+
+/**
+ * Totaux des compteurs du service, écrits dans les logs à
+ * l'arrêt: les incréments postérieurs au dernier scrape ne sont pas perdus
+ */
+export async function getMetricsSummary(): Promise<Record<string, number>> {
+  const counters = [
+    paymentsTotal,
+    ynoteErrorsTotal,
+    ynoteTokenRefreshesTotal,
+    callbacksReceivedTotal,
+    callbacksProcessedTotal,
+    refundsTotal,
+    refundAmountTotal,
+  ];
+
+  const totals = await Promise.all(
+    counters.map(async (counter) => {
+      const { name, values } = await counter.get();
+      return [name.slice(PREFIX.length), values.reduce((total, { value }) => total + value, 0)] as const;
+    })
+  );
+
+  return Object.fromEntries(totals);
+}
+
+/**
+ * Exposition au format texte Prometheus
+ */
+export async function getMetrics(): Promise<{ contentType: string; body: string }> {
+  return { contentType: registry.contentType, body: await registry.metrics() };
+}
+
+export default {
+  recordPaymentInitiated,
+  recordPaymentOutcome,
+  recordYnoteRequest,
+  recordYnoteError,
+  recordTokenRefresh,
+  recordCallbackReceived,
+  recordCallbackProcessed,
+  recordRefund,
+  getMetricsSummary,
+  getMetrics,
+};
@@ -0,0 +1,118 @@
+/**
+ * Historique des paiements d'un utilisateur
+ * Seules les transactions de l'utilisateur sont visibles; les réponses brutes du
+ * fournisseur et les champs internes ne sont jamais exposés, le numéro est masqué.
+ */
+
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS, YNOTE_CONFIG } from "../config/env";
+import { UserPaymentSummary } from "../types/payment.types";
+import { maskPhoneNumber } from "../utils/phone";
+import { resolveTransaction } from "./reference.service";
+import { assertTransactionAccess } from "./payment.service";
+import { NotFoundError, ValidationError } from "../utils/errors";
+
+/**
+ * Date Firestore en ISO (null si absente)
+ */
+function toIso(value: unknown): string | null {
+  return value instanceof admin.firestore.Timestamp ? value.toDate().toISOString() : null;
+}
+
+/**
+ * Projection d'une transaction pour son propriétaire (liste blanche de champs)
+ */
+export function toUserPayment(referenceId: string, data: FirebaseFirestore.DocumentData): UserPaymentSummary {
+  return {
+    referenceId,
+    campaignId: data.campaignId || null,
+    amount: Number(data.amount) || 0,
+    paidAmount: data.paidAmount ?? null,
+    refundedAmount: data.refundedAmount || 0,
+    currency: data.currency || YNOTE_CONFIG.currency,
+    operator: data.operator || null,
+    phoneNumber: data.phoneNumber ? maskPhoneNumber(data.phoneNumber) : null,
+    status: data.status || "CREATED",
+    financialTransactionId: data.financialTransactionId || null,
+    createdAt: toIso(data.createdAt),
+    updatedAt: toIso(data.updatedAt),
+  };
+}
+
+/**
+ * Liste les paiements d'un utilisateur, les plus récents d'abord
+ * Pagination par curseur: passer le nextCursor renvoyé pour obtenir la page suivante
+ * @throws ValidationError si le curseur n'est pas une transaction de l'utilisateur
+ */
+export async function listUserPayments(
+  userId: string,
+  options: { campaignId?: string; cursor?: string; limit?: number } = {}
+): Promise<{ payments: UserPaymentSummary[]; nextCursor: string | null }> {
+  const collection = admin.firestore().collection(FIRESTORE_COLLECTIONS.transactions);
+  let query: FirebaseFirestore.Query = collection.where("userId", "==", userId);
+
+  if (options.campaignId) {
+    query = query.where("campaignId", "==", options.campaignId);
+  }
+
+  query = query.orderBy("createdAt", "desc").orderBy(admin.firestore.FieldPath.documentId(), "desc");
+
+  if (options.cursor) {
+    const cursorDoc = await collection.doc(options.cursor).get();
+    if (!cursorDoc.exists || cursorDoc.data()?.userId !== userId) {
+      throw ValidationError.forField("cursor", "Curseur de pagination invalide");
+    }
+    query = query.startAfter(cursorDoc);
+  }
+
+  const limit = Math.min(Math.max(options.limit || 20, 1), 100);
+
+  // Un document de plus pour savoir s'il existe une page suivante
+  const snapshot = await query.limit(limit + 1).get();
+  const docs = snapshot.docs.slice(0, limit);
+
+  return {
+    payments: docs.map((doc) => toUserPayment(doc.id, doc.data())),
+    nextCursor: snapshot.docs.length > limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+/**
+ * Détail d'un paiement de l'utilisateur, avec l'historique de ses statuts
+ * @param referenceId - Notre référence, le MessageId fournisseur ou l'ID opérateur
+ * @throws NotFoundError si la transaction est introuvable, PermissionDeniedError si elle appartient
+ *   à un autre utilisateur
+ */
+export async function getUserPayment(
+  userId: string,
+  referenceId: string,
+  ip?: string
+): Promise<UserPaymentSummary & { statusHistory: { from: string | null; to: string; at: string | null }[] }> {
+  const transactionDoc = await resolveTransaction(referenceId);
+
+  if (!transactionDoc) {
+    throw new NotFoundError("Transaction introuvable");
+  }
+
+  await assertTransactionAccess(transactionDoc, userId, { ip, action: "payment_history" });
+
+  const data = transactionDoc.data() || {};
+
+  const history = await transactionDoc.ref.collection(FIRESTORE_COLLECTIONS.statusHistory).orderBy("createdAt").get();
+
+  return {
+    ...toUserPayment(transactionDoc.id, data),
+    // Origine et auteur des transitions: réservés aux administrateurs
+    statusHistory: history.docs.map((doc) => ({
+      from: doc.data().from || null,
+      to: doc.data().to,
+      at: toIso(doc.data().createdAt),
+    })),
+  };
+}
+
+export default {
+  toUserPayment,
+  listUserPayments,
+  getUserPayment,
+};
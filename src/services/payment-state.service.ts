@@ -0,0 +1,184 @@
+/**
+ * Machine à états des transactions de paiement
+ *
+ * Cycle de vie:
+ *   CREATED -> PENDING -> SUCCESSFUL -> REFUND_PENDING -> REFUNDED / PARTIALLY_REFUNDED
+ *                      -> FAILED | EXPIRED | CANCELLED
+ *   FAILED | EXPIRED -> SUCCESSFUL (succès confirmé par le fournisseur après coup)
+ *
+ * Tout changement de statut passe par transitionPayment: les transitions illégales
+ * (ex: un callback FAILED tardif sur une transaction SUCCESSFUL) sont refusées et
+ * chaque transition est historisée avec son origine (poll, callback, admin, reconciler).
+ */
+
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS } from "../config/env";
+import { PaymentStatus, PaymentTransitionSource } from "../types/payment.types";
+import logger from "../utils/logger";
+import { recordPaymentOutcome } from "./metrics.service";
+import { getRequestId } from "../utils/request-context";
+import { InvalidTransitionError, NotFoundError } from "../utils/errors";
+
+/**
+ * Transitions autorisées depuis chaque statut
+ */
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  // Une confirmation peut arriver avant l'enregistrement de la réponse d'initiation
+  CREATED: ["PENDING", "SUCCESSFUL", "FAILED", "CANCELLED"],
+  PENDING: ["SUCCESSFUL", "FAILED", "EXPIRED", "CANCELLED"],
+  // Le client a pu confirmer après l'expiration: l'argent a été débité
+  EXPIRED: ["SUCCESSFUL", "FAILED"],
+  SUCCESSFUL: ["REFUND_PENDING"],
+  // Un échec annoncé à tort (callback, statut transitoire) ne doit pas masquer un débit réel
+  FAILED: ["SUCCESSFUL"],
+  CANCELLED: [],
+  // Un remboursement échoué ou annulé ramène au statut d'origine
+  REFUND_PENDING: ["REFUNDED", "PARTIALLY_REFUNDED", "SUCCESSFUL"],
+  PARTIALLY_REFUNDED: ["REFUND_PENDING"],
+  REFUNDED: [],
+};
+
+export const PAYMENT_STATUSES = Object.keys(PAYMENT_TRANSITIONS) as PaymentStatus[];
+
+/**
+ * Indique si une transition est autorisée
+ */
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Un statut est "en attente" tant que le fournisseur n'a pas donné d'issue
+ */
+export function isAwaitingProvider(status: PaymentStatus): boolean {
+  return status === "CREATED" || status === "PENDING";
+}
+
+/**
+ * Enregistre une entrée d'historique dans un batch (création de la transaction)
+ */
+export function addInitialStatusToBatch(
+  batch: FirebaseFirestore.WriteBatch,
+  transactionRef: FirebaseFirestore.DocumentReference,
+  status: PaymentStatus,
+  source: PaymentTransitionSource,
+  actor?: string
+): void {
+  batch.set(transactionRef.collection(FIRESTORE_COLLECTIONS.statusHistory).doc(), {
+    from: null,
+    to: status,
+    source,
+    reason: null,
+    actor: actor || null,
+    requestId: getRequestId() || null,
+    createdAt: admin.firestore.Timestamp.now(),
+  });
+}
+
+/**
+ * Contexte d'un changement de statut
+ * updates: champs écrits avec le statut (identifiants, réponses fournisseur...)
+ */
+export interface TransitionContext {
+  source: PaymentTransitionSource;
+  reason?: string;
+  actor?: string;
+  updates?: Record<string, unknown>;
+}
+
+/**
+ * Applique un changement de statut dans une transaction Firestore déjà ouverte
+ * (pour les opérations qui écrivent d'autres documents atomiquement avec le statut)
+ * @param currentStatus - Statut lu dans cette même transaction Firestore
+ * @throws InvalidTransitionError si la transition est interdite, Error si le statut est inconnu
+ */
+export function transitionInTransaction(
+  tx: FirebaseFirestore.Transaction,
+  transactionRef: FirebaseFirestore.DocumentReference,
+  currentStatus: PaymentStatus | undefined,
+  to: PaymentStatus,
+  context: TransitionContext
+): { from: PaymentStatus; to: PaymentStatus; changed: boolean } {
+  if (!PAYMENT_STATUSES.includes(to)) {
+    throw new Error(`Statut de paiement inconnu: ${to}`);
+  }
+
+  // Transactions antérieures au cycle de vie: sans statut, considérées comme CREATED
+  const from: PaymentStatus = currentStatus || "CREATED";
+  const now = admin.firestore.Timestamp.now();
+
+  if (from === to) {
+    if (context.updates && Object.keys(context.updates).length > 0) {
+      tx.update(transactionRef, { ...context.updates, updatedAt: now });
+    }
+    return { from, to, changed: false };
+  }
+
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(`Transition de statut interdite: ${from} -> ${to}`);
+  }
+
+  tx.update(transactionRef, {
+    ...context.updates,
+    status: to,
+    updatedAt: now,
+  });
+
+  tx.set(transactionRef.collection(FIRESTORE_COLLECTIONS.statusHistory).doc(), {
+    from,
+    to,
+    source: context.source,
+    reason: context.reason || null,
+    actor: context.actor || null,
+    requestId: getRequestId() || null,
+    createdAt: now,
+  });
+
+  return { from, to, changed: true };
+}
+
+/**
+ * Applique un changement de statut à une transaction
+ * Un statut identique n'est pas une transition: seuls les champs additionnels sont écrits.
+ * @returns le statut précédent et si le statut a changé
+ * @throws InvalidTransitionError si la transition est interdite, Error si le statut est inconnu
+ */
+export async function transitionPayment(
+  transactionRef: FirebaseFirestore.DocumentReference,
+  to: PaymentStatus,
+  context: TransitionContext
+): Promise<{ from: PaymentStatus; to: PaymentStatus; changed: boolean }> {
+  let data: FirebaseFirestore.DocumentData | undefined;
+
+  const result = await admin.firestore().runTransaction(async (tx) => {
+    const doc = await tx.get(transactionRef);
+
+    if (!doc.exists) {
+      throw new NotFoundError("Transaction introuvable");
+    }
+
+    data = doc.data();
+    return transitionInTransaction(tx, transactionRef, data?.status, to, context);
+  });
+
+  if (result.changed) {
+    logger.info(`🔀 Transaction ${transactionRef.id}: ${result.from} -> ${result.to} (${context.source})`);
+
+    // Issue du paiement (pas les allers-retours liés aux remboursements)
+    if (isAwaitingProvider(result.from) || result.from === "EXPIRED") {
+      recordPaymentOutcome(data?.operator || "unknown", result.to, data?.createdAt?.toDate());
+    }
+  }
+
+  return result;
+}
+
+export default {
+  PAYMENT_TRANSITIONS,
+  PAYMENT_STATUSES,
+  canTransition,
+  isAwaitingProvider,
+  addInitialStatusToBatch,
+  transitionInTransaction,
+  transitionPayment,
+};
@@ -0,0 +1,153 @@
+/**
+ * Flux temps réel du statut d'un paiement (écran de paiement)
+ *
+ * Le flux écoute le document de la transaction dans Firestore: un statut appliqué par
+ * un callback, le réconciliateur ou un polling est poussé au client quelle que soit
+ * l'instance qui l'a traité. Sans changement de statut pendant fallbackPollSeconds
+ * (callback perdu ou en retard), le statut est demandé au fournisseur. Le flux se
+ * termine sur un statut final ou après maxDurationSeconds.
+ *
+ * Le transport (SSE ou WebSocket) ne fait que sérialiser les événements émis ici.
+ */
+
+import { PAYMENT_STREAM_CONFIG } from "../config/env";
+import { PaymentStatus, UserPaymentSummary } from "../types/payment.types";
+import { isAwaitingProvider } from "./payment-state.service";
+import { resolveTransaction } from "./reference.service";
+import { assertTransactionAccess, checkPaymentStatus } from "./payment.service";
+import { toUserPayment } from "./payment-history.service";
+import { NotFoundError } from "../utils/errors";
+import logger from "../utils/logger";
+
+/**
+ * Événement du flux
+ * - status: état de la transaction (envoyé à l'ouverture puis à chaque changement)
+ * - end: fin du flux (statut final atteint, durée maximale écoulée ou arrêt de l'instance:
+ *   le client se reconnecte)
+ * - error: le suivi de la transaction a échoué, le flux est fermé
+ */
+export type PaymentStreamEvent =
+  | { event: "status"; data: UserPaymentSummary }
+  | { event: "end"; data: { referenceId: string; status: PaymentStatus; reason: "final" | "timeout" | "shutdown" } }
+  | { event: "error"; data: { referenceId: string; error: string } };
+
+// Fin des flux ouverts sur cette instance (arrêt propre)
+const openStreams = new Set<() => void>();
+
+/**
+ * Ouvre le flux d'une transaction pour son propriétaire (ou un admin)
+ * @param referenceId - Notre référence, le MessageId fournisseur ou l'ID opérateur
+ * @param send - Appelé pour chaque événement; après "end" ou "error", plus aucun envoi
+ * @returns la fonction de fermeture (déconnexion du client), idempotente
+ * @throws NotFoundError si la transaction est introuvable, PermissionDeniedError si elle appartient
+ *   à un autre utilisateur
+ */
+export async function openPaymentStream(
+  referenceId: string,
+  userId: string,
+  requester: { isAdmin?: boolean; ip?: string },
+  send: (event: PaymentStreamEvent) => void
+): Promise<() => void> {
+  const transactionDoc = await resolveTransaction(referenceId);
+
+  if (!transactionDoc) {
+    throw new NotFoundError("Transaction introuvable");
+  }
+
+  await assertTransactionAccess(transactionDoc, userId, { ...requester, action: "payment_stream" });
+
+  const transactionId = transactionDoc.id;
+  let lastStatus: PaymentStatus | null = null;
+  let lastChangeAt = Date.now();
+  let polling = false;
+  let closed = false;
+
+  const timers: NodeJS.Timeout[] = [];
+  let unsubscribe: () => void = () => undefined;
+
+  const close = (): void => {
+    if (closed) {
+      return;
+    }
+
+    closed = true;
+    timers.forEach((timer) => clearInterval(timer));
+    unsubscribe();
+    openStreams.delete(endOnShutdown);
+  };
+
+  const finish = (event: PaymentStreamEvent): void => {
+    if (!closed) {
+      send(event);
+      close();
+    }
+  };
+
+  const endOnShutdown = (): void =>
+    finish({ event: "end", data: { referenceId: transactionId, status: lastStatus || "CREATED", reason: "shutdown" } });
+  openStreams.add(endOnShutdown);
+
+  unsubscribe = transactionDoc.ref.onSnapshot(
+    (snapshot) => {
+      const data = snapshot.data();
+      if (closed || !data || data.status === lastStatus) {
+        return;
+      }
+
+      lastStatus = data.status as PaymentStatus;
+      lastChangeAt = Date.now();
+      send({ event: "status", data: toUserPayment(transactionId, data) });
+
+      if (!isAwaitingProvider(lastStatus)) {
+        finish({ event: "end", data: { referenceId: transactionId, status: lastStatus, reason: "final" } });
+      }
+    },
+    (error) => {
+      logger.error(`❌ Erreur du flux de statut ${transactionId}`, { error: error.message });
+      finish({ event: "error", data: { referenceId: transactionId, error: "Suivi de la transaction interrompu" } });
+    }
+  );
+
+  // Polling de secours: le statut appliqué revient par l'écoute du document
+  timers.push(
+    setInterval(() => {
+      const silentMs = Date.now() - lastChangeAt;
+      if (closed || polling || silentMs < PAYMENT_STREAM_CONFIG.fallbackPollSeconds * 1000) {
+        return;
+      }
+
+      polling = true;
+      lastChangeAt = Date.now();
+      checkPaymentStatus(transactionId, userId, requester)
+        .catch((error: any) => logger.warn(`⚠️  Polling de secours ${transactionId} en échec`, { error: error.message }))
+        .finally(() => {
+          polling = false;
+        });
+    }, 1000)
+  );
+
+  timers.push(
+    setTimeout(() => {
+      finish({
+        event: "end",
+        data: { referenceId: transactionId, status: lastStatus || "CREATED", reason: "timeout" },
+      });
+    }, PAYMENT_STREAM_CONFIG.maxDurationSeconds * 1000)
+  );
+
+  logger.info(`📡 Flux de statut ouvert pour ${transactionId} (${userId})`);
+
+  return close;
+}
+
+/**
+ * Termine tous les flux ouverts (arrêt de l'instance)
+ */
+export function closeAllPaymentStreams(): void {
+  [...openStreams].forEach((end) => end());
+}
+
+export default {
+  openPaymentStream,
+  closeAllPaymentStreams,
+};
@@ -0,0 +1,1059 @@
+/**
+ * Service de paiement Mobile Money (MTN / Orange)
+ * Orchestration Firestore (transactions, campagnes, notifications) indépendante
+ * du fournisseur: les appels à l'agrégateur passent par le registre de fournisseurs
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import * as admin from "firebase-admin";
+import {
+  YNOTE_CONFIG,
+  PAYMENT_CONFIG,
+  CALLBACK_CONFIG,
+  OPERATOR_CONFIG,
+  FIRESTORE_COLLECTIONS,
+  WEBHOOK_SECURITY_CONFIG,
+  RECONCILER_CONFIG,
+} from "../config/env";
+import {
+  PaymentResponse,
+  PaymentStatusResponse,
+  InitiatePaymentRequest,
+  PaymentCallbackData,
+  PaymentOperator,
+  NormalizedYnoteStatus,
+  PaymentStatus,
+  PaymentTransitionSource,
+  ProviderPaymentStatus,
+  PaymentDiscrepancyRecord,
+  ResolveDiscrepancyRequest,
+} from "../types/payment.types";
+import { formatPhoneNumber, validatePhoneNumber } from "../utils/phone";
+import { getPaymentProvider } from "./providers/registry";
+import { computeAmountDue, detectAmountDiscrepancy } from "./pricing.service";
+import { indexReference, resolveTransaction } from "./reference.service";
+import { recordSecurityEvent } from "./audit.service";
+import { issueReceipt } from "./receipt.service";
+import { emitMerchantEvent, emitPaymentEvent } from "./merchant-webhook.service";
+import { getProviderPaymentStatus } from "./status-cache.service";
+import { addInitialStatusToBatch, isAwaitingProvider, transitionPayment } from "./payment-state.service";
+import { generateSecretToken, sha256 } from "../utils/crypto";
+import logger from "../utils/logger";
+import { getRequestId } from "../utils/request-context";
+import { recordPaymentInitiated } from "./metrics.service";
+import {
+  AmountMismatchError,
+  InvalidPhoneError,
+  InvalidStatusError,
+  InvalidTransitionError,
+  NotFoundError,
+  PaymentInProgressError,
+  PermissionDeniedError,
+  ProviderOutcomeUnknownError,
+  ValidationError,
+} from "../utils/errors";
+
+/**
+ * Initialise Firebase Admin SDK
+ */
+export function initializeFirebase(): void {
+  if (admin.apps.length === 0) {
+    // En production, utiliser les credentials du service account
+    // En dev, Firebase Admin peut utiliser l'émulateur ou les credentials par défaut
+    if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+      admin.initializeApp({
+        credential: admin.credential.applicationDefault(),
+      });
+    } else {
+      // Initialisation sans credentials pour les tests locaux
+      // Nécessite FIREBASE_AUTH_EMULATOR_HOST pour l'émulateur
+      admin.initializeApp({
+        projectId: process.env.FIREBASE_PROJECT_ID || "ilios-pub-c2eee",
+      });
+    }
+    logger.info("✅ Firebase Admin SDK initialisé");
+  }
+}
+
+/**
+ * Ferme Firestore et Firebase Admin SDK (arrêt du serveur)
+ */
+export async function closeFirebase(): Promise<void> {
+  await Promise.all(admin.apps.map((app) => app?.delete()));
+}
+
+/**
+ * Récupère l'instance Firestore
+ */
+export function getDb(): admin.firestore.Firestore {
+  return admin.firestore();
+}
+
+/**
+ * Initie un paiement Mobile Money (MTN ou Orange) via le fournisseur configuré
+ */
+export async function initiatePayment(
+  request: InitiatePaymentRequest,
+  userId: string
+): Promise<PaymentResponse> {
+  logger.info("💳 Initiation paiement Mobile Money", {
+    campaignId: request.campaignId,
+    operator: request.operator,
+    amount: request.amount,
+  });
+
+  const { campaignId, amount, phoneNumber, payerMessage } = request;
+
+  // Validation des paramètres (le montant est calculé depuis la campagne)
+  if (!campaignId || !phoneNumber) {
+    throw new ValidationError("Paramètres manquants: campaignId, phoneNumber requis");
+  }
+
+  // Valider le numéro et déterminer l'opérateur (choisi ou détecté)
+  const phoneValidation = validatePhoneNumber(phoneNumber, request.operator);
+  if (!phoneValidation.isValid || !phoneValidation.operator) {
+    throw new InvalidPhoneError(phoneValidation.error || "Numéro de téléphone invalide");
+  }
+
+  const operator = phoneValidation.operator;
+  const provider = getPaymentProvider();
+
+  if (!provider.capabilities.operators.includes(operator)) {
+    throw ValidationError.forField(
+      "operator",
+      `${OPERATOR_CONFIG[operator].label} n'est pas supporté par le fournisseur ${provider.name}`
+    );
+  }
+
+  const db = getDb();
+  const campaignRef = db.collection("campaigns").doc(campaignId);
+
+  // Générer un ID de référence unique
+  const referenceId = uuidv4();
+
+  // Marqueur d'initiation (write-ahead): posé avec le verrou, avancé à chaque étape et
+  // supprimé à la fin; s'il subsiste, l'instance s'est arrêtée en cours (recoverOrphanedInitiation)
+  const initiationRef = db.collection(FIRESTORE_COLLECTIONS.paymentInitiations).doc(referenceId);
+
+  // Vérifier la campagne et le montant, puis poser un verrou: un seul paiement en cours par campagne
+  const { campaignData, pricing } = await db.runTransaction(async (tx) => {
+    const campaignDoc = await tx.get(campaignRef);
+
+    // Vérifier que la campagne existe et appartient à l'utilisateur
+    if (!campaignDoc.exists) {
+      throw new NotFoundError("Campagne introuvable");
+    }
+
+    const data = campaignDoc.data();
+    if (data?.userId !== userId) {
+      throw new PermissionDeniedError("Cette campagne ne vous appartient pas");
+    }
+
+    if (data?.status !== "pending_payment") {
+      throw new InvalidStatusError("Cette campagne n'est pas en attente de paiement");
+    }
+
+    // Un paiement déjà reçu avec un écart de montant doit d'abord être tranché par un admin
+    if (data?.paymentReviewRequired) {
+      throw new InvalidStatusError(
+        `Un paiement de cette campagne est en cours de vérification (${data.paymentReferenceId})`
+      );
+    }
+
+    // Le montant dû est calculé côté serveur: celui du client doit correspondre
+    const amountDue = computeAmountDue(data);
+    if (amountDue.total < 100) {
+      throw ValidationError.forField("amount", "Le montant minimum est de 100 FCFA");
+    }
+
+    if (amount !== undefined && amount !== amountDue.total) {
+      throw new AmountMismatchError(`Montant incorrect: ${amountDue.total} FCFA attendus, ${amount} FCFA reçus`);
+    }
+
+    const lock = data?.paymentLock;
+    if (lock && lock.expiresAt.toMillis() > Date.now()) {
+      throw new PaymentInProgressError(`Un paiement est déjà en cours pour cette campagne (${lock.referenceId})`);
+    }
+
+    tx.update(campaignRef, {
+      paymentLock: {
+        referenceId,
+        expiresAt: admin.firestore.Timestamp.fromMillis(
+          Date.now() + PAYMENT_CONFIG.inFlightLockMinutes * 60 * 1000
+        ),
+      },
+    });
+
+    tx.set(initiationRef, {
+      referenceId,
+      campaignId,
+      userId,
+      operator,
+      stage: "locked",
+      requestId: getRequestId() || null,
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+
+    return { campaignData: data, pricing: amountDue };
+  });
+
+  const transactionRef = db.collection(FIRESTORE_COLLECTIONS.transactions).doc(referenceId);
+  let initiated = false;
+
+  try {
+    // Formater le numéro de téléphone avec le préfixe 237
+    const formattedPhone = formatPhoneNumber(phoneNumber);
+
+    logger.debug("📱 Numéro formaté", { phoneNumber: formattedPhone });
+
+    // Jeton secret propre à la transaction, vérifié à la réception du callback
+    const callbackToken = generateSecretToken();
+
+    // Enregistrer la transaction (CREATED) avant l'appel fournisseur:
+    // un callback arrivant très vite trouvera la transaction et son jeton
+    const batch = db.batch();
+    batch.set(transactionRef, {
+      referenceId,
+      campaignId,
+      userId,
+      amount: pricing.total,
+      pricing,
+      currency: YNOTE_CONFIG.currency,
+      phoneNumber: formattedPhone,
+      status: "CREATED",
+      operator,
+      provider: provider.name,
+      callbackTokenHash: sha256(callbackToken),
+      requestId: getRequestId() || null,
+      // Première vérification par le job de réconciliation si aucun callback n'arrive
+      reconcileAfter: admin.firestore.Timestamp.fromMillis(
+        Date.now() + RECONCILER_CONFIG.minCheckIntervalSeconds * 1000
+      ),
+      createdAt: admin.firestore.Timestamp.now(),
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+    addInitialStatusToBatch(batch, transactionRef, "CREATED", "initiation", userId);
+    batch.update(initiationRef, { stage: "recorded" });
+    await batch.commit();
+    recordPaymentInitiated(operator);
+
+    const result = await provider.initiatePayment({
+      referenceId,
+      amount: pricing.total,
+      currency: YNOTE_CONFIG.currency,
+      phoneNumber: formattedPhone,
+      operator,
+      description: payerMessage || `Paiement campagne Ilios: ${campaignData?.name || campaignId}`,
+      callbackUrl: `${CALLBACK_CONFIG.url}?token=${callbackToken}`,
+    });
+
+    initiated = true;
+
+    // MessageId du fournisseur (c'est cet ID qu'il faut utiliser pour vérifier le statut)
+    const providerReference = result.providerReference;
+    logger.info("✅ Paiement initié", { providerReference, referenceId });
+
+    await initiationRef.update({ stage: "submitted", providerReference });
+
+    await indexReference("provider", providerReference, referenceId);
+
+    const initiationUpdates = { providerReference, ynoteResponse: result.raw };
+    try {
+      const transition = await transitionPayment(transactionRef, result.status, {
+        source: "initiation",
+        updates: initiationUpdates,
+      });
+      if (transition.changed) {
+        await emitPaymentEvent(
+          referenceId,
+          { campaignId, userId, amount: pricing.total, currency: YNOTE_CONFIG.currency, operator, providerReference },
+          transition.to
+        );
+      }
+    } catch (transitionError: any) {
+      if (!(transitionError instanceof InvalidTransitionError)) {
+        throw transitionError;
+      }
+      // Un callback a déjà fait avancer la transaction: conserver la réponse d'initiation
+      await transactionRef.update(initiationUpdates);
+    }
+
+    // Mettre à jour la campagne avec la référence de transaction
+    await campaignRef.update({
+      paymentReferenceId: referenceId,
+      paymentProviderReference: providerReference,
+      paymentStatus: "PENDING",
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+
+    logger.info(`✅ Transaction ${referenceId} enregistrée pour campagne ${campaignId}`);
+
+    return {
+      success: true,
+      referenceId,
+      providerReference,
+      amount: pricing.total,
+      operator,
+      status: "PENDING",
+      message: "Paiement initié. Veuillez confirmer sur votre téléphone.",
+    };
+  } catch (error: any) {
+    logger.error("❌ Erreur initiation paiement", { error: error.message });
+
+    // Le push USSD a été envoyé: la transaction reste en attente d'une issue fournisseur
+    if (initiated) {
+      throw error;
+    }
+
+    // Demande restée sans réponse: le push USSD a pu partir, la réconciliation tranchera
+    // (transaction et verrou conservés: une nouvelle demande risquerait un double débit)
+    if (error instanceof ProviderOutcomeUnknownError) {
+      throw new ProviderOutcomeUnknownError(error.message, error.retryAfterSeconds, referenceId);
+    }
+
+    // Aucun paiement n'a été initié: transaction en échec et verrou libéré
+    await transitionPayment(transactionRef, "FAILED", { source: "initiation", reason: error.message })
+      .catch((transitionError: any) => {
+        // Transaction pas encore écrite: rien à marquer
+        if (!(transitionError instanceof NotFoundError)) {
+          logger.error("❌ Erreur mise à jour transaction", { error: transitionError.message });
+        }
+      });
+
+    await campaignRef
+      .update({ paymentLock: admin.firestore.FieldValue.delete() })
+      .catch((unlockError: any) => logger.error("❌ Erreur libération verrou", { error: unlockError.message }));
+
+    throw error;
+  } finally {
+    await initiationRef
+      .delete()
+      .catch((markerError: any) => logger.error("❌ Erreur suppression marqueur d'initiation", { error: markerError.message }));
+  }
+}
+
+/**
+ * Reprend une initiation interrompue par l'arrêt de son instance (marqueur orphelin)
+ * - transaction jamais écrite: le fournisseur n'a pas été appelé, le verrou de la campagne est libéré
+ * - réponse du fournisseur reçue (stage "submitted"): sa référence est enregistrée et
+ *   indexée, la campagne mise à jour
+ * - sinon le push USSD a pu partir: la transaction reste en attente
+ * Dans les deux derniers cas, la transaction est vérifiée dès le prochain passage du réconciliateur.
+ * @returns l'action effectuée
+ */
+export async function recoverOrphanedInitiation(
+  marker: FirebaseFirestore.DocumentData
+): Promise<"released" | "resumed" | "reconcile"> {
+  const db = getDb();
+  const referenceId: string = marker.referenceId;
+  const transactionRef = db.collection(FIRESTORE_COLLECTIONS.transactions).doc(referenceId);
+  const transactionDoc = await transactionRef.get();
+
+  if (!transactionDoc.exists) {
+    await releasePaymentLock(marker.campaignId, referenceId);
+    return "released";
+  }
+
+  const transactionData = transactionDoc.data() || {};
+  if (!isAwaitingProvider(transactionData.status)) {
+    return "reconcile";
+  }
+
+  await transactionRef.update({ reconcileAfter: admin.firestore.Timestamp.now() });
+
+  if (marker.stage !== "submitted" || !marker.providerReference) {
+    return "reconcile";
+  }
+
+  const providerReference: string = marker.providerReference;
+
+  if (!transactionData.providerReference) {
+    await transactionRef.update({ providerReference });
+  }
+  await indexReference("provider", providerReference, referenceId);
+
+  const campaignRef = db.collection("campaigns").doc(marker.campaignId);
+  await db.runTransaction(async (tx) => {
+    const campaignDoc = await tx.get(campaignRef);
+    if (campaignDoc.exists && campaignDoc.data()?.paymentLock?.referenceId === referenceId) {
+      tx.update(campaignRef, {
+        paymentReferenceId: referenceId,
+        paymentProviderReference: providerReference,
+        paymentStatus: "PENDING",
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+    }
+  });
+
+  return "resumed";
+}
+
+/**
+ * Libère le verrou de paiement d'une campagne quand la transaction est finalisée
+ */
+async function releasePaymentLock(campaignId: string, referenceId: string): Promise<void> {
+  const campaignRef = getDb().collection("campaigns").doc(campaignId);
+
+  await getDb().runTransaction(async (tx) => {
+    const campaignDoc = await tx.get(campaignRef);
+    if (campaignDoc.exists && campaignDoc.data()?.paymentLock?.referenceId === referenceId) {
+      tx.update(campaignRef, { paymentLock: admin.firestore.FieldValue.delete() });
+    }
+  });
+}
+
+/**
+ * Vérifie le statut d'un paiement auprès du fournisseur
+ * Réservé au propriétaire de la transaction (ou à un admin)
+ * @param referenceId - Notre référence, le MessageId fournisseur ou le financialTransactionId
+ * @throws NotFoundError si la transaction est introuvable, PermissionDeniedError si elle appartient
+ *   à un autre utilisateur
+ */
+export async function checkPaymentStatus(
+  referenceId: string,
+  userId: string,
+  requester: { isAdmin?: boolean; ip?: string } = {}
+): Promise<PaymentStatusResponse> {
+  logger.info("🔍 Vérification statut paiement", { referenceId, userId });
+
+  if (!referenceId) {
+    throw ValidationError.forField("referenceId", "referenceId requis");
+  }
+
+  // Retrouver la transaction (opérateur, fournisseur et identifiant fournisseur)
+  const transactionDoc = await resolveTransaction(referenceId);
+
+  if (!transactionDoc) {
+    throw new NotFoundError("Transaction introuvable");
+  }
+
+  // La campagne mise à jour est celle de la transaction: seul son propriétaire peut la déclencher
+  await assertTransactionAccess(transactionDoc, userId, { ...requester, action: "payment_status" });
+
+  try {
+    const transactionData = transactionDoc.data() || {};
+    const { status, observed } = await pollProviderStatus(transactionDoc, "poll", userId);
+
+    return {
+      success: true,
+      referenceId: transactionDoc.id,
+      providerReference: transactionData.providerReference,
+      operator: transactionData.operator || "mtn",
+      status,
+      amount: observed.amount?.toString(),
+      currency: YNOTE_CONFIG.currency,
+      financialTransactionId: observed.transactionId,
+      reason: observed.reason,
+    };
+  } catch (error: any) {
+    logger.error("❌ Erreur vérification statut", { error: error.message });
+    throw error;
+  }
+}
+
+/**
+ * Vérifie qu'un utilisateur peut consulter une transaction (propriétaire ou admin)
+ * Les refus sont enregistrés dans le journal d'audit sécurité.
+ * @throws PermissionDeniedError si la transaction appartient à un autre utilisateur
+ */
+export async function assertTransactionAccess(
+  transactionDoc: FirebaseFirestore.DocumentSnapshot,
+  userId: string,
+  requester: { isAdmin?: boolean; ip?: string; action: string }
+): Promise<void> {
+  if (requester.isAdmin || transactionDoc.data()?.userId === userId) {
+    return;
+  }
+
+  await recordSecurityEvent({
+    type: "transaction_access_denied",
+    reason: "Accès à la transaction d'un autre utilisateur",
+    ip: requester.ip,
+    referenceId: transactionDoc.id,
+    userId,
+    details: { action: requester.action },
+  });
+
+  throw new PermissionDeniedError("Accès refusé: cette transaction appartient à un autre utilisateur");
+}
+
+/**
+ * Interroge le fournisseur sur le statut d'une transaction et l'applique
+ * @returns le statut de la transaction et la réponse normalisée du fournisseur
+ */
+async function pollProviderStatus(
+  transactionDoc: FirebaseFirestore.DocumentSnapshot,
+  source: PaymentTransitionSource,
+  userId?: string
+): Promise<{ status: PaymentStatus; observed: NormalizedYnoteStatus }> {
+  const transactionData = transactionDoc.data() || {};
+  const provider = getPaymentProvider(transactionData.provider);
+
+  const { raw, ...observed } = await getProviderPaymentStatus(provider, {
+    referenceId: transactionDoc.id,
+    providerReference: transactionData.providerReference,
+    operator: transactionData.operator || "mtn",
+  });
+
+  const status = await applyProviderStatus(
+    transactionDoc,
+    {
+      status: observed.status,
+      amount: observed.amount,
+      financialTransactionId: observed.transactionId,
+      reason: observed.reason,
+    },
+    { source, updates: { ynoteStatusResponse: raw }, updatedBy: userId }
+  );
+
+  return { status, observed };
+}
+
+/**
+ * Réconcilie une transaction restée en attente (job de réconciliation)
+ * Le statut est redemandé au fournisseur; si la transaction a dépassé le délai
+ * d'expiration sans issue, elle passe en EXPIRED avec les mêmes effets qu'un échec.
+ * @param options.expire - La transaction a dépassé PAYMENT_EXPIRE_AFTER_MINUTES
+ * @returns le statut après réconciliation
+ */
+export async function reconcileTransaction(
+  transactionDoc: FirebaseFirestore.DocumentSnapshot,
+  options: { expire: boolean }
+): Promise<PaymentStatus> {
+  let status: PaymentStatus = transactionDoc.data()?.status || "CREATED";
+
+  try {
+    const polled = await pollProviderStatus(transactionDoc, "reconciler");
+    status = polled.status;
+  } catch (error: any) {
+    // Fournisseur injoignable: on retentera, sauf si la transaction doit expirer
+    if (!options.expire) {
+      throw error;
+    }
+    logger.warn(`⚠️  Statut fournisseur indisponible pour ${transactionDoc.id}, expiration`, { error: error.message });
+  }
+
+  if (!options.expire || !isAwaitingProvider(status)) {
+    return status;
+  }
+
+  const transactionData = transactionDoc.data() || {};
+  const transition = await transitionPayment(transactionDoc.ref, "EXPIRED", {
+    source: "reconciler",
+    reason: `Aucune confirmation après ${RECONCILER_CONFIG.expireAfterMinutes} minutes`,
+  });
+
+  if (transition.changed && transactionData.campaignId) {
+    await releasePaymentLock(transactionData.campaignId, transactionDoc.id);
+    await handleFailedPayment(transactionData.campaignId, transactionData, "EXPIRED");
+  }
+
+  if (transition.changed) {
+    await emitPaymentEvent(transactionDoc.id, transactionData, "EXPIRED", {
+      reason: `Aucune confirmation après ${RECONCILER_CONFIG.expireAfterMinutes} minutes`,
+    });
+  }
+
+  return "EXPIRED";
+}
+
+/**
+ * Applique un statut rapporté par le fournisseur (polling ou callback) à une transaction
+ * Partagé par checkPaymentStatus et handleCallback: même machine à états, mêmes effets.
+ * Un statut qui contredit une issue déjà connue (transition interdite) est ignoré.
+ * La campagne affectée est toujours celle enregistrée sur la transaction.
+ * @returns le statut de la transaction après application
+ */
+async function applyProviderStatus(
+  transactionDoc: FirebaseFirestore.DocumentSnapshot,
+  observed: {
+    status: ProviderPaymentStatus;
+    amount?: number;
+    financialTransactionId?: string;
+    reason?: string;
+  },
+  context: {
+    source: PaymentTransitionSource;
+    updates: Record<string, unknown>;
+    updatedBy?: string;
+  }
+): Promise<PaymentStatus> {
+  const transactionData = transactionDoc.data() || {};
+  const campaignId: string | undefined = transactionData.campaignId;
+  const { financialTransactionId } = observed;
+
+  let transition: { from: PaymentStatus; to: PaymentStatus; changed: boolean };
+  try {
+    transition = await transitionPayment(transactionDoc.ref, observed.status, {
+      source: context.source,
+      reason: observed.reason,
+      updates: {
+        ...(financialTransactionId ? { financialTransactionId } : {}),
+        ...context.updates,
+      },
+    });
+  } catch (error: any) {
+    if (!(error instanceof InvalidTransitionError)) {
+      throw error;
+    }
+
+    logger.warn(`⚠️  Statut ${observed.status} ignoré pour ${transactionDoc.id} (${context.source}): ${error.message}`);
+    const current = await transactionDoc.ref.get();
+    return current.data()?.status;
+  }
+
+  await indexReference("financial", financialTransactionId, transactionDoc.id);
+
+  logger.info(`✅ Transaction ${transactionDoc.id} mise à jour: ${transition.to}`);
+
+  if (!isAwaitingProvider(transition.to) && transactionData.campaignId) {
+    await releasePaymentLock(transactionData.campaignId, transactionDoc.id);
+  }
+
+  // Si le paiement est réussi, mettre à jour la campagne (après contrôle du montant).
+  // Rejoué sans changement de statut: handleSuccessfulPayment est idempotent.
+  if (transition.to === "SUCCESSFUL" && campaignId) {
+    await handleSuccessfulPayment(
+      campaignId,
+      transactionDoc,
+      {
+        amount: observed.amount,
+        transactionId: financialTransactionId,
+        late: transition.changed && (transition.from === "FAILED" || transition.from === "EXPIRED"),
+      },
+      context.updatedBy || transactionData.userId
+    );
+  } else if (transition.to === "FAILED" && transition.changed && campaignId) {
+    await handleFailedPayment(campaignId, transactionData);
+  }
+
+  // Webhooks marchands: un événement par changement de statut (pas sur les rejeux)
+  if (transition.changed) {
+    await emitPaymentEvent(transactionDoc.id, transactionData, transition.to, {
+      paidAmount: transition.to === "SUCCESSFUL" ? observed.amount ?? transactionData.amount : undefined,
+      financialTransactionId,
+      reason: observed.reason,
+    });
+  }
+
+  return transition.to;
+}
+
+/**
+ * Gère un paiement échoué ou expiré - notifie l'utilisateur et met à jour la campagne
+ */
+async function handleFailedPayment(
+  campaignId: string,
+  transactionData: FirebaseFirestore.DocumentData,
+  status: "FAILED" | "EXPIRED" = "FAILED"
+): Promise<void> {
+  const db = getDb();
+  const operator: PaymentOperator = transactionData.operator || "mtn";
+  const label = OPERATOR_CONFIG[operator].label;
+
+  // Notifier l'utilisateur de l'échec
+  await db.collection("notifications").add({
+    recipientId: transactionData.userId,
+    recipientType: "user",
+    campaignId,
+    type: status === "EXPIRED" ? "payment_expired" : "payment_failed",
+    message:
+      status === "EXPIRED"
+        ? `Le paiement ${label} de ${transactionData.amount} FCFA n'a pas été confirmé à temps. Veuillez réessayer.`
+        : `Le paiement ${label} de ${transactionData.amount} FCFA a échoué. Veuillez réessayer.`,
+    createdAt: admin.firestore.Timestamp.now(),
+    isRead: false,
+  });
+
+  // Mettre à jour le statut de la campagne
+  await db.collection("campaigns").doc(campaignId).update({
+    paymentStatus: status,
+    updatedAt: admin.firestore.Timestamp.now(),
+  });
+}
+
+/**
+ * Gère un paiement réussi - contrôle le montant payé, puis met à jour la campagne,
+ * crée une notification et émet le reçu. En cas de sous-paiement ou de sur-paiement, la campagne
+ * n'est pas planifiée et l'écart est enregistré pour revue admin.
+ * paid.late: succès d'un paiement échoué ou expiré, écarté (revue admin) si un paiement plus
+ * récent a été initié pour la campagne
+ */
+async function handleSuccessfulPayment(
+  campaignId: string,
+  transactionDoc: FirebaseFirestore.DocumentSnapshot,
+  paid: { amount?: number; transactionId?: string; late?: boolean },
+  updatedBy?: string
+): Promise<void> {
+  const db = getDb();
+  const transactionData = transactionDoc.data() || {};
+  const referenceId = transactionDoc.id;
+  const operator: PaymentOperator = transactionData.operator || "mtn";
+  const expectedAmount: number = transactionData.amount;
+  const paidAmount = paid.amount ?? expectedAmount;
+
+  const campaignRef = db.collection("campaigns").doc(campaignId);
+
+  // Succès tardif déjà écarté (rejeu du callback ou du polling): décision laissée à l'admin
+  if (transactionData.supersededBy) {
+    return;
+  }
+
+  if (paid.late && (await flagSupersededPayment(campaignRef, transactionDoc.ref, paidAmount))) {
+    return;
+  }
+
+  const campaignDoc = await campaignRef.get();
+
+  if (!campaignDoc.exists || campaignDoc.data()?.status !== "pending_payment") {
+    return;
+  }
+
+  const campaignData = campaignDoc.data();
+
+  // Écart déjà signalé pour ce paiement (callback et polling peuvent se croiser)
+  if (campaignData?.paymentReviewRequired && campaignData?.paymentReferenceId === referenceId) {
+    return;
+  }
+
+  const discrepancy = detectAmountDiscrepancy(expectedAmount, paid.amount);
+
+  if (discrepancy) {
+    // Écart déjà tranché par un admin (rejeu du callback ou du polling): décision conservée
+    const existing = await db.collection(FIRESTORE_COLLECTIONS.discrepancies).doc(referenceId).get();
+    if (existing.data()?.status === "RESOLVED") {
+      return;
+    }
+
+    logger.warn(`⚠️  Écart de paiement ${referenceId}`, { discrepancy });
+
+    await transactionDoc.ref.update({
+      paidAmount,
+      amountDiscrepancy: discrepancy,
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+
+    // Un seul enregistrement par transaction (callback et polling peuvent se croiser)
+    await db.collection(FIRESTORE_COLLECTIONS.discrepancies).doc(referenceId).set({
+      ...discrepancy,
+      referenceId,
+      campaignId,
+      userId: transactionData.userId,
+      financialTransactionId: paid.transactionId || null,
+      status: "OPEN",
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+
+    // Bloque toute nouvelle initiation jusqu'à la décision d'un admin (resolvePaymentDiscrepancy)
+    await campaignRef.update({
+      paymentMethod: operator,
+      paymentAmount: paidAmount,
+      paymentStatus: "SUCCESSFUL",
+      paymentReferenceId: referenceId,
+      paymentTransactionId: paid.transactionId || referenceId,
+      paymentReviewRequired: true,
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+
+    await db.collection("notifications").add({
+      recipientId: "admin",
+      recipientType: "admin",
+      campaignId,
+      type: "payment_discrepancy",
+      message: `Écart de paiement (${discrepancy.type}) sur la transaction ${referenceId}: ${discrepancy.expected} FCFA attendus, ${discrepancy.paid} FCFA reçus.`,
+      createdAt: admin.firestore.Timestamp.now(),
+      isRead: false,
+    });
+
+    await db.collection("notifications").add({
+      recipientId: campaignData?.userId,
+      recipientType: "user",
+      campaignId,
+      type: "payment_under_review",
+      message: `Le montant reçu (${discrepancy.paid} FCFA) ne correspond pas au montant dû (${discrepancy.expected} FCFA). Votre paiement est en cours de vérification.`,
+      createdAt: admin.firestore.Timestamp.now(),
+      isRead: false,
+    });
+    return;
+  }
+
+  await transactionDoc.ref.update({
+    paidAmount,
+    updatedAt: admin.firestore.Timestamp.now(),
+  });
+
+  await scheduleCampaign(campaignRef, campaignData, transactionData, referenceId, {
+    paidAmount,
+    transactionId: paid.transactionId,
+    updatedBy: updatedBy || campaignData?.userId,
+  });
+}
+
+/**
+ * Écarte le succès tardif d'un paiement si la campagne a un paiement plus récent (verrou
+ * d'un paiement en cours ou dernière référence enregistrée): la transaction est signalée
+ * pour revue admin (remboursement probable) sans toucher à la campagne
+ * @returns true si le paiement a été écarté
+ */
+async function flagSupersededPayment(
+  campaignRef: FirebaseFirestore.DocumentReference,
+  transactionRef: FirebaseFirestore.DocumentReference,
+  paidAmount: number
+): Promise<boolean> {
+  const db = getDb();
+  const referenceId = transactionRef.id;
+
+  const latestReferenceId = await db.runTransaction(async (tx) => {
+    const campaign = (await tx.get(campaignRef)).data();
+    const latest: string | undefined = campaign?.paymentLock?.referenceId || campaign?.paymentReferenceId;
+
+    if (!latest || latest === referenceId) {
+      return null;
+    }
+
+    tx.update(transactionRef, {
+      paidAmount,
+      supersededBy: latest,
+      reviewRequired: true,
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+    return latest;
+  });
+
+  if (!latestReferenceId) {
+    return false;
+  }
+
+  logger.warn(`⚠️  Succès tardif de ${referenceId} écarté: paiement plus récent ${latestReferenceId}`);
+
+  await db.collection("notifications").add({
+    recipientId: "admin",
+    recipientType: "admin",
+    campaignId: campaignRef.id,
+    type: "payment_superseded",
+    message: `Le paiement ${referenceId} (${paidAmount} FCFA) a réussi après son échec alors qu'un paiement plus récent (${latestReferenceId}) existe pour la campagne: à vérifier, remboursement probable.`,
+    createdAt: admin.firestore.Timestamp.now(),
+    isRead: false,
+  });
+
+  return true;
+}
+
+/**
+ * Planifie une campagne payée: mise à jour, événement marchand, notification et reçu
+ * Utilisé à la confirmation d'un paiement et à l'acceptation d'un écart par un admin.
+ */
+async function scheduleCampaign(
+  campaignRef: FirebaseFirestore.DocumentReference,
+  campaignData: FirebaseFirestore.DocumentData | undefined,
+  transactionData: FirebaseFirestore.DocumentData,
+  referenceId: string,
+  paid: { paidAmount: number; transactionId?: string; updatedBy?: string }
+): Promise<void> {
+  const db = getDb();
+  const campaignId = campaignRef.id;
+  const operator: PaymentOperator = transactionData.operator || "mtn";
+  const { paidAmount } = paid;
+
+  await campaignRef.update({
+    status: "scheduled",
+    paymentMethod: operator,
+    paymentAmount: paidAmount,
+    paidAt: admin.firestore.Timestamp.now(),
+    paymentStatus: "SUCCESSFUL",
+    paymentTransactionId: paid.transactionId || referenceId,
+    paymentReviewRequired: admin.firestore.FieldValue.delete(),
+    updatedAt: admin.firestore.Timestamp.now(),
+    updatedBy: paid.updatedBy || campaignData?.userId,
+  });
+
+  logger.info(`✅ Campagne ${campaignId} mise à jour vers scheduled`);
+
+  await emitMerchantEvent("campaign.scheduled", {
+    campaignId,
+    referenceId,
+    userId: campaignData?.userId || transactionData.userId || null,
+    paidAmount,
+    currency: transactionData.currency || YNOTE_CONFIG.currency,
+    operator,
+  });
+
+  // Créer une notification pour l'utilisateur
+  await db.collection("notifications").add({
+    recipientId: campaignData?.userId,
+    recipientType: "user",
+    campaignId,
+    type: "payment_success",
+    message: `Paiement ${OPERATOR_CONFIG[operator].label} de ${paidAmount} FCFA confirmé pour votre campagne.`,
+    createdAt: admin.firestore.Timestamp.now(),
+    isRead: false,
+  });
+
+  // Un échec d'émission ne remet pas en cause le paiement: le reçu est émis à la demande
+  try {
+    await issueReceipt(referenceId);
+  } catch (error: any) {
+    logger.error(`❌ Erreur émission du reçu ${referenceId}`, { error: error.message });
+  }
+}
+
+/**
+ * Traite le callback d'un fournisseur (MTN ou Orange)
+ * Un statut final (SUCCESSFUL ou FAILED) n'est cru qu'après confirmation par l'API de statut
+ * du fournisseur (WEBHOOK_VERIFY_WITH_PROVIDER)
+ * @param providerName - Fournisseur ayant émis le callback (ex: "ynote")
+ */
+export async function handleCallback(
+  callbackData: PaymentCallbackData,
+  providerName?: string
+): Promise<void> {
+  logger.info("📨 Callback fournisseur reçu", { callback: callbackData });
+
+  const parsed = getPaymentProvider(providerName).parseCallback(callbackData);
+  const { referenceId } = parsed;
+  let { status, financialTransactionId, amount } = parsed;
+
+  if (!referenceId) {
+    throw ValidationError.forField("referenceId", "referenceId manquant dans le callback");
+  }
+
+  // Récupérer la transaction (order_id = notre référence, sinon via l'index secondaire)
+  const transactionDoc = await resolveTransaction(referenceId);
+
+  if (!transactionDoc) {
+    logger.error(`❌ Transaction ${referenceId} introuvable`);
+    throw new NotFoundError("Transaction introuvable");
+  }
+
+  const transactionData = transactionDoc.data();
+  const operator: PaymentOperator = transactionData?.operator || "mtn";
+
+  // Contre-vérifier tout succès ou échec annoncé auprès de l'API de statut du fournisseur
+  if ((status === "SUCCESSFUL" || status === "FAILED") && WEBHOOK_SECURITY_CONFIG.verifyWithProvider) {
+    // Hors cache: le dernier polling a pu voir PENDING juste avant le succès
+    const confirmation = await getProviderPaymentStatus(
+      getPaymentProvider(transactionData?.provider),
+      { referenceId: transactionDoc.id, providerReference: transactionData?.providerReference, operator },
+      { fresh: true }
+    );
+
+    if (confirmation.status !== status) {
+      await recordSecurityEvent({
+        type: "callback_unconfirmed",
+        reason: `Callback ${status} non confirmé par l'API de statut (${confirmation.status})`,
+        referenceId: transactionDoc.id,
+        details: { callbackData, providerStatus: confirmation.raw },
+      });
+    }
+
+    // Le statut et les montants de l'API de statut font foi
+    status = confirmation.status;
+    amount = confirmation.amount ?? amount;
+    financialTransactionId = confirmation.transactionId || financialTransactionId;
+  }
+
+  await applyProviderStatus(
+    transactionDoc,
+    { status, amount, financialTransactionId },
+    { source: "callback", updates: { callbackData } }
+  );
+}
+
+/**
+ * Tranche un écart de paiement (admin) et débloque la campagne
+ * - accept: la campagne est planifiée avec le montant reçu (reçu émis)
+ * - reject: la campagne redevient payable; le montant reçu est à rembourser
+ *   (POST /api/payments/refund)
+ * @throws NotFoundError si aucun écart n'est enregistré pour la transaction
+ * @throws InvalidStatusError si l'écart est déjà tranché ou la campagne plus en attente de paiement
+ * @returns l'écart tranché (dates ISO)
+ */
+export async function resolvePaymentDiscrepancy(
+  referenceId: string,
+  request: ResolveDiscrepancyRequest,
+  adminId: string
+): Promise<Record<string, unknown>> {
+  const db = getDb();
+  const discrepancyRef = db.collection(FIRESTORE_COLLECTIONS.discrepancies).doc(referenceId);
+
+  // Transaction Firestore: deux admins ne peuvent pas trancher le même écart
+  const { discrepancy, campaignData } = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(discrepancyRef);
+    const data = doc.data() as PaymentDiscrepancyRecord | undefined;
+
+    if (!doc.exists || !data) {
+      throw new NotFoundError("Écart de paiement introuvable");
+    }
+
+    if (data.status !== "OPEN") {
+      throw new InvalidStatusError(`Écart de paiement déjà tranché (${data.resolution})`);
+    }
+
+    const campaignDoc = await tx.get(db.collection("campaigns").doc(data.campaignId));
+    if (campaignDoc.data()?.status !== "pending_payment") {
+      throw new InvalidStatusError("La campagne n'est plus en attente de paiement");
+    }
+
+    const resolution = {
+      status: "RESOLVED" as const,
+      resolution: request.decision === "accept" ? ("ACCEPTED" as const) : ("REJECTED" as const),
+      resolutionNote: request.note || null,
+      resolvedBy: adminId,
+      resolvedAt: admin.firestore.Timestamp.now(),
+    };
+
+    tx.update(discrepancyRef, resolution);
+    return { discrepancy: { ...data, ...resolution }, campaignData: campaignDoc.data() };
+  });
+
+  const campaignRef = db.collection("campaigns").doc(discrepancy.campaignId);
+  const transactionDoc = await db.collection(FIRESTORE_COLLECTIONS.transactions).doc(referenceId).get();
+
+  if (discrepancy.resolution === "ACCEPTED") {
+    await scheduleCampaign(campaignRef, campaignData, transactionDoc.data() || {}, referenceId, {
+      paidAmount: discrepancy.paid,
+      transactionId: discrepancy.financialTransactionId || undefined,
+      updatedBy: adminId,
+    });
+  } else {
+    await campaignRef.update({
+      paymentReviewRequired: admin.firestore.FieldValue.delete(),
+      paymentStatus: admin.firestore.FieldValue.delete(),
+      paymentAmount: admin.firestore.FieldValue.delete(),
+      paymentTransactionId: admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.Timestamp.now(),
+      updatedBy: adminId,
+    });
+
+    await db.collection("notifications").add({
+      recipientId: discrepancy.userId,
+      recipientType: "user",
+      campaignId: discrepancy.campaignId,
+      type: "payment_rejected",
+      message: `Le paiement de ${discrepancy.paid} FCFA ne correspond pas au montant dû (${discrepancy.expected} FCFA): il vous sera remboursé. Vous pouvez effectuer un nouveau paiement.`,
+      createdAt: admin.firestore.Timestamp.now(),
+      isRead: false,
+    });
+  }
+
+  logger.info(`🧾 Écart de paiement ${referenceId} tranché: ${discrepancy.resolution}`, { adminId });
+
+  return {
+    ...discrepancy,
+    createdAt: discrepancy.createdAt.toDate().toISOString(),
+    resolvedAt: discrepancy.resolvedAt.toDate().toISOString(),
+  };
+}
+
+export default {
+  initializeFirebase,
+  closeFirebase,
+  getDb,
+  initiatePayment,
+  recoverOrphanedInitiation,
+  checkPaymentStatus,
+  assertTransactionAccess,
+  reconcileTransaction,
+  handleCallback,
+  resolvePaymentDiscrepancy,
+};
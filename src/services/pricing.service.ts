@@ -0,0 +1,81 @@
+/**
+ * Service de tarification
+ * Calcule le montant dû d'une campagne et contrôle les montants payés
+ */
+
+import { PRICING_CONFIG } from "../config/env";
+import { AmountDiscrepancy, Campaign, PaymentPricing } from "../types/payment.types";
+import { InvalidStatusError } from "../utils/errors";
+
+/**
+ * Arrondit un montant XAF (pas de centimes)
+ */
+function roundXaf(amount: number): number {
+  return Math.round(amount);
+}
+
+/**
+ * Calcule le montant dû pour une campagne
+ * totalPrice est le prix hors remise et hors taxes; la remise (montant fixe ou
+ * pourcentage) est appliquée avant la taxe (taux de la campagne ou PAYMENT_TAX_RATE)
+ * @throws InvalidStatusError si la campagne n'a pas de prix valide
+ */
+export function computeAmountDue(campaign: Partial<Campaign>): PaymentPricing {
+  const subtotal = Number(campaign.totalPrice);
+
+  if (!Number.isFinite(subtotal) || subtotal <= 0) {
+    throw new InvalidStatusError("Prix de la campagne manquant ou invalide");
+  }
+
+  let discount = 0;
+  if (campaign.discountAmount) {
+    discount = Number(campaign.discountAmount);
+  } else if (campaign.discountPercent) {
+    discount = (subtotal * Number(campaign.discountPercent)) / 100;
+  }
+  discount = roundXaf(Math.min(Math.max(discount, 0), subtotal));
+
+  const taxRate = campaign.taxRate ?? PRICING_CONFIG.taxRate;
+  const taxableAmount = subtotal - discount;
+  const tax = roundXaf(taxableAmount * taxRate);
+
+  return {
+    subtotal: roundXaf(subtotal),
+    discount,
+    taxRate,
+    tax,
+    total: roundXaf(taxableAmount) + tax,
+  };
+}
+
+/**
+ * Compare le montant payé au montant attendu
+ * @returns null si le montant est correct (à la tolérance près), sinon l'écart constaté
+ */
+export function detectAmountDiscrepancy(
+  expected: number,
+  paid: number | undefined
+): AmountDiscrepancy | null {
+  // Montant non communiqué par le fournisseur: rien à comparer
+  if (paid === undefined || !Number.isFinite(paid)) {
+    return null;
+  }
+
+  const difference = paid - expected;
+
+  if (Math.abs(difference) <= PRICING_CONFIG.amountTolerance) {
+    return null;
+  }
+
+  return {
+    type: difference < 0 ? "UNDERPAYMENT" : "OVERPAYMENT",
+    expected,
+    paid,
+    difference,
+  };
+}
+
+export default {
+  computeAmountDue,
+  detectAmountDiscrepancy,
+};
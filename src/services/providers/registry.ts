@@ -0,0 +1,49 @@
+/**
+ * Registre des fournisseurs de paiement
+ * Le fournisseur actif est choisi par la configuration (PAYMENT_PROVIDER)
+ */
+
+import { PAYMENT_CONFIG } from "../../config/env";
+import { PaymentProvider } from "../../types/payment.types";
+import ynoteProvider from "./ynote.provider";
+import { UnknownProviderError } from "../../utils/errors";
+
+const providers = new Map<string, PaymentProvider>();
+
+/**
+ * Enregistre (ou remplace) un fournisseur de paiement
+ * Permet aussi d'injecter un faux fournisseur pour les tests
+ */
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Retourne un fournisseur par son nom (par défaut le fournisseur configuré)
+ * @throws UnknownProviderError si le fournisseur n'est pas enregistré
+ */
+export function getPaymentProvider(name: string = PAYMENT_CONFIG.provider): PaymentProvider {
+  const provider = providers.get(name);
+
+  if (!provider) {
+    throw new UnknownProviderError(name);
+  }
+
+  return provider;
+}
+
+/**
+ * Liste les noms des fournisseurs enregistrés
+ */
+export function listPaymentProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+// Fournisseurs intégrés
+registerPaymentProvider(ynoteProvider);
+
+export default {
+  registerPaymentProvider,
+  getPaymentProvider,
+  listPaymentProviders,
+};
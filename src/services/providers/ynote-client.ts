@@ -0,0 +1,290 @@
+/**
+ * Client HTTP partagé des appels Y-Note
+ *
+ * - délai propre à chaque appel (plus de requête bloquée indéfiniment)
+ * - retentatives des seuls appels idempotents (token, statuts) sur 429, 5xx, délai dépassé
+ *   et erreur réseau, avec backoff exponentiel et jitter; Retry-After est respecté
+ * - une demande de paiement ou de versement n'est jamais renvoyée: sans réponse, son issue
+ *   est inconnue et doit être tranchée par la réconciliation (pas de double débit)
+ * - l'identifiant de corrélation de la requête en cours est transmis (X-Request-Id)
+ * - disjoncteur: après YNOTE_BREAKER_FAILURE_THRESHOLD échecs consécutifs, les appels
+ *   échouent immédiatement pendant YNOTE_BREAKER_OPEN_SECONDS, puis une seule requête
+ *   de test décide de la fermeture
+ */
+
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import { YNOTE_HTTP_CONFIG } from "../../config/env";
+import logger from "../../utils/logger";
+import { getRequestId } from "../../utils/request-context";
+import { ProviderError, ProviderOutcomeUnknownError, ProviderUnavailableError } from "../../utils/errors";
+import { recordYnoteError, recordYnoteRequest } from "../metrics.service";
+
+/**
+ * État du disjoncteur
+ * - CLOSED: appels normaux
+ * - OPEN: Y-Note considéré indisponible, appels refusés sans être envoyés
+ * - HALF_OPEN: une requête de test est autorisée
+ */
+export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+const PROVIDER_UNAVAILABLE_MESSAGE = "Fournisseur de paiement indisponible (Y-Note)";
+
+const UNKNOWN_OUTCOME_MESSAGE = "issue de la demande inconnue";
+
+// Erreurs réseau pour lesquelles la requête n'a pas pu atteindre Y-Note
+const NOT_SENT_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+const breaker = {
+  state: "CLOSED" as CircuitState,
+  consecutiveFailures: 0,
+  openedAt: 0,
+  probeInFlight: false,
+  lastError: null as string | null,
+};
+
+/**
+ * Requête vers Y-Note
+ * @param operation - Nom lisible de l'appel (logs et erreurs)
+ * @param idempotent - L'appel peut être renvoyé sans effet de bord (jamais un paiement)
+ */
+export interface YnoteRequest {
+  operation: string;
+  idempotent: boolean;
+  method: "GET" | "POST";
+  url: string;
+  data?: unknown;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Autorise un appel selon l'état du disjoncteur
+ * @throws ProviderUnavailableError si le disjoncteur est ouvert ou si une requête de test est déjà en cours
+ */
+function acquireCircuit(): void {
+  if (breaker.state === "CLOSED") {
+    return;
+  }
+
+  if (breaker.state === "OPEN") {
+    if (Date.now() - breaker.openedAt < YNOTE_HTTP_CONFIG.breakerOpenSeconds * 1000) {
+      throw new ProviderUnavailableError(
+        `${PROVIDER_UNAVAILABLE_MESSAGE}: disjoncteur ouvert après ${breaker.consecutiveFailures} échecs consécutifs`,
+        YNOTE_HTTP_CONFIG.breakerOpenSeconds
+      );
+    }
+
+    breaker.state = "HALF_OPEN";
+    logger.info("🔌 Disjoncteur Y-Note semi-ouvert: requête de test");
+  }
+
+  if (breaker.probeInFlight) {
+    throw new ProviderUnavailableError(
+      `${PROVIDER_UNAVAILABLE_MESSAGE}: test de disponibilité en cours`,
+      YNOTE_HTTP_CONFIG.breakerOpenSeconds
+    );
+  }
+
+  breaker.probeInFlight = true;
+}
+
+/**
+ * Y-Note a répondu (y compris par une erreur client 4xx)
+ */
+function recordCircuitSuccess(): void {
+  if (breaker.state !== "CLOSED") {
+    logger.info("🔌 Disjoncteur Y-Note fermé: service rétabli");
+  }
+
+  breaker.state = "CLOSED";
+  breaker.consecutiveFailures = 0;
+  breaker.probeInFlight = false;
+}
+
+/**
+ * Échec transitoire: ouvre le disjoncteur au seuil, ou immédiatement si la requête de test échoue
+ */
+function recordCircuitFailure(reason: string): void {
+  breaker.consecutiveFailures++;
+  breaker.lastError = reason;
+  breaker.probeInFlight = false;
+
+  const shouldOpen =
+    breaker.state === "HALF_OPEN" || breaker.consecutiveFailures >= YNOTE_HTTP_CONFIG.breakerFailureThreshold;
+
+  if (shouldOpen) {
+    if (breaker.state !== "OPEN") {
+      logger.error(`🔌 Disjoncteur Y-Note ouvert (${breaker.consecutiveFailures} échecs consécutifs): ${reason}`);
+    }
+    breaker.state = "OPEN";
+    breaker.openedAt = Date.now();
+  }
+}
+
+/**
+ * Erreur qui peut disparaître d'elle-même (et compte pour le disjoncteur)
+ */
+function isTransientError(error: any): boolean {
+  const status: number | undefined = error.response?.status;
+
+  if (status === undefined) {
+    // Délai dépassé ou erreur réseau (pas de réponse)
+    return axios.isAxiosError(error);
+  }
+
+  return status === 429 || status >= 500;
+}
+
+function describeError(error: any): string {
+  if (error.response) {
+    return `HTTP ${error.response.status}`;
+  }
+
+  return error.code === "ECONNABORTED" || error.code === "ETIMEDOUT" ? "délai dépassé" : error.code || error.message;
+}
+
+/**
+ * Statut d'un appel en échec pour les métriques: code HTTP, "timeout" ou code réseau
+ */
+function metricStatus(error: any): string {
+  if (error.response) {
+    return String(error.response.status);
+  }
+
+  return error.code === "ECONNABORTED" || error.code === "ETIMEDOUT" ? "timeout" : error.code || "network";
+}
+
+/**
+ * Délai avant la prochaine tentative: Retry-After s'il est fourni, sinon backoff avec jitter
+ * @returns null si Retry-After dépasse le plafond (inutile d'attendre)
+ */
+function retryDelayMs(error: any, attempt: number): number | null {
+  const retryAfter = error.response?.headers?.["retry-after"];
+
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : new Date(String(retryAfter)).getTime() - Date.now();
+
+    if (Number.isFinite(delay)) {
+      return delay > YNOTE_HTTP_CONFIG.retryMaxDelayMs ? null : Math.max(delay, 0);
+    }
+  }
+
+  const ceiling = Math.min(
+    YNOTE_HTTP_CONFIG.retryBaseDelayMs * Math.pow(2, attempt - 1),
+    YNOTE_HTTP_CONFIG.retryMaxDelayMs
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Envoie une requête à Y-Note
+ * @throws ProviderUnavailableError si Y-Note est indisponible (disjoncteur ouvert, échecs
+ *   transitoires épuisés), ProviderOutcomeUnknownError si une demande non idempotente est
+ *   restée sans réponse ou a reçu une erreur serveur (5xx), ProviderError si Y-Note refuse la requête (4xx)
+ */
+export async function ynoteRequest<T = any>(request: YnoteRequest): Promise<AxiosResponse<T>> {
+  const maxAttempts = request.idempotent ? YNOTE_HTTP_CONFIG.maxRetries + 1 : 1;
+  const requestId = getRequestId();
+
+  const config: AxiosRequestConfig = {
+    method: request.method,
+    url: request.url,
+    data: request.data,
+    // Identifiant de corrélation transmis à Y-Note (support, rapprochement des logs)
+    headers: { ...request.headers, ...(requestId && { "X-Request-Id": requestId }) },
+    timeout: request.timeoutMs || YNOTE_HTTP_CONFIG.timeoutMs,
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      acquireCircuit();
+    } catch (error) {
+      recordYnoteError(request.operation, "circuit_open");
+      throw error;
+    }
+
+    const startedAt = Date.now();
+
+    try {
+      const response = await axios.request<T>(config);
+      recordYnoteRequest(request.operation, String(response.status), Date.now() - startedAt);
+      recordCircuitSuccess();
+      return response;
+    } catch (error: any) {
+      recordYnoteRequest(request.operation, metricStatus(error), Date.now() - startedAt);
+
+      if (!isTransientError(error)) {
+        recordCircuitSuccess();
+
+        if (error.response) {
+          logger.warn(`⚠️  ${request.operation} refusé par Y-Note (HTTP ${error.response.status})`, {
+            data: error.response.data,
+          });
+          throw new ProviderError(`Y-Note a refusé la requête ${request.operation} (HTTP ${error.response.status})`);
+        }
+        throw error;
+      }
+
+      const reason = describeError(error);
+      recordCircuitFailure(reason);
+
+      // Sans réponse, ou avec une erreur serveur (5xx, y compris 502/503/504 d'une passerelle
+      // dont l'amont a pu recevoir la demande), une demande de paiement a pu être exécutée:
+      // ne pas conclure à un échec. Seuls un 429 ou une connexion jamais établie le garantissent.
+      const outcomeUnknown = error.response
+        ? error.response.status >= 500
+        : !NOT_SENT_ERROR_CODES.includes(error.code);
+
+      if (!request.idempotent && outcomeUnknown) {
+        throw new ProviderOutcomeUnknownError(
+          `Réponse Y-Note non reçue (${request.operation}, ${reason}): ${UNKNOWN_OUTCOME_MESSAGE}`,
+          YNOTE_HTTP_CONFIG.breakerOpenSeconds
+        );
+      }
+
+      const delay = attempt < maxAttempts ? retryDelayMs(error, attempt) : null;
+      if (delay === null || breaker.state === "OPEN") {
+        throw new ProviderUnavailableError(
+          `${PROVIDER_UNAVAILABLE_MESSAGE}: ${request.operation} en échec (${reason})`,
+          YNOTE_HTTP_CONFIG.breakerOpenSeconds
+        );
+      }
+
+      logger.warn(`⚠️  ${request.operation} Y-Note en échec (${reason}), tentative ${attempt + 1} dans ${delay} ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * État du disjoncteur (exposé dans /health)
+ */
+export function getYnoteCircuitState(): {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError: string | null;
+  openedAt: string | null;
+  retryAt: string | null;
+} {
+  const open = breaker.state !== "CLOSED";
+
+  return {
+    state: breaker.state,
+    consecutiveFailures: breaker.consecutiveFailures,
+    lastError: breaker.lastError,
+    openedAt: open ? new Date(breaker.openedAt).toISOString() : null,
+    retryAt: breaker.state === "OPEN"
+      ? new Date(breaker.openedAt + YNOTE_HTTP_CONFIG.breakerOpenSeconds * 1000).toISOString()
+      : null,
+  };
+}
+
+export default {
+  ynoteRequest,
+  getYnoteCircuitState,
+};
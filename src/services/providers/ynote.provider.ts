@@ -0,0 +1,420 @@
+/**
+ * Fournisseur de paiement Y-Note (MTN Mobile Money / Orange Money)
+ * Encapsule les appels HTTP à l'API Y-Note/Paynote
+ *
+ * Documentation: https://www.paynote.africa/
+ * Endpoints Y-Note:
+ * - Token: POST https://omapi-token.ynote.africa/oauth2/token
+ * - Payment: POST https://omapi.ynote.africa/prod/webpayment
+ * - Status MTN: POST https://omapi.ynote.africa/prod/webpaymentmtn/status
+ * - Status Orange: POST https://omapi.ynote.africa/prod/webpaymentom/status
+ * - Remboursement (versement): POST https://omapi.ynote.africa/prod/refund
+ * - Statut remboursement: GET https://omapi.ynote.africa/prod/refund/status/{MessageId}
+ */
+
+import { YNOTE_CONFIG, YNOTE_CREDENTIALS, YNOTE_HTTP_CONFIG, OPERATOR_CONFIG } from "../../config/env";
+import {
+  CachedToken,
+  NormalizedYnoteStatus,
+  ParsedCallback,
+  ParsedRefundCallback,
+  PaymentCallbackData,
+  PaymentProvider,
+  ProviderPaymentRequest,
+  ProviderPaymentResult,
+  ProviderPaymentStatus,
+  ProviderRefundRequest,
+  ProviderRefundResult,
+  ProviderRefundStatusQuery,
+  ProviderStatusQuery,
+  ProviderStatusResult,
+} from "../../types/payment.types";
+import { ynoteRequest } from "./ynote-client";
+import logger from "../../utils/logger";
+import { ProviderError, ProviderUnavailableError } from "../../utils/errors";
+import { recordTokenRefresh, recordYnoteError } from "../metrics.service";
+
+// Cache pour le token OAuth (évite les requêtes répétées - erreur 429)
+let cachedToken: CachedToken | null = null;
+
+/**
+ * Vérifie que les credentials Y-Note sont configurées
+ */
+function validateCredentials(): void {
+  const { clientId, clientSecret, customerKey, subscriptionKey } = YNOTE_CREDENTIALS;
+
+  logger.debug("🔐 Vérification des credentials Y-Note", {
+    hasClientId: !!clientId,
+    hasClientSecret: !!clientSecret,
+    hasCustomerKey: !!customerKey,
+    hasSubscriptionKey: !!subscriptionKey,
+  });
+
+  if (!clientId || !clientSecret) {
+    throw new Error("Credentials Y-Note (clientId/clientSecret) non configurées. Vérifiez votre fichier .env");
+  }
+
+  if (!customerKey || !subscriptionKey) {
+    throw new Error("Credentials client Y-Note (customerKey/subscriptionKey) non configurées. Vérifiez votre fichier .env");
+  }
+}
+
+/**
+ * Génère un token d'accès OAuth 2.0 pour l'API Y-Note
+ * Utilise Basic Auth avec clientId:clientSecret et grant_type=client_credentials
+ * Le token est mis en cache pour éviter les requêtes répétées (erreur 429)
+ */
+async function getAccessToken(): Promise<string> {
+  const { clientId, clientSecret } = YNOTE_CREDENTIALS;
+
+  // Vérifier si on a un token en cache encore valide (avec 60s de marge)
+  const now = Date.now();
+  if (cachedToken && cachedToken.expiresAt > now + 60000) {
+    logger.debug("🔄 Utilisation du token Y-Note en cache");
+    return cachedToken.token;
+  }
+
+  const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString("base64");
+
+  logger.debug("🔑 Obtention d'un nouveau token Y-Note...");
+
+  try {
+    const response = await ynoteRequest({
+      operation: "token",
+      idempotent: true,
+      method: "POST",
+      url: YNOTE_CONFIG.tokenUrl,
+      data: "grant_type=client_credentials",
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+    });
+
+    const data = response.data;
+    logger.info("✅ Token Y-Note obtenu avec succès");
+    recordTokenRefresh("success");
+
+    // Mettre en cache le token (expire généralement en 3600 secondes)
+    const expiresIn = data.expires_in || 3600;
+    cachedToken = {
+      token: data.access_token,
+      expiresAt: now + expiresIn * 1000,
+    };
+
+    return data.access_token;
+  } catch (error: any) {
+    logger.error("❌ Erreur obtention token Y-Note", { error });
+    recordTokenRefresh("failure");
+
+    // Indisponibilité (disjoncteur, retentatives épuisées): erreur transmise telle quelle
+    if (error instanceof ProviderUnavailableError || !(error instanceof ProviderError)) {
+      throw error;
+    }
+
+    throw new ProviderError(`Erreur d'authentification Y-Note: ${error.message}`);
+  }
+}
+
+/**
+ * Mappe un statut brut Y-Note/opérateur vers un statut standard
+ * Orange Money renvoie "SUCCESSFULL" (sic) là où MTN renvoie "SUCCESSFUL"
+ */
+function normalizeStatusValue(rawStatus: unknown): ProviderPaymentStatus {
+  const status = String(rawStatus || "PENDING").toUpperCase();
+
+  if (["SUCCESSFUL", "SUCCESSFULL", "SUCCESS", "SUCCEEDED", "COMPLETED"].includes(status)) {
+    return "SUCCESSFUL";
+  }
+
+  if (["FAILED", "REJECTED", "CANCELLED", "EXPIRED"].includes(status)) {
+    return "FAILED";
+  }
+
+  return "PENDING";
+}
+
+/**
+ * Normalise la réponse de statut Y-Note vers un format standard
+ */
+function normalizeYnoteStatus(ynoteResponse: any): NormalizedYnoteStatus {
+  // Y-Note peut retourner le statut dans différents champs selon la version de l'API
+  const status = ynoteResponse.status || ynoteResponse.transactionStatus || "PENDING";
+
+  return {
+    status: normalizeStatusValue(status),
+    amount: ynoteResponse.amount ? parseInt(ynoteResponse.amount) : undefined,
+    transactionId:
+      ynoteResponse.transactionId ||
+      ynoteResponse.financialTransactionId ||
+      ynoteResponse.txnid ||
+      ynoteResponse.externalId,
+    reason: ynoteResponse.reason || ynoteResponse.message || ynoteResponse.errorMessage,
+  };
+}
+
+/**
+ * Vérifie si Y-Note a retourné une erreur (même avec HTTP 200)
+ * Note: Y-Note peut retourner errorCode: 200 pour indiquer un succès, donc on l'ignore
+ * @throws ProviderError avec le code et le message Y-Note
+ */
+function assertYnoteSuccess(ynoteResponse: any, operation: string): void {
+  const errorCode = ynoteResponse.errorCode || ynoteResponse.ErrorCode;
+  const successCodes = [200, 201, "200", "201"];
+
+  if (errorCode && !successCodes.includes(errorCode)) {
+    logger.error("❌ Erreur Y-Note", { response: ynoteResponse });
+    recordYnoteError(operation, `ynote_${errorCode}`);
+    const errorMessage = ynoteResponse.ErrorMessage || ynoteResponse.body || ynoteResponse.message || "Erreur inconnue";
+    throw new ProviderError(`Erreur Y-Note (${errorCode}): ${errorMessage}`);
+  }
+}
+
+/**
+ * Envoie une demande de paiement Y-Note (push USSD vers le client)
+ */
+async function initiatePayment(request: ProviderPaymentRequest): Promise<ProviderPaymentResult> {
+  // Valider les credentials
+  validateCredentials();
+
+  const operatorConfig = OPERATOR_CONFIG[request.operator];
+
+  // Obtenir le token d'accès Y-Note
+  const accessToken = await getAccessToken();
+
+  // Préparer la requête de paiement Y-Note
+  const paymentBody = {
+    API_MUT: {
+      notifUrl: request.callbackUrl,
+      subscriberMsisdn: request.phoneNumber, // Avec préfixe 237
+      description: request.description,
+      amount: request.amount.toString(),
+      order_id: request.referenceId,
+      customerkey: YNOTE_CREDENTIALS.customerKey,
+      customersecret: YNOTE_CREDENTIALS.subscriptionKey,
+      PaiementMethod: operatorConfig.paymentMethod,
+    },
+  };
+
+  logger.info(`📤 Envoi requête paiement Y-Note (${operatorConfig.label})...`);
+
+  // Appeler l'API Y-Note webpayment
+  const paymentUrl = `${YNOTE_CONFIG.baseUrl}/webpayment`;
+  // Jamais retentée: un renvoi déclencherait un second push USSD
+  const response = await ynoteRequest({
+    operation: "demande de paiement",
+    idempotent: false,
+    method: "POST",
+    url: paymentUrl,
+    data: paymentBody,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    timeoutMs: YNOTE_HTTP_CONFIG.paymentTimeoutMs,
+  });
+
+  const paymentResponse = response.data;
+  logger.debug("📥 Réponse Y-Note", { response: paymentResponse });
+
+  assertYnoteSuccess(paymentResponse, "demande de paiement");
+
+  // Extraire le MessageId de Y-Note (c'est cet ID qu'il faut utiliser pour vérifier le statut)
+  const ynoteMessageId = paymentResponse.parameters?.MessageId || request.referenceId;
+
+  return {
+    providerReference: ynoteMessageId,
+    status: "PENDING",
+    raw: paymentResponse,
+  };
+}
+
+/**
+ * Vérifie le statut d'un paiement auprès de Y-Note (endpoint propre à l'opérateur)
+ */
+async function getPaymentStatus(query: ProviderStatusQuery): Promise<ProviderStatusResult> {
+  // Valider les credentials
+  validateCredentials();
+
+  // Obtenir le token d'accès Y-Note
+  const accessToken = await getAccessToken();
+
+  const statusUrl = `${YNOTE_CONFIG.baseUrl}${OPERATOR_CONFIG[query.operator].statusPath}`;
+  logger.debug("📤 Appel API statut Y-Note", { url: statusUrl });
+
+  const response = await ynoteRequest({
+    operation: "statut de paiement",
+    idempotent: true,
+    method: "POST",
+    url: statusUrl,
+    data: {
+      message_id: query.providerReference || query.referenceId,
+      customerkey: YNOTE_CREDENTIALS.customerKey,
+      customersecret: YNOTE_CREDENTIALS.subscriptionKey,
+    },
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  const paymentStatus = response.data;
+  logger.debug("📥 Statut Y-Note", { response: paymentStatus });
+
+  return {
+    ...normalizeYnoteStatus(paymentStatus),
+    raw: paymentStatus,
+  };
+}
+
+/**
+ * Normalise le corps d'un callback Y-Note (MTN ou Orange)
+ * Orange Money renvoie l'identifiant opérateur dans txnid
+ */
+function parseCallback(payload: PaymentCallbackData): ParsedCallback {
+  const amount = payload.amount !== undefined ? Number(payload.amount) : undefined;
+
+  return {
+    referenceId: payload.referenceId || payload.order_id,
+    status: normalizeStatusValue(payload.status),
+    financialTransactionId: payload.financialTransactionId || payload.txnid,
+    amount: amount !== undefined && !isNaN(amount) ? amount : undefined,
+    raw: payload,
+  };
+}
+
+/**
+ * Rembourse un client via l'API de versement Y-Note (MTN ou Orange)
+ * L'issue arrive par callback sur request.callbackUrl, ou par getRefundStatus
+ */
+async function refund(request: ProviderRefundRequest): Promise<ProviderRefundResult> {
+  // Valider les credentials
+  validateCredentials();
+
+  const operatorConfig = OPERATOR_CONFIG[request.operator];
+
+  // Obtenir le token d'accès Y-Note
+  const accessToken = await getAccessToken();
+
+  const refundBody = {
+    customerkey: YNOTE_CREDENTIALS.customerKey,
+    customersecret: YNOTE_CREDENTIALS.subscriptionKey,
+    amount: request.amount.toString(),
+    final_customer_phone: request.phoneNumber, // Avec préfixe 237
+    final_customer_name: "Client Ilios",
+    refund_method: operatorConfig.refundMethod,
+    fees_included: "No",
+    order_id: request.refundId,
+    webhook: request.callbackUrl,
+  };
+
+  logger.info(`📤 Envoi requête remboursement Y-Note (${operatorConfig.label})...`);
+
+  // Jamais retentée: un renvoi déclencherait un second versement
+  const response = await ynoteRequest({
+    operation: "demande de versement",
+    idempotent: false,
+    method: "POST",
+    url: `${YNOTE_CONFIG.baseUrl}${YNOTE_CONFIG.refundPath}`,
+    data: refundBody,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    timeoutMs: YNOTE_HTTP_CONFIG.paymentTimeoutMs,
+  });
+
+  const refundResponse = response.data;
+  logger.debug("📥 Réponse remboursement Y-Note", { response: refundResponse });
+
+  assertYnoteSuccess(refundResponse, "demande de versement");
+
+  return {
+    providerReference: refundResponse.parameters?.MessageId || refundResponse.MessageId || request.refundId,
+    status: "PENDING",
+    raw: refundResponse,
+  };
+}
+
+/**
+ * Vérifie le statut d'un remboursement auprès de Y-Note
+ */
+async function getRefundStatus(query: ProviderRefundStatusQuery): Promise<ProviderRefundResult> {
+  // Valider les credentials
+  validateCredentials();
+
+  // Obtenir le token d'accès Y-Note
+  const accessToken = await getAccessToken();
+
+  const messageId = encodeURIComponent(query.providerReference || query.refundId);
+  const statusUrl = `${YNOTE_CONFIG.baseUrl}${YNOTE_CONFIG.refundStatusPath}/${messageId}`;
+  logger.debug("📤 Appel API statut remboursement Y-Note", { url: statusUrl });
+
+  const response = await ynoteRequest({
+    operation: "statut de versement",
+    idempotent: true,
+    method: "GET",
+    url: statusUrl,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+
+  const refundStatus = response.data;
+  logger.debug("📥 Statut remboursement Y-Note", { response: refundStatus });
+
+  // Le statut peut être imbriqué dans "result" selon la version de l'API
+  const result = refundStatus.result || refundStatus;
+  const normalized = normalizeYnoteStatus(result);
+
+  return {
+    status: normalized.status,
+    providerReference: query.providerReference,
+    reason: normalized.reason,
+    raw: refundStatus,
+  };
+}
+
+/**
+ * Normalise le corps d'un callback de remboursement Y-Note
+ */
+function parseRefundCallback(payload: PaymentCallbackData): ParsedRefundCallback {
+  const result = (payload.result as PaymentCallbackData | undefined) || payload;
+
+  return {
+    refundId: (result.order_id || payload.order_id || payload.refundId) as string | undefined,
+    providerReference: (result.MessageId || result.message_id || payload.MessageId) as string | undefined,
+    status: normalizeStatusValue(result.status),
+    reason: (result.reason || result.message) as string | undefined,
+    raw: payload,
+  };
+}
+
+/**
+ * Credentials valides et API OAuth joignable: un token est obtenu (ou réutilisé s'il est en cache)
+ * @throws Error si le token ne peut pas être obtenu
+ */
+async function checkHealth(): Promise<void> {
+  validateCredentials();
+  await getAccessToken();
+}
+
+export const ynoteProvider: PaymentProvider = {
+  name: "ynote",
+  capabilities: {
+    operators: ["mtn", "orange"],
+    refunds: true,
+    partialRefunds: true,
+    statusPolling: true,
+    callbacks: true,
+  },
+  initiatePayment,
+  getPaymentStatus,
+  parseCallback,
+  refund,
+  getRefundStatus,
+  parseRefundCallback,
+  checkHealth,
+};
+
+export default ynoteProvider;
@@ -0,0 +1,229 @@
+/**
+ * Reçus et avoirs des paiements
+ *
+ * Un reçu est émis pour chaque paiement réussi, un avoir pour chaque remboursement
+ * abouti. Les documents sont numérotés séquentiellement par série et par année
+ * (ex: REC-2026-000042, AV-2026-000003) et figés à l'émission: le compteur et le
+ * document sont écrits dans la même transaction Firestore, et l'ID du document
+ * (reçu par transaction, avoir par remboursement) rend l'émission idempotente.
+ */
+
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS, RECEIPT_CONFIG, YNOTE_CONFIG } from "../config/env";
+import { PaymentStatus, ReceiptRecord, ReceiptType } from "../types/payment.types";
+import { maskPhoneNumber } from "../utils/phone";
+import { renderReceiptHtml } from "../utils/receipt-renderer";
+import { resolveTransaction } from "./reference.service";
+import { assertTransactionAccess } from "./payment.service";
+import { InvalidStatusError, NotFoundError } from "../utils/errors";
+import logger from "../utils/logger";
+
+// Statuts d'une transaction dont le paiement a été encaissé
+const PAID_STATUSES: PaymentStatus[] = ["SUCCESSFUL", "REFUND_PENDING", "PARTIALLY_REFUNDED", "REFUNDED"];
+
+function receiptsCollection(): FirebaseFirestore.CollectionReference {
+  return admin.firestore().collection(FIRESTORE_COLLECTIONS.receipts);
+}
+
+/**
+ * Données du client et de la campagne reprises sur le document
+ */
+async function loadParties(
+  transactionData: FirebaseFirestore.DocumentData
+): Promise<Pick<ReceiptRecord, "customer" | "campaignName">> {
+  const db = admin.firestore();
+  const [userDoc, campaignDoc] = await Promise.all([
+    transactionData.userId ? db.collection("users").doc(transactionData.userId).get() : Promise.resolve(null),
+    transactionData.campaignId ? db.collection("campaigns").doc(transactionData.campaignId).get() : Promise.resolve(null),
+  ]);
+
+  const user = userDoc?.data() || {};
+
+  return {
+    customer: {
+      name: user.companyName || user.displayName || user.name || null,
+      email: user.email || null,
+    },
+    campaignName: campaignDoc?.data()?.name || null,
+  };
+}
+
+/**
+ * Émet un document numéroté s'il n'existe pas encore
+ * @returns le document existant ou nouvellement émis
+ */
+async function issueDocument(
+  receiptId: string,
+  type: ReceiptType,
+  content: Omit<ReceiptRecord, "receiptId" | "number" | "type" | "company" | "html" | "issuedAt">
+): Promise<ReceiptRecord> {
+  const db = admin.firestore();
+  const receiptRef = receiptsCollection().doc(receiptId);
+  const prefix = type === "RECEIPT" ? RECEIPT_CONFIG.receiptPrefix : RECEIPT_CONFIG.creditNotePrefix;
+  const year = new Date().getFullYear();
+  const counterRef = db.collection(FIRESTORE_COLLECTIONS.receiptCounters).doc(`${prefix}-${year}`);
+
+  const result = await db.runTransaction(async (tx) => {
+    const [existing, counter] = await Promise.all([tx.get(receiptRef), tx.get(counterRef)]);
+
+    if (existing.exists) {
+      return { receipt: existing.data() as ReceiptRecord, created: false };
+    }
+
+    const sequence = (counter.data()?.last || 0) + 1;
+    const receipt: ReceiptRecord = {
+      ...content,
+      receiptId,
+      number: `${prefix}-${year}-${String(sequence).padStart(6, "0")}`,
+      type,
+      company: {
+        name: RECEIPT_CONFIG.companyName,
+        address: RECEIPT_CONFIG.companyAddress,
+        taxId: RECEIPT_CONFIG.companyTaxId,
+        registration: RECEIPT_CONFIG.companyRegistration,
+        email: RECEIPT_CONFIG.companyEmail,
+        phone: RECEIPT_CONFIG.companyPhone,
+      },
+      html: "",
+      issuedAt: admin.firestore.Timestamp.now(),
+    };
+    receipt.html = renderReceiptHtml(receipt);
+
+    tx.set(counterRef, { last: sequence, updatedAt: admin.firestore.Timestamp.now() });
+    tx.set(receiptRef, receipt);
+
+    return { receipt, created: true };
+  });
+
+  if (result.created) {
+    logger.info(`🧾 ${type === "RECEIPT" ? "Reçu" : "Avoir"} ${result.receipt.number} émis (${content.referenceId})`);
+  }
+
+  return result.receipt;
+}
+
+/**
+ * Émet le reçu d'un paiement réussi (idempotent)
+ * @throws NotFoundError si la transaction est introuvable, InvalidStatusError si elle n'a pas été payée
+ */
+export async function issueReceipt(referenceId: string): Promise<ReceiptRecord> {
+  const transactionDoc = await admin
+    .firestore()
+    .collection(FIRESTORE_COLLECTIONS.transactions)
+    .doc(referenceId)
+    .get();
+  const data = transactionDoc.data();
+
+  if (!data) {
+    throw new NotFoundError("Transaction introuvable");
+  }
+
+  if (!PAID_STATUSES.includes(data.status)) {
+    throw new InvalidStatusError(`Aucun reçu disponible: paiement non abouti (statut ${data.status})`);
+  }
+
+  const total = Number(data.paidAmount ?? data.amount) || 0;
+  // Transactions antérieures à la tarification: montant TTC sans détail de taxe
+  const pricing = data.pricing || { subtotal: total, discount: 0, taxRate: 0, tax: 0 };
+
+  return issueDocument(`receipt_${referenceId}`, "RECEIPT", {
+    referenceId,
+    refundId: null,
+    originalReceiptNumber: null,
+    campaignId: data.campaignId || null,
+    userId: data.userId,
+    ...(await loadParties(data)),
+    subtotal: pricing.subtotal,
+    discount: pricing.discount,
+    taxRate: pricing.taxRate,
+    tax: pricing.tax,
+    total,
+    currency: data.currency || YNOTE_CONFIG.currency,
+    operator: data.operator || null,
+    phoneNumber: data.phoneNumber ? maskPhoneNumber(data.phoneNumber) : null,
+    financialTransactionId: data.financialTransactionId || null,
+  });
+}
+
+/**
+ * Émet l'avoir d'un remboursement abouti (idempotent)
+ * La taxe remboursée est proportionnelle à celle du reçu d'origine.
+ * @throws NotFoundError si le remboursement est introuvable, InvalidStatusError s'il n'a pas abouti
+ */
+export async function issueCreditNote(refundId: string): Promise<ReceiptRecord> {
+  const refundDoc = await admin.firestore().collection(FIRESTORE_COLLECTIONS.refunds).doc(refundId).get();
+  const refund = refundDoc.data();
+
+  if (!refund) {
+    throw new NotFoundError("Remboursement introuvable");
+  }
+
+  if (refund.status !== "SUCCESSFUL") {
+    throw new InvalidStatusError(`Aucun avoir disponible: remboursement non abouti (statut ${refund.status})`);
+  }
+
+  const receipt = await issueReceipt(refund.originalReferenceId);
+  const amount = Number(refund.amount) || 0;
+  const tax = receipt.total > 0 ? Math.round((amount * receipt.tax) / receipt.total) : 0;
+
+  return issueDocument(`credit_${refundId}`, "CREDIT_NOTE", {
+    referenceId: receipt.referenceId,
+    refundId,
+    originalReceiptNumber: receipt.number,
+    campaignId: receipt.campaignId,
+    campaignName: receipt.campaignName,
+    userId: receipt.userId,
+    customer: receipt.customer,
+    subtotal: amount - tax,
+    discount: 0,
+    taxRate: receipt.taxRate,
+    tax,
+    total: amount,
+    currency: receipt.currency,
+    operator: refund.operator || receipt.operator,
+    phoneNumber: refund.phoneNumber ? maskPhoneNumber(refund.phoneNumber) : receipt.phoneNumber,
+    financialTransactionId: receipt.financialTransactionId,
+  });
+}
+
+/**
+ * Reçu d'une transaction (ou avoir d'un de ses remboursements) pour son propriétaire ou un admin
+ * Le document est émis à la demande s'il ne l'a pas encore été.
+ * @param referenceId - Notre référence, le MessageId fournisseur ou l'ID opérateur
+ * @param refundId - Avoir de ce remboursement plutôt que le reçu
+ */
+export async function getTransactionReceipt(
+  referenceId: string,
+  userId: string,
+  requester: { isAdmin?: boolean; ip?: string; refundId?: string } = {}
+): Promise<ReceiptRecord> {
+  const transactionDoc = await resolveTransaction(referenceId);
+
+  if (!transactionDoc) {
+    throw new NotFoundError("Transaction introuvable");
+  }
+
+  await assertTransactionAccess(transactionDoc, userId, { ...requester, action: "payment_receipt" });
+
+  if (!requester.refundId) {
+    return issueReceipt(transactionDoc.id);
+  }
+
+  const refundDoc = await admin
+    .firestore()
+    .collection(FIRESTORE_COLLECTIONS.refunds)
+    .doc(requester.refundId)
+    .get();
+
+  if (refundDoc.data()?.originalReferenceId !== transactionDoc.id) {
+    throw new NotFoundError("Remboursement introuvable pour cette transaction");
+  }
+
+  return issueCreditNote(requester.refundId);
+}
+
+export default {
+  issueReceipt,
+  issueCreditNote,
+  getTransactionReceipt,
+};
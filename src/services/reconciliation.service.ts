@@ -0,0 +1,235 @@
+/**
+ * Réconciliation des transactions en attente
+ *
+ * Une transaction ne quitte PENDING que par un callback ou un polling client: si le
+ * callback est perdu et l'application fermée, elle resterait en attente indéfiniment.
+ * Ce service redemande périodiquement le statut au fournisseur, avec un intervalle
+ * qui croît avec l'âge de la transaction, puis la fait expirer.
+ *
+ * Les remboursements transmis au fournisseur (PROCESSING) sont suivis de la même façon,
+ * ainsi que les initiations interrompues par l'arrêt brutal d'une instance (marqueurs
+ * payment_initiations orphelins), reprises au démarrage puis à chaque passage.
+ *
+ * Le champ reconcileAfter sert à la fois de planification et de bail: une instance
+ * qui prend une transaction le repousse de leaseSeconds dans une transaction Firestore,
+ * les autres instances l'ignorent donc jusqu'à la fin du traitement ou du bail.
+ */
+
+import os from "os";
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS, PAYMENT_CONFIG, RECONCILER_CONFIG } from "../config/env";
+import { isAwaitingProvider } from "./payment-state.service";
+import { reconcileTransaction, recoverOrphanedInitiation } from "./payment.service";
+import { refreshRefundStatus } from "./refund.service";
+import logger from "../utils/logger";
+import { runWithRequestId } from "../utils/request-context";
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+/**
+ * Délai avant la prochaine vérification: un quart de l'âge de la transaction, borné
+ */
+function nextCheckDelayMs(ageMs: number): number {
+  const minMs = RECONCILER_CONFIG.minCheckIntervalSeconds * 1000;
+  const maxMs = RECONCILER_CONFIG.maxCheckIntervalSeconds * 1000;
+  return Math.min(Math.max(ageMs / 4, minMs), maxMs);
+}
+
+/**
+ * Prend le bail d'un document (transaction ou remboursement) s'il est toujours dû et en attente
+ */
+async function claimDocument(
+  docRef: FirebaseFirestore.DocumentReference,
+  isAwaiting: (data: FirebaseFirestore.DocumentData) => boolean
+): Promise<FirebaseFirestore.DocumentSnapshot | null> {
+  return admin.firestore().runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    const data = doc.data();
+    const now = Date.now();
+
+    if (!doc.exists || !data || !isAwaiting(data)) {
+      return null;
+    }
+
+    if (data.reconcileAfter && data.reconcileAfter.toMillis() > now) {
+      return null;
+    }
+
+    tx.update(docRef, {
+      reconcileAfter: admin.firestore.Timestamp.fromMillis(now + RECONCILER_CONFIG.leaseSeconds * 1000),
+      reconcileLeaseOwner: INSTANCE_ID,
+    });
+
+    return doc;
+  });
+}
+
+/**
+ * Réconcilie une transaction dont le bail a été pris
+ */
+async function reconcileClaimed(transactionDoc: FirebaseFirestore.DocumentSnapshot): Promise<void> {
+  const data = transactionDoc.data() || {};
+  const ageMs = Date.now() - (data.createdAt?.toMillis() || Date.now());
+  const expire = ageMs >= RECONCILER_CONFIG.expireAfterMinutes * 60 * 1000;
+
+  let status: string = data.status;
+  let lastError: string | null = null;
+
+  try {
+    status = await reconcileTransaction(transactionDoc, { expire });
+  } catch (error: any) {
+    lastError = error.message || "Erreur inconnue";
+    logger.warn(`⚠️  Réconciliation ${transactionDoc.id} en échec`, { error: lastError });
+  }
+
+  // Replanifier (la requête ne reprend que les transactions encore en attente)
+  await transactionDoc.ref.update({
+    reconcileAfter: admin.firestore.Timestamp.fromMillis(Date.now() + nextCheckDelayMs(ageMs)),
+    reconcileLeaseOwner: admin.firestore.FieldValue.delete(),
+    reconcileAttempts: admin.firestore.FieldValue.increment(1),
+    lastReconciledAt: admin.firestore.Timestamp.now(),
+    lastReconcileError: lastError,
+  });
+
+  if (!lastError) {
+    logger.info(`🔄 Réconciliation ${transactionDoc.id}: ${status}`);
+  }
+}
+
+/**
+ * Réconcilie les transactions en attente dont la vérification est due
+ * Peut tourner sur plusieurs instances en parallèle (bail par transaction)
+ * @returns le nombre de transactions réconciliées par cette instance
+ */
+export async function reconcileDueTransactions(limit: number = RECONCILER_CONFIG.batchSize): Promise<number> {
+  const snapshot = await admin
+    .firestore()
+    .collection(FIRESTORE_COLLECTIONS.transactions)
+    .where("status", "in", ["CREATED", "PENDING"])
+    .where("reconcileAfter", "<=", admin.firestore.Timestamp.now())
+    .orderBy("reconcileAfter")
+    .limit(limit)
+    .get();
+
+  let reconciled = 0;
+
+  for (const doc of snapshot.docs) {
+    const claimed = await claimDocument(doc.ref, (data) => isAwaitingProvider(data.status || "CREATED"));
+    if (!claimed) {
+      continue;
+    }
+
+    await reconcileClaimed(claimed);
+    reconciled++;
+  }
+
+  return reconciled;
+}
+
+/**
+ * Redemande au fournisseur le statut des remboursements transmis sans issue connue
+ * (callback de remboursement perdu); même bail et même backoff que les paiements
+ * @returns le nombre de remboursements vérifiés par cette instance
+ */
+export async function reconcileProcessingRefunds(limit: number = RECONCILER_CONFIG.batchSize): Promise<number> {
+  const snapshot = await admin
+    .firestore()
+    .collection(FIRESTORE_COLLECTIONS.refunds)
+    .where("status", "==", "PROCESSING")
+    .where("reconcileAfter", "<=", admin.firestore.Timestamp.now())
+    .orderBy("reconcileAfter")
+    .limit(limit)
+    .get();
+
+  let reconciled = 0;
+
+  for (const doc of snapshot.docs) {
+    const claimed = await claimDocument(doc.ref, (data) => data.status === "PROCESSING");
+    if (!claimed) {
+      continue;
+    }
+
+    const ageMs = Date.now() - (claimed.data()?.updatedAt?.toMillis() || Date.now());
+    let lastError: string | null = null;
+
+    try {
+      const status = await refreshRefundStatus(claimed, "reconciler");
+      logger.info(`🔄 Réconciliation remboursement ${claimed.id}: ${status}`);
+    } catch (error: any) {
+      lastError = error.message || "Erreur inconnue";
+      logger.warn(`⚠️  Réconciliation remboursement ${claimed.id} en échec`, { error: lastError });
+    }
+
+    await claimed.ref.update({
+      reconcileAfter: admin.firestore.Timestamp.fromMillis(Date.now() + nextCheckDelayMs(ageMs)),
+      reconcileLeaseOwner: admin.firestore.FieldValue.delete(),
+      lastReconciledAt: admin.firestore.Timestamp.now(),
+      lastReconcileError: lastError,
+    });
+
+    reconciled++;
+  }
+
+  return reconciled;
+}
+
+/**
+ * Reprend les initiations dont le marqueur a survécu à son instance (arrêt brutal ou délai
+ * d'arrêt dépassé). Le marqueur est supprimé dans une transaction Firestore avant la
+ * reprise (une seule instance le traite) puis reposé si la reprise échoue.
+ * @returns le nombre d'initiations reprises par cette instance
+ */
+export async function recoverOrphanedInitiations(limit: number = RECONCILER_CONFIG.batchSize): Promise<number> {
+  const db = admin.firestore();
+  const orphanedBefore = admin.firestore.Timestamp.fromMillis(
+    Date.now() - PAYMENT_CONFIG.initiationOrphanSeconds * 1000
+  );
+
+  const snapshot = await db
+    .collection(FIRESTORE_COLLECTIONS.paymentInitiations)
+    .where("createdAt", "<=", orphanedBefore)
+    .orderBy("createdAt")
+    .limit(limit)
+    .get();
+
+  let recovered = 0;
+
+  for (const doc of snapshot.docs) {
+    const marker = await db.runTransaction(async (tx) => {
+      const markerDoc = await tx.get(doc.ref);
+      if (!markerDoc.exists) {
+        return null;
+      }
+
+      tx.delete(doc.ref);
+      return markerDoc.data() || null;
+    });
+
+    if (!marker) {
+      continue;
+    }
+
+    // Les logs de la reprise portent l'identifiant de la requête d'initiation
+    await runWithRequestId(marker.requestId || doc.id, async () => {
+      try {
+        const action = await recoverOrphanedInitiation(marker);
+        logger.warn(`⚠️  Initiation interrompue ${doc.id} reprise: ${action}`, {
+          stage: marker.stage,
+          campaignId: marker.campaignId,
+        });
+        recovered++;
+      } catch (error: any) {
+        logger.error(`❌ Reprise de l'initiation ${doc.id} en échec`, { error: error.message });
+        await doc.ref.set(marker);
+      }
+    });
+  }
+
+  return recovered;
+}
+
+export default {
+  reconcileDueTransactions,
+  reconcileProcessingRefunds,
+  recoverOrphanedInitiations,
+};
@@ -0,0 +1,81 @@
+/**
+ * Service des références de paiement
+ *
+ * Modèle de référence:
+ * - referenceId: notre UUID, stable, identifiant du document de transaction
+ * - providerReference: identifiant du fournisseur (MessageId Y-Note)
+ * - financialTransactionId: identifiant de l'opérateur (MTN / Orange), connu à la confirmation
+ *
+ * Les identifiants externes sont indexés dans une collection secondaire
+ * (payment_references/{kind}:{valeur} -> referenceId), ce qui permet de résoudre
+ * une transaction à partir de n'importe lequel des trois identifiants.
+ */
+
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS } from "../config/env";
+import { PaymentReferenceKind } from "../types/payment.types";
+
+/**
+ * Clé de document de l'index (les "/" sont interdits dans les IDs Firestore)
+ */
+function indexKey(kind: PaymentReferenceKind, value: string): string {
+  return `${kind}:${encodeURIComponent(value)}`;
+}
+
+function indexRef(kind: PaymentReferenceKind, value: string): FirebaseFirestore.DocumentReference {
+  return admin.firestore().collection(FIRESTORE_COLLECTIONS.references).doc(indexKey(kind, value));
+}
+
+/**
+ * Indexe un identifiant externe appris après coup (ex: financialTransactionId)
+ */
+export async function indexReference(
+  kind: PaymentReferenceKind,
+  value: string | undefined,
+  referenceId: string
+): Promise<void> {
+  if (!value || value === referenceId) {
+    return;
+  }
+
+  await indexRef(kind, value).set({
+    kind,
+    value,
+    referenceId,
+    createdAt: admin.firestore.Timestamp.now(),
+  });
+}
+
+/**
+ * Retrouve une transaction par notre referenceId, le MessageId du fournisseur
+ * ou le financialTransactionId de l'opérateur
+ */
+export async function resolveTransaction(
+  id: string
+): Promise<FirebaseFirestore.DocumentSnapshot | null> {
+  const transactions = admin.firestore().collection(FIRESTORE_COLLECTIONS.transactions);
+
+  const byReference = await transactions.doc(id).get();
+  if (byReference.exists) {
+    return byReference;
+  }
+
+  for (const kind of ["provider", "financial"] as PaymentReferenceKind[]) {
+    const entry = await indexRef(kind, id).get();
+    const referenceId = entry.data()?.referenceId;
+
+    if (referenceId) {
+      const transaction = await transactions.doc(referenceId).get();
+      if (transaction.exists) {
+        return transaction;
+      }
+    }
+  }
+
+  return null;
+}
+
+export default {
+  indexReference,
+  resolveTransaction,
+};
@@ -0,0 +1,904 @@
+/**
+ * Service de remboursement Mobile Money (MTN / Orange)
+ *
+ * Chaque demande est contrôlée contre la transaction d'origine (statut, plafond, numéro
+ * du payeur); au-delà d'un seuil, un second administrateur doit l'approuver.
+ * Les remboursements sont exécutés par l'API de versement du fournisseur quand il
+ * la supporte (sinon enregistrés pour traitement manuel), puis suivis par callback
+ * et par le job de réconciliation. Le montant remboursable est plafonné au montant
+ * encaissé, déduction faite des remboursements réussis ou en cours.
+ *
+ * Statut de la transaction d'origine (et paymentStatus de la campagne):
+ * - REFUND_PENDING tant qu'un remboursement est en cours
+ * - REFUNDED / PARTIALLY_REFUNDED selon le total remboursé
+ * - retour à SUCCESSFUL si tous les remboursements ont échoué ou été annulés
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import * as admin from "firebase-admin";
+import {
+  CALLBACK_CONFIG,
+  FIRESTORE_COLLECTIONS,
+  OPERATOR_CONFIG,
+  RECONCILER_CONFIG,
+  REFUND_CONFIG,
+  YNOTE_CONFIG,
+} from "../config/env";
+import {
+  CompleteRefundRequest,
+  PaymentCallbackData,
+  PaymentOperator,
+  PaymentStatus,
+  PaymentTransitionSource,
+  ProviderPaymentStatus,
+  RefundRecord,
+  RefundResponse,
+  RefundStatus,
+} from "../types/payment.types";
+import { formatPhoneNumber, validatePhoneNumber } from "../utils/phone";
+import { generateSecretToken, sha256 } from "../utils/crypto";
+import { getPaymentProvider } from "./providers/registry";
+import { resolveTransaction } from "./reference.service";
+import { transitionInTransaction, transitionPayment } from "./payment-state.service";
+import { issueCreditNote } from "./receipt.service";
+import { emitMerchantEvent } from "./merchant-webhook.service";
+import logger from "../utils/logger";
+import { recordRefund } from "./metrics.service";
+import { getRequestId } from "../utils/request-context";
+import {
+  InvalidPhoneError,
+  InvalidStatusError,
+  InvalidTransitionError,
+  NotFoundError,
+  PermissionDeniedError,
+  ProviderOutcomeUnknownError,
+  RefundAmountExceededError,
+  ValidationError,
+} from "../utils/errors";
+
+// Remboursements qui consomment le montant remboursable
+const COMMITTED_REFUND_STATUSES: RefundStatus[] = ["PENDING_APPROVAL", "PENDING_MANUAL", "PENDING", "PROCESSING", "SUCCESSFUL"];
+
+// Remboursements en attente d'une issue
+const IN_FLIGHT_REFUND_STATUSES: RefundStatus[] = ["PENDING_APPROVAL", "PENDING_MANUAL", "PENDING", "PROCESSING"];
+
+// Statuts de transaction à partir desquels un remboursement est possible
+const REFUNDABLE_PAYMENT_STATUSES: PaymentStatus[] = ["SUCCESSFUL", "PARTIALLY_REFUNDED", "REFUND_PENDING"];
+
+function refundsCollection(): FirebaseFirestore.CollectionReference {
+  return admin.firestore().collection(FIRESTORE_COLLECTIONS.refunds);
+}
+
+/**
+ * Montant effectivement encaissé sur une transaction
+ */
+function capturedAmount(transactionData: FirebaseFirestore.DocumentData): number {
+  return Number(transactionData.paidAmount ?? transactionData.amount) || 0;
+}
+
+/**
+ * Somme des remboursements d'une transaction ayant l'un des statuts donnés
+ */
+function sumRefunds(
+  refunds: FirebaseFirestore.QueryDocumentSnapshot[],
+  statuses: RefundStatus[],
+  excludeRefundId?: string
+): number {
+  return refunds
+    .filter((doc) => doc.id !== excludeRefundId && statuses.includes(doc.data().status))
+    .reduce((total, doc) => total + Number(doc.data().amount || 0), 0);
+}
+
+/**
+ * Vérifie le plafond et fait passer la transaction en REFUND_PENDING,
+ * dans une transaction Firestore déjà ouverte
+ * @param amount - Montant demandé; par défaut tout le montant restant remboursable
+ * @returns les données de la transaction et le montant réservé
+ * @throws InvalidStatusError si la transaction n'est pas remboursable, RefundAmountExceededError
+ *   si le montant dépasse le plafond
+ */
+export async function reserveRefundAmount(
+  tx: FirebaseFirestore.Transaction,
+  transactionRef: FirebaseFirestore.DocumentReference,
+  amount: number | undefined,
+  context: { actor: string; reason: string; excludeRefundId?: string }
+): Promise<{ transactionData: FirebaseFirestore.DocumentData; amount: number }> {
+  const transactionDoc = await tx.get(transactionRef);
+  const transactionData = transactionDoc.data();
+
+  if (!transactionDoc.exists || !transactionData) {
+    throw new NotFoundError("Transaction introuvable");
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(transactionData.status)) {
+    throw new InvalidStatusError(`Cette transaction ne peut pas être remboursée (statut ${transactionData.status})`);
+  }
+
+  const refunds = await tx.get(refundsCollection().where("originalReferenceId", "==", transactionRef.id));
+  const refundable =
+    capturedAmount(transactionData) - sumRefunds(refunds.docs, COMMITTED_REFUND_STATUSES, context.excludeRefundId);
+
+  if (refundable <= 0) {
+    throw new RefundAmountExceededError("Aucun montant remboursable restant sur cette transaction");
+  }
+
+  const reserved = amount ?? refundable;
+
+  if (reserved > refundable) {
+    throw new RefundAmountExceededError(`Montant de remboursement supérieur au montant remboursable (${refundable} FCFA)`);
+  }
+
+  transitionInTransaction(tx, transactionRef, transactionData.status, "REFUND_PENDING", {
+    source: "admin",
+    actor: context.actor,
+    reason: context.reason,
+  });
+
+  return { transactionData, amount: reserved };
+}
+
+/**
+ * Crée une demande de remboursement (admin uniquement)
+ * Le montant et le numéro sont vérifiés contre la transaction d'origine (et en sont déduits
+ * s'ils sont omis). Au-delà de REFUND_APPROVAL_THRESHOLD, la demande attend l'approbation
+ * d'un second administrateur; sinon elle est exécutée par le fournisseur s'il supporte
+ * les remboursements, ou enregistrée pour traitement manuel.
+ */
+export async function createRefundRequest(
+  referenceId: string,
+  amount: number | undefined,
+  phoneNumber: string | undefined,
+  reason: string,
+  requestedBy: string
+): Promise<RefundResponse> {
+  logger.info("💰 Demande de remboursement", { referenceId, amount, requestedBy });
+
+  if (!referenceId || !reason) {
+    throw new ValidationError("Paramètres manquants pour le remboursement");
+  }
+
+  if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+    throw ValidationError.forField("amount", "Le montant du remboursement doit être un entier positif (FCFA)");
+  }
+
+  const db = admin.firestore();
+
+  // Vérifier que l'utilisateur est admin
+  const userDoc = await db.collection("users").doc(requestedBy).get();
+  const userRole = userDoc.data()?.role;
+
+  if (userRole !== "admin" && userRole !== "both") {
+    throw new PermissionDeniedError("Seuls les administrateurs peuvent effectuer des remboursements");
+  }
+
+  // Toujours référencer la transaction d'origine par notre referenceId
+  const transactionDoc = await resolveTransaction(referenceId);
+  if (!transactionDoc) {
+    throw new NotFoundError("Transaction introuvable");
+  }
+
+  // Le remboursement est versé au payeur: un numéro saisi doit lui correspondre
+  const payerPhone: string | undefined = transactionDoc.data()?.phoneNumber;
+
+  if (!payerPhone && !phoneNumber) {
+    throw ValidationError.forField(
+      "phoneNumber",
+      "Numéro du payeur inconnu pour cette transaction: phoneNumber requis"
+    );
+  }
+
+  if (payerPhone && phoneNumber && formatPhoneNumber(phoneNumber) !== payerPhone) {
+    throw new InvalidPhoneError("Le numéro de remboursement ne correspond pas au numéro du payeur");
+  }
+
+  const refundId = uuidv4();
+  const formattedPhone = payerPhone || formatPhoneNumber(phoneNumber!);
+  const operator = transactionDoc.data()?.operator || validatePhoneNumber(formattedPhone).operator;
+  const provider = getPaymentProvider(transactionDoc.data()?.provider);
+  const automatic = provider.capabilities.refunds && !!operator;
+  const refundRef = refundsCollection().doc(refundId);
+
+  // Plafond, statut de la transaction et enregistrement de la demande en une seule écriture
+  const { refundAmount, status } = await db.runTransaction(async (tx) => {
+    const reserved = await reserveRefundAmount(tx, transactionDoc.ref, amount, {
+      actor: requestedBy,
+      reason,
+    });
+
+    if (
+      automatic &&
+      !provider.capabilities.partialRefunds &&
+      reserved.amount !== capturedAmount(reserved.transactionData)
+    ) {
+      throw ValidationError.forField(
+        "amount",
+        `Le fournisseur ${provider.name} ne supporte pas les remboursements partiels`
+      );
+    }
+
+    const approvalRequired = reserved.amount > REFUND_CONFIG.approvalThreshold;
+    const initialStatus: RefundStatus = approvalRequired ? "PENDING_APPROVAL" : automatic ? "PENDING" : "PENDING_MANUAL";
+
+    tx.set(refundRef, {
+      refundId,
+      originalReferenceId: transactionDoc.id,
+      campaignId: reserved.transactionData.campaignId || null,
+      amount: reserved.amount,
+      phoneNumber: formattedPhone,
+      operator: operator || null,
+      reason,
+      status: initialStatus,
+      provider: provider.name,
+      providerReference: null,
+      attempts: 0,
+      lastError: null,
+      requestedBy,
+      approvalRequired,
+      requestId: getRequestId() || null,
+      createdAt: admin.firestore.Timestamp.now(),
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+
+    return { refundAmount: reserved.amount, status: initialStatus };
+  });
+
+  logger.info(`✅ Demande de remboursement créée: ${refundId} (${refundAmount} FCFA, ${status})`);
+  recordRefund(operator || "unknown", "requested", refundAmount);
+
+  if (status === "PENDING_APPROVAL") {
+    await db.collection("notifications").add({
+      recipientId: "admin",
+      recipientType: "admin",
+      campaignId: transactionDoc.data()?.campaignId || null,
+      type: "refund_approval_required",
+      message: `Remboursement ${refundId} de ${refundAmount} FCFA à approuver (demandé par un autre administrateur).`,
+      createdAt: admin.firestore.Timestamp.now(),
+      isRead: false,
+    });
+
+    return {
+      success: true,
+      refundId,
+      status,
+      message: "Remboursement en attente d'approbation par un second administrateur.",
+    };
+  }
+
+  return dispatchRefund(refundId, status);
+}
+
+/**
+ * Exécute un remboursement prêt (PENDING) ou laisse la demande en traitement manuel
+ */
+async function dispatchRefund(refundId: string, status: RefundStatus): Promise<RefundResponse> {
+  // Note: si le fournisseur ne supporte pas les remboursements, la demande reste
+  // enregistrée pour traitement manuel.
+  if (status === "PENDING_MANUAL") {
+    return {
+      success: true,
+      refundId,
+      status,
+      message: "Demande de remboursement enregistrée. Traitement manuel requis.",
+    };
+  }
+
+  const result = await executeRefund(refundId);
+
+  return {
+    success: true,
+    refundId,
+    status: result,
+    message:
+      result === "FAILED"
+        ? "Le remboursement a échoué. Il peut être relancé ou annulé."
+        : "Remboursement transmis au fournisseur de paiement.",
+  };
+}
+
+/**
+ * Approuve un remboursement au-delà du seuil (admin différent du demandeur), puis l'exécute
+ */
+export async function approveRefund(refundId: string, adminId: string): Promise<RefundResponse> {
+  const refundRef = refundsCollection().doc(refundId);
+
+  const status = await admin.firestore().runTransaction(async (tx) => {
+    const refund = (await tx.get(refundRef)).data() as RefundRecord | undefined;
+
+    if (!refund) {
+      throw new NotFoundError("Remboursement introuvable");
+    }
+
+    if (refund.status !== "PENDING_APPROVAL") {
+      throw new InvalidStatusError(`Seul un remboursement en attente d'approbation peut être approuvé (statut ${refund.status})`);
+    }
+
+    if (refund.requestedBy === adminId) {
+      throw new PermissionDeniedError("Le remboursement doit être approuvé par un autre administrateur que le demandeur");
+    }
+
+    const provider = getPaymentProvider(refund.provider);
+    const nextStatus: RefundStatus = provider.capabilities.refunds && refund.operator ? "PENDING" : "PENDING_MANUAL";
+
+    tx.update(refundRef, {
+      status: nextStatus,
+      approvedBy: adminId,
+      approvedAt: admin.firestore.Timestamp.now(),
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+
+    return nextStatus;
+  });
+
+  logger.info(`✅ Remboursement ${refundId} approuvé par ${adminId}`);
+
+  return dispatchRefund(refundId, status);
+}
+
+/**
+ * Transmet un remboursement PENDING au fournisseur
+ * Un échec d'envoi passe le remboursement en FAILED (relance ou annulation par un admin)
+ * @returns le statut du remboursement après l'envoi
+ */
+async function executeRefund(refundId: string): Promise<RefundStatus> {
+  const refundRef = refundsCollection().doc(refundId);
+  const refund = (await refundRef.get()).data() as RefundRecord;
+  const provider = getPaymentProvider(refund.provider);
+
+  // Jeton secret propre à cette tentative, vérifié à la réception du callback: les hashs
+  // des tentatives précédentes restent acceptés (callback tardif d'un envoi antérieur)
+  const callbackToken = generateSecretToken();
+  const attempts = (refund.attempts || 0) + 1;
+
+  await refundRef.update({
+    attempts,
+    callbackTokenHashes: admin.firestore.FieldValue.arrayUnion(sha256(callbackToken)),
+    updatedAt: admin.firestore.Timestamp.now(),
+  });
+
+  try {
+    const result = await provider.refund({
+      refundId,
+      referenceId: refund.originalReferenceId,
+      amount: refund.amount,
+      phoneNumber: refund.phoneNumber,
+      operator: refund.operator as PaymentOperator,
+      reason: refund.reason,
+      callbackUrl: `${CALLBACK_CONFIG.refundUrl}?token=${callbackToken}`,
+    });
+
+    await refundRef.update({
+      status: "PROCESSING",
+      providerReference: result.providerReference || null,
+      providerResponse: result.raw,
+      lastError: null,
+      lastAttemptSent: true,
+      // Première vérification par le job de réconciliation si aucun callback n'arrive
+      reconcileAfter: admin.firestore.Timestamp.fromMillis(
+        Date.now() + RECONCILER_CONFIG.minCheckIntervalSeconds * 1000
+      ),
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+
+    logger.info(`✅ Remboursement ${refundId} transmis à ${provider.name} (tentative ${attempts})`);
+
+    if (result.status !== "PENDING") {
+      return applyRefundStatus(refundRef, { status: result.status, reason: result.reason }, "admin");
+    }
+
+    return "PROCESSING";
+  } catch (error: any) {
+    logger.error(`❌ Erreur envoi remboursement ${refundId}`, { error: error.message });
+
+    // Demande restée sans réponse: le versement a pu partir, le suivi de statut tranchera
+    // (un échec permettrait une relance, donc un double versement)
+    if (error instanceof ProviderOutcomeUnknownError) {
+      await refundRef.update({
+        status: "PROCESSING",
+        lastError: error.message,
+        lastAttemptSent: true,
+        reconcileAfter: admin.firestore.Timestamp.fromMillis(
+          Date.now() + RECONCILER_CONFIG.minCheckIntervalSeconds * 1000
+        ),
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+      return "PROCESSING";
+    }
+
+    return applyRefundStatus(
+      refundRef,
+      { status: "FAILED", reason: error.message, updates: { lastAttemptSent: false } },
+      "admin",
+      ["PENDING"]
+    );
+  }
+}
+
+/**
+ * Applique une issue fournisseur (ou confirmée par un admin) à un remboursement
+ * Une issue déjà connue n'est pas réécrite (callback et polling peuvent se croiser)
+ * @param expectedStatuses - Statuts du remboursement pour lesquels l'issue est appliquée
+ * @returns le statut du remboursement après application
+ */
+async function applyRefundStatus(
+  refundRef: FirebaseFirestore.DocumentReference,
+  observed: {
+    status: ProviderPaymentStatus;
+    reason?: string;
+    raw?: Record<string, unknown>;
+    updates?: Record<string, unknown>;
+  },
+  source: PaymentTransitionSource,
+  expectedStatuses: RefundStatus[] = ["PROCESSING"]
+): Promise<RefundStatus> {
+  if (observed.status === "PENDING") {
+    return "PROCESSING";
+  }
+
+  const outcome = await admin.firestore().runTransaction(async (tx) => {
+    const doc = await tx.get(refundRef);
+    const refund = doc.data() as RefundRecord | undefined;
+
+    if (!refund) {
+      throw new NotFoundError("Remboursement introuvable");
+    }
+
+    if (!expectedStatuses.includes(refund.status)) {
+      return { status: refund.status, changed: false, refund };
+    }
+
+    tx.update(refundRef, {
+      status: observed.status,
+      lastError: observed.status === "FAILED" ? observed.reason || "Remboursement refusé" : null,
+      ...(observed.raw ? { providerStatusResponse: observed.raw } : {}),
+      ...(observed.status === "SUCCESSFUL" ? { refundedAt: admin.firestore.Timestamp.now() } : {}),
+      ...observed.updates,
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+
+    return { status: observed.status as RefundStatus, changed: true, refund };
+  });
+
+  if (!outcome.changed) {
+    return outcome.status;
+  }
+
+  logger.info(`💸 Remboursement ${refundRef.id}: ${outcome.status}`);
+  recordRefund(outcome.refund.operator || "unknown", outcome.status, outcome.refund.amount);
+
+  await settleRefundedTransaction(outcome.refund.originalReferenceId, source);
+  await notifyRefundOutcome(outcome.refund, outcome.status, observed.reason);
+
+  // Avoir émis à la demande s'il échoue ici
+  if (outcome.status === "SUCCESSFUL") {
+    try {
+      await issueCreditNote(refundRef.id);
+    } catch (error: any) {
+      logger.error(`❌ Erreur émission de l'avoir ${refundRef.id}`, { error: error.message });
+    }
+
+    await emitMerchantEvent("refund.completed", {
+      refundId: refundRef.id,
+      referenceId: outcome.refund.originalReferenceId,
+      campaignId: outcome.refund.campaignId,
+      amount: outcome.refund.amount,
+      currency: YNOTE_CONFIG.currency,
+      operator: outcome.refund.operator || null,
+      reason: outcome.refund.reason,
+    });
+  }
+
+  return outcome.status;
+}
+
+/**
+ * Recalcule le statut de la transaction d'origine (et de la campagne) d'après ses remboursements
+ */
+async function settleRefundedTransaction(referenceId: string, source: PaymentTransitionSource): Promise<void> {
+  const db = admin.firestore();
+  const transactionRef = db.collection(FIRESTORE_COLLECTIONS.transactions).doc(referenceId);
+
+  const refunds = await refundsCollection().where("originalReferenceId", "==", referenceId).get();
+  const transactionDoc = await transactionRef.get();
+  const transactionData = transactionDoc.data();
+
+  if (!transactionData) {
+    return;
+  }
+
+  const refunded = sumRefunds(refunds.docs, ["SUCCESSFUL"]);
+  const inFlight = refunds.docs.some((doc) => IN_FLIGHT_REFUND_STATUSES.includes(doc.data().status));
+
+  let target: PaymentStatus = "SUCCESSFUL";
+  if (inFlight) {
+    target = "REFUND_PENDING";
+  } else if (refunded >= capturedAmount(transactionData)) {
+    target = "REFUNDED";
+  } else if (refunded > 0) {
+    target = "PARTIALLY_REFUNDED";
+  }
+
+  try {
+    await transitionPayment(transactionRef, target, {
+      source,
+      reason: `Total remboursé: ${refunded} FCFA`,
+      updates: { refundedAmount: refunded },
+    });
+  } catch (error: any) {
+    if (!(error instanceof InvalidTransitionError)) {
+      throw error;
+    }
+    logger.warn(`⚠️  Statut ${target} ignoré pour ${referenceId}: ${error.message}`);
+    return;
+  }
+
+  if (transactionData.campaignId) {
+    await db.collection("campaigns").doc(transactionData.campaignId).update({
+      paymentStatus: target,
+      refundedAmount: refunded,
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+  }
+}
+
+/**
+ * Notifie l'utilisateur d'un remboursement réussi, ou les admins d'un échec
+ */
+async function notifyRefundOutcome(refund: RefundRecord, status: RefundStatus, reason?: string): Promise<void> {
+  const db = admin.firestore();
+  const transactionDoc = await db.collection(FIRESTORE_COLLECTIONS.transactions).doc(refund.originalReferenceId).get();
+  const transactionData = transactionDoc.data();
+  const label = refund.operator ? OPERATOR_CONFIG[refund.operator].label : "Mobile Money";
+
+  if (status === "SUCCESSFUL" && transactionData?.userId) {
+    await db.collection("notifications").add({
+      recipientId: transactionData.userId,
+      recipientType: "user",
+      campaignId: refund.campaignId,
+      type: "payment_refunded",
+      message: `Remboursement de ${refund.amount} FCFA effectué sur votre compte ${label}.`,
+      createdAt: admin.firestore.Timestamp.now(),
+      isRead: false,
+    });
+  }
+
+  if (status === "FAILED") {
+    await db.collection("notifications").add({
+      recipientId: "admin",
+      recipientType: "admin",
+      campaignId: refund.campaignId,
+      type: "refund_failed",
+      message: `Échec du remboursement ${refund.refundId} (${refund.amount} FCFA): ${reason || "raison inconnue"}. Relancez-le ou annulez-le.`,
+      createdAt: admin.firestore.Timestamp.now(),
+      isRead: false,
+    });
+  }
+}
+
+/**
+ * Retrouve un remboursement à partir d'un callback (notre refundId ou le MessageId fournisseur)
+ */
+export async function resolveRefund(
+  refundId?: string,
+  providerReference?: string
+): Promise<FirebaseFirestore.DocumentSnapshot | null> {
+  if (refundId) {
+    const doc = await refundsCollection().doc(refundId).get();
+    if (doc.exists) {
+      return doc;
+    }
+  }
+
+  if (providerReference) {
+    const snapshot = await refundsCollection().where("providerReference", "==", providerReference).limit(1).get();
+    if (!snapshot.empty) {
+      return snapshot.docs[0];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Hashs des jetons de callback acceptés pour une transaction ou un remboursement
+ * (un jeton par tentative d'envoi d'un remboursement, callbackTokenHash sinon)
+ */
+export function callbackTokenHashes(data: FirebaseFirestore.DocumentData | undefined): string[] {
+  return [...(data?.callbackTokenHashes || []), ...(data?.callbackTokenHash ? [data.callbackTokenHash] : [])];
+}
+
+/**
+ * Traite le callback de remboursement d'un fournisseur
+ * @param providerName - Fournisseur ayant émis le callback (ex: "ynote")
+ */
+export async function handleRefundCallback(callbackData: PaymentCallbackData, providerName?: string): Promise<void> {
+  logger.info("📨 Callback remboursement reçu", { callback: callbackData });
+
+  const parsed = getPaymentProvider(providerName).parseRefundCallback(callbackData);
+
+  if (!parsed.refundId && !parsed.providerReference) {
+    throw new ValidationError("Référence de remboursement manquante dans le callback");
+  }
+
+  const refundDoc = await resolveRefund(parsed.refundId, parsed.providerReference);
+
+  if (!refundDoc) {
+    throw new NotFoundError("Remboursement introuvable");
+  }
+
+  await applyRefundStatus(refundDoc.ref, { status: parsed.status, reason: parsed.reason, raw: callbackData }, "callback");
+}
+
+/**
+ * Redemande au fournisseur le statut d'un remboursement en cours
+ * @returns le statut du remboursement après vérification
+ */
+export async function refreshRefundStatus(
+  refundDoc: FirebaseFirestore.DocumentSnapshot,
+  source: PaymentTransitionSource
+): Promise<RefundStatus> {
+  const refund = refundDoc.data() as RefundRecord;
+
+  if (refund.status !== "PROCESSING") {
+    return refund.status;
+  }
+
+  const result = await getPaymentProvider(refund.provider).getRefundStatus({
+    refundId: refund.refundId,
+    providerReference: refund.providerReference || undefined,
+    operator: refund.operator as PaymentOperator,
+  });
+
+  return applyRefundStatus(refundDoc.ref, { status: result.status, reason: result.reason, raw: result.raw }, source);
+}
+
+/**
+ * Convertit un remboursement Firestore en objet JSON (dates ISO, sans les hashs des jetons)
+ */
+function serializeRefund(data: FirebaseFirestore.DocumentData): Record<string, unknown> {
+  const { callbackTokenHash, callbackTokenHashes: tokenHashes, ...refund } = data;
+
+  return Object.fromEntries(
+    Object.entries(refund).map(([key, value]) => [
+      key,
+      value instanceof admin.firestore.Timestamp ? value.toDate().toISOString() : value,
+    ])
+  );
+}
+
+/**
+ * Récupère un remboursement (admin), en rafraîchissant son statut s'il est en cours
+ */
+export async function getRefund(refundId: string): Promise<Record<string, unknown>> {
+  const refundDoc = await refundsCollection().doc(refundId).get();
+
+  if (!refundDoc.exists) {
+    throw new NotFoundError("Remboursement introuvable");
+  }
+
+  if (refundDoc.data()?.status === "PROCESSING") {
+    try {
+      await refreshRefundStatus(refundDoc, "poll");
+    } catch (error: any) {
+      logger.warn(`⚠️  Statut du remboursement ${refundId} indisponible`, { error: error.message });
+    }
+  }
+
+  return serializeRefund((await refundsCollection().doc(refundId).get()).data() || {});
+}
+
+/**
+ * Liste les remboursements d'une transaction (admin), du plus ancien au plus récent
+ */
+export async function listTransactionRefunds(referenceId: string): Promise<Record<string, unknown>[]> {
+  const snapshot = await refundsCollection().where("originalReferenceId", "==", referenceId).get();
+
+  return snapshot.docs
+    .sort((a, b) => (a.data().createdAt?.toMillis() || 0) - (b.data().createdAt?.toMillis() || 0))
+    .map((doc) => serializeRefund(doc.data()));
+}
+
+/**
+ * Issue chez le fournisseur de la dernière tentative d'un remboursement en échec
+ * @returns null si aucune demande n'est partie (jamais envoyé ou refusé à l'envoi)
+ */
+async function checkPreviousAttempt(refund: RefundRecord): Promise<ProviderPaymentStatus | null> {
+  if (!refund.attempts || refund.lastAttemptSent === false || !refund.operator) {
+    return null;
+  }
+
+  const result = await getPaymentProvider(refund.provider).getRefundStatus({
+    refundId: refund.refundId,
+    providerReference: refund.providerReference || undefined,
+    operator: refund.operator,
+  });
+
+  return result.status;
+}
+
+/**
+ * Relance un remboursement en échec (admin)
+ * Le plafond est revérifié: d'autres remboursements ont pu aboutir entre-temps. Une
+ * tentative précédente réussie ou encore en cours n'est pas renvoyée.
+ */
+export async function retryRefund(refundId: string, adminId: string): Promise<RefundResponse> {
+  const db = admin.firestore();
+  const refundRef = refundsCollection().doc(refundId);
+  const current = (await refundRef.get()).data() as RefundRecord | undefined;
+
+  if (!current) {
+    throw new NotFoundError("Remboursement introuvable");
+  }
+
+  if (current.status !== "FAILED") {
+    throw new InvalidStatusError(`Seul un remboursement en échec peut être relancé (statut ${current.status})`);
+  }
+
+  // Tentative précédente parvenue au fournisseur: son issue est vérifiée avant tout nouvel
+  // envoi (un versement réussi après coup serait sinon payé deux fois)
+  const previous = await checkPreviousAttempt(current);
+
+  if (previous === "SUCCESSFUL") {
+    const status = await applyRefundStatus(refundRef, { status: "SUCCESSFUL" }, "admin", ["FAILED"]);
+    logger.warn(`⚠️  Remboursement ${refundId}: la tentative précédente a abouti, aucun nouvel envoi`);
+    return {
+      success: true,
+      refundId,
+      status,
+      message: "La tentative précédente a finalement abouti: aucun nouveau versement n'a été envoyé.",
+    };
+  }
+
+  const nextStatus: RefundStatus = previous === "PENDING" ? "PROCESSING" : "PENDING";
+
+  await db.runTransaction(async (tx) => {
+    const refund = (await tx.get(refundRef)).data() as RefundRecord | undefined;
+
+    if (!refund) {
+      throw new NotFoundError("Remboursement introuvable");
+    }
+
+    if (refund.status !== "FAILED") {
+      throw new InvalidStatusError(`Seul un remboursement en échec peut être relancé (statut ${refund.status})`);
+    }
+
+    const transactionRef = db.collection(FIRESTORE_COLLECTIONS.transactions).doc(refund.originalReferenceId);
+    await reserveRefundAmount(tx, transactionRef, refund.amount, {
+      actor: adminId,
+      reason: `Relance du remboursement ${refundId}`,
+      excludeRefundId: refundId,
+    });
+
+    tx.update(refundRef, {
+      status: nextStatus,
+      retriedBy: adminId,
+      // Tentative précédente encore en cours: suivie par le job de réconciliation
+      ...(nextStatus === "PROCESSING" && { reconcileAfter: admin.firestore.Timestamp.now() }),
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+  });
+
+  if (nextStatus === "PROCESSING") {
+    logger.warn(`⚠️  Remboursement ${refundId}: tentative précédente encore en cours, aucun nouvel envoi`);
+    return {
+      success: true,
+      refundId,
+      status: nextStatus,
+      message: "La tentative précédente est encore en cours chez l'opérateur: son issue sera suivie, aucun nouveau versement n'a été envoyé.",
+    };
+  }
+
+  logger.info(`🔁 Relance du remboursement ${refundId} par ${adminId}`);
+
+  const status = await executeRefund(refundId);
+
+  return {
+    success: true,
+    refundId,
+    status,
+    message: status === "FAILED" ? "Le remboursement a de nouveau échoué." : "Remboursement relancé.",
+  };
+}
+
+/**
+ * Clôture un remboursement en traitement manuel, une fois le versement effectué (admin)
+ * Même suite qu'un succès fournisseur: statut de la transaction, avoir et événement refund.completed
+ */
+export async function completeManualRefund(
+  refundId: string,
+  adminId: string,
+  request: CompleteRefundRequest
+): Promise<RefundResponse> {
+  const refundRef = refundsCollection().doc(refundId);
+  const refund = (await refundRef.get()).data() as RefundRecord | undefined;
+
+  if (!refund) {
+    throw new NotFoundError("Remboursement introuvable");
+  }
+
+  if (refund.status !== "PENDING_MANUAL") {
+    throw new InvalidStatusError(`Seul un remboursement en traitement manuel peut être clôturé (statut ${refund.status})`);
+  }
+
+  // Vérifié à nouveau dans la transaction: une annulation concurrente l'emporte
+  const status = await applyRefundStatus(
+    refundRef,
+    {
+      status: "SUCCESSFUL",
+      updates: {
+        operatorReference: request.operatorReference,
+        completionNote: request.note || null,
+        completedBy: adminId,
+      },
+    },
+    "admin",
+    ["PENDING_MANUAL"]
+  );
+
+  if (status !== "SUCCESSFUL") {
+    throw new InvalidStatusError(`Seul un remboursement en traitement manuel peut être clôturé (statut ${status})`);
+  }
+
+  logger.info(`✅ Remboursement manuel ${refundId} clôturé par ${adminId} (réf. ${request.operatorReference})`);
+
+  return {
+    success: true,
+    refundId,
+    status,
+    message: "Remboursement manuel enregistré comme effectué.",
+  };
+}
+
+/**
+ * Annule un remboursement en échec, en attente de traitement manuel ou d'approbation (admin)
+ * Annuler une demande en attente d'approbation revient à la refuser
+ */
+export async function cancelRefund(refundId: string, adminId: string, reason?: string): Promise<RefundResponse> {
+  const refundRef = refundsCollection().doc(refundId);
+
+  const refund = await admin.firestore().runTransaction(async (tx) => {
+    const data = (await tx.get(refundRef)).data() as RefundRecord | undefined;
+
+    if (!data) {
+      throw new NotFoundError("Remboursement introuvable");
+    }
+
+    if (!["FAILED", "PENDING_MANUAL", "PENDING_APPROVAL"].includes(data.status)) {
+      throw new InvalidStatusError(
+        `Seul un remboursement en échec, manuel ou en attente d'approbation peut être annulé (statut ${data.status})`
+      );
+    }
+
+    tx.update(refundRef, {
+      status: "CANCELLED",
+      cancelledBy: adminId,
+      cancelReason: reason || null,
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+
+    return data;
+  });
+
+  logger.info(`🚫 Remboursement ${refundId} annulé par ${adminId}`);
+
+  await settleRefundedTransaction(refund.originalReferenceId, "admin");
+
+  return {
+    success: true,
+    refundId,
+    status: "CANCELLED",
+    message: "Remboursement annulé.",
+  };
+}
+
+export default {
+  createRefundRequest,
+  approveRefund,
+  resolveRefund,
+  handleRefundCallback,
+  refreshRefundStatus,
+  getRefund,
+  listTransactionRefunds,
+  retryRefund,
+  completeManualRefund,
+  cancelRefund,
+};
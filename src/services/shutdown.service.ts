@@ -0,0 +1,145 @@
+/**
+ * Arrêt propre de l'instance (SIGTERM / SIGINT)
+ *
+ * Un arrêt brutal pendant une initiation peut envoyer le push USSD au client sans que
+ * la suite soit enregistrée. À la réception du signal:
+ *
+ * 1. la readiness passe à false (le load balancer retire l'instance), puis après
+ *    SHUTDOWN_DRAIN_DELAY_MS le serveur refuse les nouvelles connexions
+ * 2. les workers s'arrêtent après leur passage en cours, les flux de statut (SSE,
+ *    WebSocket) sont fermés: le client se reconnecte sur une autre instance
+ * 3. l'instance attend la fin des requêtes HTTP et des traitements lancés en
+ *    arrière-plan (callbacks, livraisons de webhooks marchands), au plus SHUTDOWN_TIMEOUT_MS
+ * 4. les métriques sont écrites dans les logs, Firestore est fermé, les logs sont vidés
+ *
+ * Si le délai est dépassé, le processus se termine quand même (code 1): les marqueurs
+ * d'initiation restants sont repris au démarrage suivant (recoverOrphanedInitiations).
+ */
+
+import { Server } from "http";
+import { SHUTDOWN_CONFIG } from "../config/env";
+import { closeFirebase } from "./payment.service";
+import { closeAllPaymentStreams } from "./payment-stream.service";
+import { getMetricsSummary } from "./metrics.service";
+import { stopWebhookWorker } from "../workers/webhook.worker";
+import { stopReconcilerWorker } from "../workers/reconciler.worker";
+import { stopMerchantWebhookWorker } from "../workers/merchant-webhook.worker";
+import logger, { flushLogs } from "../utils/logger";
+
+let shuttingDown = false;
+let inFlightRequests = 0;
+
+// Traitements lancés après la réponse HTTP (ex: première tentative d'un callback)
+const backgroundTasks = new Set<Promise<unknown>>();
+
+/**
+ * L'instance est en cours d'arrêt (readiness à false)
+ */
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
+
+/**
+ * Compte une requête HTTP en cours
+ * @returns la fonction de fin de requête, idempotente
+ */
+export function trackRequest(): () => void {
+  inFlightRequests++;
+
+  let done = false;
+  return () => {
+    if (!done) {
+      done = true;
+      inFlightRequests--;
+    }
+  };
+}
+
+/**
+ * Suit un traitement lancé sans être attendu: l'arrêt attend sa fin
+ */
+export function trackBackgroundTask<T>(task: Promise<T>): Promise<T> {
+  const tracked: Promise<unknown> = task.catch(() => undefined).finally(() => backgroundTasks.delete(tracked));
+  backgroundTasks.add(tracked);
+  return task;
+}
+
+/**
+ * Attend la fin des requêtes et traitements en cours
+ */
+async function waitForInFlightWork(): Promise<void> {
+  while (inFlightRequests > 0 || backgroundTasks.size > 0) {
+    await Promise.race([
+      Promise.allSettled([...backgroundTasks]),
+      new Promise((resolve) => setTimeout(resolve, 100)),
+    ]);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Arrête l'instance puis termine le processus
+ * Un second signal pendant l'arrêt termine le processus immédiatement.
+ */
+export async function shutdown(server: Server, signal: string): Promise<void> {
+  if (shuttingDown) {
+    logger.warn(`⚠️  ${signal} reçu pendant l'arrêt: arrêt immédiat`);
+    await flushLogs();
+    process.exit(1);
+  }
+
+  shuttingDown = true;
+  const deadline = Date.now() + SHUTDOWN_CONFIG.timeoutMs;
+
+  logger.info(`👋 Arrêt du serveur (${signal})...`, {
+    drainDelayMs: SHUTDOWN_CONFIG.drainDelayMs,
+    timeoutMs: SHUTDOWN_CONFIG.timeoutMs,
+    inFlightRequests,
+  });
+
+  // Laisser le load balancer constater la readiness à false
+  await sleep(SHUTDOWN_CONFIG.drainDelayMs);
+
+  server.close();
+  server.closeIdleConnections();
+
+  closeAllPaymentStreams();
+
+  const drained = await Promise.race([
+    Promise.all([
+      stopWebhookWorker(),
+      stopReconcilerWorker(),
+      stopMerchantWebhookWorker(),
+      waitForInFlightWork(),
+    ]).then(() => true),
+    sleep(Math.max(deadline - Date.now(), 0)).then(() => false),
+  ]);
+
+  if (drained) {
+    logger.info("✅ Requêtes et traitements en cours terminés");
+  } else {
+    logger.warn("⚠️  Délai d'arrêt dépassé: traitements en cours abandonnés", {
+      inFlightRequests,
+      backgroundTasks: backgroundTasks.size,
+    });
+    server.closeAllConnections();
+  }
+
+  logger.info("📊 Métriques à l'arrêt", await getMetricsSummary());
+
+  await closeFirebase().catch((error: any) => logger.error("❌ Erreur fermeture Firestore", { error: error.message }));
+
+  logger.info("👋 Serveur arrêté");
+  await flushLogs();
+  process.exit(drained ? 0 : 1);
+}
+
+export default {
+  isShuttingDown,
+  trackRequest,
+  trackBackgroundTask,
+  shutdown,
+};
@@ -0,0 +1,159 @@
+/**
+ * Cache des statuts de paiement renvoyés par le fournisseur
+ *
+ * Chaque polling client appelait l'API de statut Y-Note: avec de nombreux clients, les
+ * limites de débit (429) sont vite atteintes. Ce cache, propre à l'instance:
+ * - conserve un statut SUCCESSFUL jusqu'à éviction: il ne changera plus
+ * - réutilise un statut FAILED pendant STATUS_CACHE_FAILED_TTL_SECONDS: un succès confirmé
+ *   après coup par le fournisseur (FAILED -> SUCCESSFUL) doit rester visible
+ * - réutilise un statut PENDING pendant STATUS_CACHE_PENDING_TTL_SECONDS
+ * - n'appelle pas le fournisseur plus d'une fois par STATUS_MIN_POLL_INTERVAL_SECONDS
+ *   pour une même référence (le dernier statut connu est servi entre-temps)
+ * - fusionne les appels simultanés pour une même référence en une seule requête
+ * Les erreurs du fournisseur ne sont pas mises en cache.
+ */
+
+import { STATUS_CACHE_CONFIG } from "../config/env";
+import { PaymentProvider, ProviderStatusQuery, ProviderStatusResult } from "../types/payment.types";
+
+interface CacheEntry {
+  result: ProviderStatusResult;
+  fetchedAt: number;
+}
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<ProviderStatusResult>>();
+
+const stats = {
+  hits: 0,
+  throttled: 0,
+  coalesced: 0,
+  misses: 0,
+};
+
+/**
+ * Durée de validité d'un statut en cache
+ */
+function ttlMs(result: ProviderStatusResult): number {
+  if (result.status === "SUCCESSFUL") {
+    return Infinity;
+  }
+
+  const seconds = result.status === "FAILED" ? STATUS_CACHE_CONFIG.failedTtlSeconds : STATUS_CACHE_CONFIG.pendingTtlSeconds;
+  return seconds * 1000;
+}
+
+function cacheKey(provider: PaymentProvider, query: ProviderStatusQuery): string {
+  return `${provider.name}:${query.referenceId}`;
+}
+
+/**
+ * Enregistre un résultat (réinsertion: l'ordre de la Map sert d'ordre d'éviction)
+ */
+function store(key: string, result: ProviderStatusResult): void {
+  entries.delete(key);
+  entries.set(key, { result, fetchedAt: Date.now() });
+
+  while (entries.size > STATUS_CACHE_CONFIG.maxEntries) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    entries.delete(oldest);
+  }
+}
+
+/**
+ * Appelle le fournisseur, une seule requête à la fois par référence
+ */
+function fetchStatus(provider: PaymentProvider, query: ProviderStatusQuery, key: string): Promise<ProviderStatusResult> {
+  const pending = provider
+    .getPaymentStatus(query)
+    .then((result) => {
+      store(key, result);
+      return result;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === pending) {
+        inFlight.delete(key);
+      }
+    });
+
+  inFlight.set(key, pending);
+  return pending;
+}
+
+/**
+ * Statut d'un paiement chez le fournisseur, depuis le cache si possible
+ * @param options.fresh - Ignorer le cache et les requêtes en cours (ex: contre-vérification
+ *   d'un callback, qui doit voir un changement survenu depuis le dernier polling)
+ */
+export async function getProviderPaymentStatus(
+  provider: PaymentProvider,
+  query: ProviderStatusQuery,
+  options: { fresh?: boolean } = {}
+): Promise<ProviderStatusResult> {
+  if (!STATUS_CACHE_CONFIG.enabled) {
+    return provider.getPaymentStatus(query);
+  }
+
+  const key = cacheKey(provider, query);
+
+  if (options.fresh) {
+    stats.misses++;
+    return fetchStatus(provider, query, key);
+  }
+
+  const entry = entries.get(key);
+  if (entry) {
+    const ageMs = Date.now() - entry.fetchedAt;
+
+    if (ageMs < ttlMs(entry.result)) {
+      stats.hits++;
+      return entry.result;
+    }
+
+    if (ageMs < STATUS_CACHE_CONFIG.minPollIntervalSeconds * 1000) {
+      stats.throttled++;
+      return entry.result;
+    }
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    stats.coalesced++;
+    return pending;
+  }
+
+  stats.misses++;
+  return fetchStatus(provider, query, key);
+}
+
+/**
+ * Compteurs du cache depuis le démarrage de l'instance
+ * hitRate: part des consultations servies sans nouvel appel au fournisseur
+ */
+export function getStatusCacheStats(): {
+  entries: number;
+  inFlight: number;
+  hits: number;
+  throttled: number;
+  coalesced: number;
+  misses: number;
+  hitRate: number;
+} {
+  const served = stats.hits + stats.throttled + stats.coalesced;
+  const total = served + stats.misses;
+
+  return {
+    entries: entries.size,
+    inFlight: inFlight.size,
+    ...stats,
+    hitRate: total > 0 ? Math.round((served / total) * 10000) / 10000 : 0,
+  };
+}
+
+export default {
+  getProviderPaymentStatus,
+  getStatusCacheStats,
+};
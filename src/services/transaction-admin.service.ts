@@ -0,0 +1,131 @@
+/**
+ * Consultation des transactions par les administrateurs
+ * Recherche multi-critères paginée et vue détaillée (réponses brutes du fournisseur,
+ * historique des statuts, campagne et remboursements liés)
+ */
+
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS } from "../config/env";
+import { TransactionSearchFilters } from "../types/payment.types";
+import { formatPhoneNumber } from "../utils/phone";
+import { resolveTransaction } from "./reference.service";
+import { listTransactionRefunds } from "./refund.service";
+import { NotFoundError, ValidationError } from "../utils/errors";
+
+// Champs internes jamais exposés, même aux administrateurs
+const HIDDEN_FIELDS = ["callbackTokenHash"];
+
+/**
+ * Convertit un document Firestore en objet JSON (dates ISO, sans les champs internes)
+ */
+function serializeDoc(data: FirebaseFirestore.DocumentData): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data)
+      .filter(([key]) => !HIDDEN_FIELDS.includes(key))
+      .map(([key, value]) => [key, value instanceof admin.firestore.Timestamp ? value.toDate().toISOString() : value])
+  );
+}
+
+/**
+ * Recherche des transactions, de la plus récente à la plus ancienne
+ * Pagination par curseur: passer le nextCursor renvoyé pour obtenir la page suivante
+ * @throws ValidationError si le curseur ne correspond à aucune transaction
+ */
+export async function searchTransactions(
+  filters: TransactionSearchFilters
+): Promise<{ transactions: Record<string, unknown>[]; nextCursor: string | null }> {
+  const collection = admin.firestore().collection(FIRESTORE_COLLECTIONS.transactions);
+  let query: FirebaseFirestore.Query = collection;
+
+  if (filters.status) {
+    query = query.where("status", "==", filters.status);
+  }
+
+  if (filters.campaignId) {
+    query = query.where("campaignId", "==", filters.campaignId);
+  }
+
+  if (filters.userId) {
+    query = query.where("userId", "==", filters.userId);
+  }
+
+  if (filters.phoneNumber) {
+    query = query.where("phoneNumber", "==", formatPhoneNumber(filters.phoneNumber));
+  }
+
+  if (filters.from) {
+    query = query.where("createdAt", ">=", admin.firestore.Timestamp.fromDate(filters.from));
+  }
+
+  if (filters.to) {
+    query = query.where("createdAt", "<=", admin.firestore.Timestamp.fromDate(filters.to));
+  }
+
+  if (filters.minAmount !== undefined) {
+    query = query.where("amount", ">=", filters.minAmount);
+  }
+
+  if (filters.maxAmount !== undefined) {
+    query = query.where("amount", "<=", filters.maxAmount);
+  }
+
+  query = query.orderBy("createdAt", "desc").orderBy(admin.firestore.FieldPath.documentId(), "desc");
+
+  if (filters.cursor) {
+    const cursorDoc = await collection.doc(filters.cursor).get();
+    if (!cursorDoc.exists) {
+      throw ValidationError.forField("cursor", "Curseur de pagination invalide");
+    }
+    query = query.startAfter(cursorDoc);
+  }
+
+  const limit = Math.min(Math.max(filters.limit || 20, 1), 100);
+
+  // Un document de plus pour savoir s'il existe une page suivante
+  const snapshot = await query.limit(limit + 1).get();
+  const docs = snapshot.docs.slice(0, limit);
+
+  return {
+    transactions: docs.map((doc) => serializeDoc(doc.data())),
+    nextCursor: snapshot.docs.length > limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+/**
+ * Vue détaillée d'une transaction
+ * @param referenceId - Notre référence, le MessageId fournisseur ou l'ID opérateur
+ * @throws NotFoundError si la transaction est introuvable
+ */
+export async function getTransactionDetail(referenceId: string): Promise<Record<string, unknown>> {
+  const transactionDoc = await resolveTransaction(referenceId);
+
+  if (!transactionDoc) {
+    throw new NotFoundError("Transaction introuvable");
+  }
+
+  const data = transactionDoc.data() || {};
+
+  const [history, campaignDoc, refunds] = await Promise.all([
+    transactionDoc.ref.collection(FIRESTORE_COLLECTIONS.statusHistory).orderBy("createdAt").get(),
+    data.campaignId ? admin.firestore().collection("campaigns").doc(data.campaignId).get() : Promise.resolve(null),
+    listTransactionRefunds(transactionDoc.id),
+  ]);
+
+  return {
+    transaction: serializeDoc(data),
+    providerData: {
+      ynoteResponse: data.ynoteResponse || null,
+      ynoteStatusResponse: data.ynoteStatusResponse || null,
+      // mtnCallbackData: transactions antérieures à l'abstraction fournisseur
+      callbackData: data.callbackData || data.mtnCallbackData || null,
+    },
+    statusHistory: history.docs.map((doc) => serializeDoc(doc.data())),
+    campaign: campaignDoc?.exists ? { id: campaignDoc.id, ...serializeDoc(campaignDoc.data() || {}) } : null,
+    refunds,
+  };
+}
+
+export default {
+  searchTransactions,
+  getTransactionDetail,
+};
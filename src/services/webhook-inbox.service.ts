@@ -0,0 +1,425 @@
+/**
+ * Boîte de réception des callbacks fournisseur
+ *
+ * Chaque callback authentifié est d'abord persisté dans webhook_events (l'ID du
+ * document est une clé de déduplication), puis traité de manière asynchrone:
+ * - un callback reçu plusieurs fois n'est traité qu'une fois
+ * - une erreur transitoire (Firestore indisponible, callback arrivé avant l'écriture
+ *   de la transaction) est retentée avec un backoff exponentiel
+ * - après WEBHOOK_MAX_ATTEMPTS échecs, l'événement passe en DEAD_LETTER
+ * - le hash du jeton ?token= reçu est conservé: un callback arrivé avant l'écriture de
+ *   sa transaction n'a pas pu être vérifié par le middleware, il l'est avant d'être appliqué
+ */
+
+import * as admin from "firebase-admin";
+import { FIRESTORE_COLLECTIONS, WEBHOOK_INBOX_CONFIG, WEBHOOK_SECURITY_CONFIG } from "../config/env";
+import {
+  PaymentCallbackData,
+  WebhookEvent,
+  WebhookEventKind,
+  WebhookEventQuery,
+  WebhookEventStatus,
+} from "../types/payment.types";
+import { getPaymentProvider } from "./providers/registry";
+import { handleCallback } from "./payment.service";
+import { callbackTokenHashes, handleRefundCallback, resolveRefund } from "./refund.service";
+import { resolveTransaction } from "./reference.service";
+import { recordSecurityEvent } from "./audit.service";
+import { safeEqual, sha256 } from "../utils/crypto";
+import logger from "../utils/logger";
+import { getRequestId, runWithRequestId } from "../utils/request-context";
+import { recordCallbackProcessed, recordCallbackReceived } from "./metrics.service";
+import {
+  EventInProgressError,
+  NotFoundError,
+  PermissionDeniedError,
+  UnknownProviderError,
+  ValidationError,
+} from "../utils/errors";
+
+export const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ["PENDING", "PROCESSING", "PROCESSED", "DEAD_LETTER"];
+
+// Code gRPC ALREADY_EXISTS renvoyé par Firestore sur create()
+const ALREADY_EXISTS = 6;
+
+/**
+ * Erreur qui ne disparaîtra pas avec une retentative (callback incomplet, fournisseur inconnu,
+ * jeton de callback invalide)
+ * Une transaction introuvable est retentée: le callback a pu arriver avant son écriture.
+ */
+function isPermanentError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof UnknownProviderError ||
+    error instanceof PermissionDeniedError
+  );
+}
+
+function eventsCollection(): FirebaseFirestore.CollectionReference {
+  return admin.firestore().collection(FIRESTORE_COLLECTIONS.webhookEvents);
+}
+
+/**
+ * Référence métier d'un callback (transaction ou remboursement)
+ */
+function extractReference(
+  providerName: string,
+  kind: WebhookEventKind,
+  payload: PaymentCallbackData
+): string | undefined {
+  const provider = getPaymentProvider(providerName);
+
+  if (kind === "refund") {
+    const parsed = provider.parseRefundCallback(payload);
+    return parsed.refundId || parsed.providerReference;
+  }
+
+  return provider.parseCallback(payload).referenceId;
+}
+
+/**
+ * Clé de déduplication d'un callback
+ * Un même changement de statut renvoyé par le fournisseur produit la même clé;
+ * sans référence exploitable, le contenu brut sert de clé.
+ * Le jeton fait partie de la clé: un faux callback reçu en premier ne peut pas faire
+ * passer le vrai pour un doublon.
+ */
+function computeDedupeKey(
+  providerName: string,
+  kind: WebhookEventKind,
+  payload: PaymentCallbackData,
+  tokenHash: string
+): string {
+  const provider = getPaymentProvider(providerName);
+
+  if (kind === "refund") {
+    const { refundId, providerReference, status } = provider.parseRefundCallback(payload);
+    if (refundId || providerReference) {
+      return sha256(`${providerName}:refund:${refundId || providerReference}:${status}:${tokenHash}`);
+    }
+  } else {
+    const { referenceId, status, financialTransactionId } = provider.parseCallback(payload);
+    if (referenceId) {
+      return sha256(`${providerName}:${referenceId}:${status}:${financialTransactionId || ""}:${tokenHash}`);
+    }
+  }
+
+  return sha256(`${providerName}:${kind}:raw:${JSON.stringify(payload)}:${tokenHash}`);
+}
+
+/**
+ * Vérifie le jeton de callback d'un événement avant de l'appliquer
+ * Document encore introuvable: le traitement échoue en NotFoundError et sera retenté.
+ * @throws PermissionDeniedError si le document porte un jeton et que le callback ne le fournit pas
+ */
+async function verifyEventToken(event: WebhookEvent): Promise<void> {
+  if (!WEBHOOK_SECURITY_CONFIG.requireCallbackToken) {
+    return;
+  }
+
+  const provider = getPaymentProvider(event.provider);
+  let doc: FirebaseFirestore.DocumentSnapshot | null = null;
+
+  if (event.kind === "refund") {
+    const { refundId, providerReference } = provider.parseRefundCallback(event.payload);
+    doc = refundId || providerReference ? await resolveRefund(refundId, providerReference) : null;
+  } else {
+    const { referenceId } = provider.parseCallback(event.payload);
+    doc = referenceId ? await resolveTransaction(referenceId) : null;
+  }
+
+  const expected = callbackTokenHashes(doc?.data());
+  const received = event.callbackTokenHash;
+  if (expected.length === 0 || (received && expected.some((tokenHash) => safeEqual(received, tokenHash)))) {
+    return;
+  }
+
+  await recordSecurityEvent({
+    type: "webhook_rejected",
+    reason: "Jeton de callback invalide ou manquant (vérifié au traitement)",
+    ip: event.ip || undefined,
+    referenceId: event.referenceId || undefined,
+    details: { provider: event.provider, kind: event.kind, code: "INVALID_CALLBACK_TOKEN", eventId: event.eventId },
+  });
+
+  throw new PermissionDeniedError("Jeton de callback invalide ou manquant");
+}
+
+/**
+ * Délai avant la prochaine tentative (exponentiel, plafonné)
+ */
+function backoffMs(attempts: number): number {
+  const seconds = WEBHOOK_INBOX_CONFIG.baseBackoffSeconds * Math.pow(2, Math.max(attempts - 1, 0));
+  return Math.min(seconds, WEBHOOK_INBOX_CONFIG.maxBackoffSeconds) * 1000;
+}
+
+/**
+ * Persiste un callback reçu
+ * @returns l'ID de l'événement et si c'est un doublon d'un callback déjà reçu
+ */
+export async function recordWebhookEvent(
+  providerName: string,
+  payload: PaymentCallbackData,
+  meta: { ip?: string; kind?: WebhookEventKind; callbackToken?: string } = {}
+): Promise<{ eventId: string; duplicate: boolean }> {
+  const kind = meta.kind || "payment";
+  // Seul le hash du jeton est conservé, comme sur les transactions
+  const callbackTokenHash = meta.callbackToken ? sha256(meta.callbackToken) : null;
+  const eventId = computeDedupeKey(providerName, kind, payload, callbackTokenHash || "");
+  const docRef = eventsCollection().doc(eventId);
+  const now = admin.firestore.Timestamp.now();
+  const referenceId = extractReference(providerName, kind, payload);
+
+  try {
+    await docRef.create({
+      eventId,
+      provider: providerName,
+      kind,
+      // Aller-retour JSON: Firestore refuse les valeurs undefined
+      payload: JSON.parse(JSON.stringify(payload || {})),
+      referenceId: referenceId || null,
+      callbackTokenHash,
+      status: "PENDING",
+      attempts: 0,
+      lastError: null,
+      duplicateCount: 0,
+      ip: meta.ip || null,
+      requestId: getRequestId() || null,
+      receivedAt: now,
+      lastReceivedAt: now,
+      nextAttemptAt: now,
+    });
+
+    logger.info(`📥 Callback ${providerName} (${kind}) enregistré: ${eventId} (ref: ${referenceId || "?"})`);
+    recordCallbackReceived(providerName, kind, false);
+    return { eventId, duplicate: false };
+  } catch (error: any) {
+    if (error.code !== ALREADY_EXISTS) {
+      throw error;
+    }
+
+    await docRef.update({
+      duplicateCount: admin.firestore.FieldValue.increment(1),
+      lastReceivedAt: now,
+    });
+
+    logger.info(`♻️  Callback ${providerName} déjà reçu: ${eventId}`);
+    recordCallbackReceived(providerName, kind, true);
+    return { eventId, duplicate: true };
+  }
+}
+
+/**
+ * Prend en charge un événement (bail exclusif) s'il est prêt à être traité
+ * @returns les données de l'événement, ou null s'il n'est pas à traiter maintenant
+ */
+async function claimEvent(docRef: FirebaseFirestore.DocumentReference): Promise<WebhookEvent | null> {
+  return admin.firestore().runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    const data = doc.data() as WebhookEvent | undefined;
+    const now = Date.now();
+
+    if (!doc.exists || !data) {
+      return null;
+    }
+
+    const ready =
+      (data.status === "PENDING" && data.nextAttemptAt.toMillis() <= now) ||
+      (data.status === "PROCESSING" && (data.leaseExpiresAt?.toMillis() || 0) <= now);
+
+    if (!ready) {
+      return null;
+    }
+
+    tx.update(docRef, {
+      status: "PROCESSING",
+      leaseExpiresAt: admin.firestore.Timestamp.fromMillis(now + WEBHOOK_INBOX_CONFIG.leaseSeconds * 1000),
+    });
+
+    return data;
+  });
+}
+
+/**
+ * Traite un événement de la boîte de réception
+ * Ne lève pas d'erreur de traitement: l'échec est enregistré sur l'événement
+ * @returns le statut de l'événement après traitement, ou null s'il n'était pas à traiter
+ */
+export async function processWebhookEvent(eventId: string): Promise<WebhookEventStatus | null> {
+  const docRef = eventsCollection().doc(eventId);
+  const event = await claimEvent(docRef);
+
+  if (!event) {
+    return null;
+  }
+
+  const attempts = (event.attempts || 0) + 1;
+
+  try {
+    await verifyEventToken(event);
+
+    if (event.kind === "refund") {
+      await handleRefundCallback(event.payload, event.provider);
+    } else {
+      await handleCallback(event.payload, event.provider);
+    }
+
+    await docRef.update({
+      status: "PROCESSED",
+      attempts,
+      lastError: null,
+      leaseExpiresAt: admin.firestore.FieldValue.delete(),
+      processedAt: admin.firestore.Timestamp.now(),
+    });
+
+    logger.info(`✅ Événement webhook ${eventId} traité (tentative ${attempts})`);
+    recordCallbackProcessed(event.kind || "payment", "processed");
+    return "PROCESSED";
+  } catch (error: any) {
+    const message: string = error.message || "Erreur inconnue";
+    const permanent = isPermanentError(error);
+    const deadLetter = permanent || attempts >= WEBHOOK_INBOX_CONFIG.maxAttempts;
+
+    await docRef.update({
+      status: deadLetter ? "DEAD_LETTER" : "PENDING",
+      attempts,
+      lastError: message,
+      leaseExpiresAt: admin.firestore.FieldValue.delete(),
+      nextAttemptAt: admin.firestore.Timestamp.fromMillis(Date.now() + backoffMs(attempts)),
+    });
+
+    if (deadLetter) {
+      logger.error(`💀 Événement webhook ${eventId} en dead-letter après ${attempts} tentative(s): ${message}`);
+      recordCallbackProcessed(event.kind || "payment", "dead_letter");
+      return "DEAD_LETTER";
+    }
+
+    logger.warn(`⚠️  Événement webhook ${eventId} en échec (tentative ${attempts}), nouvelle tentative planifiée: ${message}`);
+    recordCallbackProcessed(event.kind || "payment", "retry");
+    return "PENDING";
+  }
+}
+
+/**
+ * Traite les événements dus: retentatives arrivées à échéance et bails expirés
+ * @returns le nombre d'événements pris en charge
+ */
+export async function processDueWebhookEvents(limit: number = WEBHOOK_INBOX_CONFIG.batchSize): Promise<number> {
+  const now = admin.firestore.Timestamp.now();
+
+  const [due, stale] = await Promise.all([
+    eventsCollection()
+      .where("status", "==", "PENDING")
+      .where("nextAttemptAt", "<=", now)
+      .orderBy("nextAttemptAt")
+      .limit(limit)
+      .get(),
+    eventsCollection()
+      .where("status", "==", "PROCESSING")
+      .where("leaseExpiresAt", "<=", now)
+      .limit(limit)
+      .get(),
+  ]);
+
+  let processed = 0;
+
+  for (const doc of [...due.docs, ...stale.docs]) {
+    // Les logs et appels fournisseur de la retentative portent l'identifiant du callback d'origine
+    const requestId: string = doc.get("requestId") || doc.id;
+    if ((await runWithRequestId(requestId, () => processWebhookEvent(doc.id))) !== null) {
+      processed++;
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Convertit un événement Firestore en objet JSON (dates ISO)
+ */
+function serializeEvent(data: FirebaseFirestore.DocumentData): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      value instanceof admin.firestore.Timestamp ? value.toDate().toISOString() : value,
+    ])
+  );
+}
+
+/**
+ * Liste les événements (admin), du plus récent au plus ancien
+ */
+export async function listWebhookEvents(filters: WebhookEventQuery): Promise<Record<string, unknown>[]> {
+  let query: FirebaseFirestore.Query = eventsCollection();
+
+  if (filters.status) {
+    query = query.where("status", "==", filters.status);
+  }
+
+  if (filters.referenceId) {
+    query = query.where("referenceId", "==", filters.referenceId);
+  }
+
+  const limit = Math.min(Math.max(filters.limit || 50, 1), 200);
+  const snapshot = await query.orderBy("receivedAt", "desc").limit(limit).get();
+
+  return snapshot.docs.map((doc) => serializeEvent(doc.data()));
+}
+
+/**
+ * Récupère un événement (admin)
+ */
+export async function getWebhookEvent(eventId: string): Promise<Record<string, unknown>> {
+  const doc = await eventsCollection().doc(eventId).get();
+
+  if (!doc.exists) {
+    throw new NotFoundError("Événement webhook introuvable");
+  }
+
+  return serializeEvent(doc.data() || {});
+}
+
+/**
+ * Rejoue un événement (admin): remis à zéro puis traité immédiatement
+ * Utilisé pour les événements en dead-letter une fois la cause corrigée
+ */
+export async function replayWebhookEvent(eventId: string, adminId: string): Promise<Record<string, unknown>> {
+  const docRef = eventsCollection().doc(eventId);
+
+  await admin.firestore().runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    const data = doc.data() as WebhookEvent | undefined;
+
+    if (!doc.exists || !data) {
+      throw new NotFoundError("Événement webhook introuvable");
+    }
+
+    if (data.status === "PROCESSING" && (data.leaseExpiresAt?.toMillis() || 0) > Date.now()) {
+      throw new EventInProgressError("Événement webhook en cours de traitement");
+    }
+
+    tx.update(docRef, {
+      status: "PENDING",
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: admin.firestore.Timestamp.now(),
+      replayedBy: adminId,
+      replayedAt: admin.firestore.Timestamp.now(),
+    });
+  });
+
+  logger.info(`🔁 Replay de l'événement webhook ${eventId} par ${adminId}`);
+
+  await processWebhookEvent(eventId);
+
+  return getWebhookEvent(eventId);
+}
+
+export default {
+  recordWebhookEvent,
+  processWebhookEvent,
+  processDueWebhookEvents,
+  listWebhookEvents,
+  getWebhookEvent,
+  replayWebhookEvent,
+};
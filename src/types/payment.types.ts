@@ -1,16 +1,38 @@
 /**
- * Types pour le système de paiement Y-Note/MTN Mobile Money
+ * Types pour le système de paiement Y-Note (MTN Mobile Money / Orange Money)
  */
 
+// ============== OPÉRATEURS ==============
+
+/**
+ * Opérateur Mobile Money
+ */
+export type PaymentOperator = "mtn" | "orange";
+
+/**
+ * Configuration d'un opérateur chez Y-Note
+ */
+export interface OperatorConfig {
+  label: string;
+  paymentMethod: string;
+  statusPath: string;
+  // Méthode de versement Y-Note pour les remboursements
+  refundMethod: string;
+  prefixes: string[];
+}
+
 // ============== REQUÊTES ==============
 
 /**
- * Requête pour initier un paiement MTN
+ * Requête pour initier un paiement Mobile Money
+ * Si operator est absent, il est détecté à partir du préfixe du numéro
  */
 export interface InitiatePaymentRequest {
   campaignId: string;
-  amount: number;
+  // Optionnel: calculé depuis la campagne, sinon doit correspondre au montant dû
+  amount?: number;
   phoneNumber: string;
+  operator?: PaymentOperator;
   payerMessage?: string;
   payeeNote?: string;
 }
@@ -20,7 +42,6 @@ export interface InitiatePaymentRequest {
  */
 export interface CheckStatusRequest {
   referenceId: string;
-  campaignId?: string;
 }
 
 /**
@@ -28,24 +49,160 @@ export interface CheckStatusRequest {
  */
 export interface RefundRequest {
   referenceId: string;
-  amount: number;
-  phoneNumber: string;
+  // Par défaut: montant restant remboursable
+  amount?: number;
+  // Par défaut: numéro du payeur (s'il est fourni, il doit lui correspondre)
+  phoneNumber?: string;
   reason: string;
 }
 
+/**
+ * Requête d'annulation d'un remboursement
+ */
+export interface CancelRefundRequest {
+  reason?: string;
+}
+
+/**
+ * Requête de clôture d'un remboursement effectué manuellement (hors API fournisseur)
+ */
+export interface CompleteRefundRequest {
+  operatorReference: string;
+  note?: string;
+}
+
+/**
+ * Requête de validation d'un numéro (sans authentification)
+ */
+export interface ValidatePhoneRequest {
+  phoneNumber: string;
+  operator?: PaymentOperator;
+}
+
+/**
+ * Query de l'historique des paiements de l'utilisateur
+ */
+export interface PaymentHistoryQuery {
+  campaignId?: string;
+  // nextCursor de la page précédente
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Query du reçu d'un paiement (ou de l'avoir d'un remboursement)
+ */
+export interface ReceiptQuery {
+  format: "pdf" | "html";
+  refundId?: string;
+}
+
+/**
+ * Requête d'abonnement d'un endpoint marchand (admin)
+ */
+export interface MerchantWebhookSubscriptionRequest {
+  url: string;
+  events: MerchantEventType[];
+  description?: string;
+}
+
+/**
+ * Modification d'un abonnement marchand (admin): champs fournis uniquement
+ */
+export interface MerchantWebhookSubscriptionUpdate {
+  url?: string;
+  events?: MerchantEventType[];
+  description?: string;
+  active?: boolean;
+}
+
+/**
+ * Query du journal des livraisons de webhooks marchands (admin)
+ */
+export interface MerchantWebhookDeliveryQuery {
+  subscriptionId?: string;
+  status?: MerchantWebhookDeliveryStatus;
+  eventType?: MerchantEventType;
+  limit?: number;
+}
+
+/**
+ * Query de la liste des callbacks reçus (admin)
+ */
+export interface WebhookEventQuery {
+  status?: WebhookEventStatus;
+  referenceId?: string;
+  limit?: number;
+}
+
+/**
+ * Décision d'un admin sur un écart de paiement
+ * - accept: le montant reçu est accepté, la campagne est planifiée
+ * - reject: la campagne redevient payable; le montant reçu est à rembourser
+ */
+export interface ResolveDiscrepancyRequest {
+  decision: "accept" | "reject";
+  note?: string;
+}
+
 // ============== RÉPONSES ==============
 
 /**
- * Statut d'un paiement
+ * Statut d'une transaction (cycle de vie complet)
+ * Les changements passent uniquement par transitionPayment (payment-state.service.ts)
+ */
+export type PaymentStatus =
+  | "CREATED"
+  | "PENDING"
+  | "SUCCESSFUL"
+  | "FAILED"
+  | "EXPIRED"
+  | "CANCELLED"
+  | "REFUND_PENDING"
+  | "REFUNDED"
+  | "PARTIALLY_REFUNDED";
+
+/**
+ * Statut tel que rapporté par un fournisseur (statut, callback)
+ */
+export type ProviderPaymentStatus = "PENDING" | "SUCCESSFUL" | "FAILED";
+
+/**
+ * Origine d'un changement de statut
  */
-export type PaymentStatus = "PENDING" | "SUCCESSFUL" | "FAILED";
+export type PaymentTransitionSource = "initiation" | "poll" | "callback" | "admin" | "reconciler";
+
+/**
+ * Détail du montant dû pour une campagne (XAF)
+ */
+export interface PaymentPricing {
+  subtotal: number;
+  discount: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * Écart entre le montant payé et le montant dû
+ */
+export interface AmountDiscrepancy {
+  type: "UNDERPAYMENT" | "OVERPAYMENT";
+  expected: number;
+  paid: number;
+  difference: number;
+}
 
 /**
  * Réponse après initiation d'un paiement
+ * referenceId est toujours notre référence stable; les IDs fournisseur sont séparés
  */
 export interface PaymentResponse {
   success: boolean;
   referenceId: string;
+  providerReference: string;
+  amount: number;
+  operator: PaymentOperator;
   status: PaymentStatus;
   message: string;
 }
@@ -55,6 +212,9 @@ export interface PaymentResponse {
  */
 export interface PaymentStatusResponse {
   success: boolean;
+  referenceId: string;
+  providerReference?: string;
+  operator?: PaymentOperator;
   status: PaymentStatus;
   amount?: string;
   currency: string;
@@ -68,6 +228,7 @@ export interface PaymentStatusResponse {
 export interface RefundResponse {
   success: boolean;
   refundId: string;
+  status: RefundStatus;
   message: string;
 }
 
@@ -110,22 +271,145 @@ export interface YnotePaymentBody {
  * Réponse Y-Note normalisée
  */
 export interface NormalizedYnoteStatus {
-  status: PaymentStatus;
+  status: ProviderPaymentStatus;
   amount?: number;
   transactionId?: string;
   reason?: string;
 }
 
+// ============== FOURNISSEURS ==============
+
+/**
+ * Capacités d'un fournisseur de paiement (agrégateur)
+ */
+export interface ProviderCapabilities {
+  operators: PaymentOperator[];
+  refunds: boolean;
+  partialRefunds: boolean;
+  statusPolling: boolean;
+  callbacks: boolean;
+}
+
+/**
+ * Demande de paiement transmise au fournisseur
+ */
+export interface ProviderPaymentRequest {
+  referenceId: string;
+  amount: number;
+  currency: string;
+  phoneNumber: string;
+  operator: PaymentOperator;
+  description: string;
+  callbackUrl: string;
+}
+
+/**
+ * Résultat d'une initiation de paiement chez le fournisseur
+ */
+export interface ProviderPaymentResult {
+  providerReference: string;
+  status: ProviderPaymentStatus;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Paramètres d'une vérification de statut chez le fournisseur
+ */
+export interface ProviderStatusQuery {
+  referenceId: string;
+  providerReference?: string;
+  operator: PaymentOperator;
+}
+
+/**
+ * Résultat d'une vérification de statut chez le fournisseur
+ */
+export interface ProviderStatusResult extends NormalizedYnoteStatus {
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Callback normalisé par le fournisseur
+ */
+export interface ParsedCallback {
+  referenceId?: string;
+  status: ProviderPaymentStatus;
+  financialTransactionId?: string;
+  amount?: number;
+  raw: PaymentCallbackData;
+}
+
+/**
+ * Demande de remboursement transmise au fournisseur
+ */
+export interface ProviderRefundRequest {
+  refundId: string;
+  referenceId: string;
+  amount: number;
+  phoneNumber: string;
+  operator: PaymentOperator;
+  reason: string;
+  callbackUrl: string;
+}
+
+/**
+ * Résultat d'un remboursement chez le fournisseur (envoi ou vérification)
+ */
+export interface ProviderRefundResult {
+  status: ProviderPaymentStatus;
+  providerReference?: string;
+  reason?: string;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Paramètres d'une vérification de statut de remboursement chez le fournisseur
+ */
+export interface ProviderRefundStatusQuery {
+  refundId: string;
+  providerReference?: string;
+  operator: PaymentOperator;
+}
+
+/**
+ * Callback de remboursement normalisé par le fournisseur
+ */
+export interface ParsedRefundCallback {
+  refundId?: string;
+  providerReference?: string;
+  status: ProviderPaymentStatus;
+  reason?: string;
+  raw: PaymentCallbackData;
+}
+
+/**
+ * Contrat commun à tous les fournisseurs de paiement (Y-Note, autres agrégateurs...)
+ */
+export interface PaymentProvider {
+  name: string;
+  capabilities: ProviderCapabilities;
+  initiatePayment(request: ProviderPaymentRequest): Promise<ProviderPaymentResult>;
+  getPaymentStatus(query: ProviderStatusQuery): Promise<ProviderStatusResult>;
+  parseCallback(payload: PaymentCallbackData): ParsedCallback;
+  refund(request: ProviderRefundRequest): Promise<ProviderRefundResult>;
+  getRefundStatus(query: ProviderRefundStatusQuery): Promise<ProviderRefundResult>;
+  parseRefundCallback(payload: PaymentCallbackData): ParsedRefundCallback;
+  // Vérifie que le fournisseur accepte les credentials configurées (readiness)
+  checkHealth?(): Promise<void>;
+}
+
 // ============== CALLBACK ==============
 
 /**
- * Données du callback MTN/Y-Note
+ * Données du callback Y-Note (MTN ou Orange)
+ * Orange Money renvoie l'identifiant opérateur dans txnid
  */
-export interface MtnCallbackData {
+export interface PaymentCallbackData {
   referenceId?: string;
   order_id?: string;
   status?: string;
   financialTransactionId?: string;
+  txnid?: string;
   amount?: string | number;
   message?: string;
   [key: string]: unknown;
@@ -134,25 +418,57 @@ export interface MtnCallbackData {
 // ============== FIRESTORE ==============
 
 /**
- * Transaction MTN stockée en Firestore
+ * Transaction Mobile Money stockée en Firestore
  */
-export interface MtnTransaction {
+export interface PaymentTransaction {
   referenceId: string;
+  providerReference?: string;
   campaignId: string;
   userId: string;
   amount: number;
+  pricing?: PaymentPricing;
+  paidAmount?: number;
+  amountDiscrepancy?: AmountDiscrepancy;
+  // Succès tardif écarté: paiement plus récent de la campagne, revue admin requise
+  supersededBy?: string;
+  reviewRequired?: boolean;
   currency: string;
   phoneNumber: string;
   status: PaymentStatus;
-  paymentMethod: string;
+  operator: PaymentOperator;
+  provider: string;
+  // Hash SHA-256 du jeton secret ajouté au notifUrl
+  callbackTokenHash?: string;
+  // Prochaine vérification par le job de réconciliation (sert aussi de bail)
+  reconcileAfter?: FirebaseFirestore.Timestamp;
+  reconcileLeaseOwner?: string;
+  reconcileAttempts?: number;
+  lastReconciledAt?: FirebaseFirestore.Timestamp;
+  lastReconcileError?: string | null;
   ynoteResponse?: Record<string, unknown>;
   ynoteStatusResponse?: Record<string, unknown>;
-  mtnCallbackData?: MtnCallbackData;
+  callbackData?: PaymentCallbackData;
   financialTransactionId?: string;
+  // Identifiant de corrélation de la requête d'initiation (X-Request-Id)
+  requestId?: string | null;
   createdAt: FirebaseFirestore.Timestamp;
   updatedAt: FirebaseFirestore.Timestamp;
 }
 
+/**
+ * Changement de statut enregistré dans la sous-collection status_history d'une transaction
+ */
+export interface PaymentStatusTransition {
+  from: PaymentStatus | null;
+  to: PaymentStatus;
+  source: PaymentTransitionSource;
+  reason: string | null;
+  actor: string | null;
+  // Requête (ou callback rejoué) à l'origine du changement
+  requestId?: string | null;
+  createdAt: FirebaseFirestore.Timestamp;
+}
+
 /**
  * Campagne (champs pertinents pour le paiement)
  */
@@ -161,13 +477,25 @@ export interface Campaign {
   name: string;
   userId: string;
   status: CampaignStatus;
+  // Prix hors remise et hors taxes
   totalPrice: number;
-  paymentMethod?: string;
+  discountAmount?: number;
+  discountPercent?: number;
+  taxRate?: number;
+  paymentMethod?: PaymentOperator;
   paymentAmount?: number;
   paidAt?: FirebaseFirestore.Timestamp;
-  mtnReferenceId?: string;
-  mtnPaymentStatus?: PaymentStatus;
-  mtnTransactionId?: string;
+  paymentReferenceId?: string;
+  paymentProviderReference?: string;
+  paymentStatus?: PaymentStatus;
+  paymentTransactionId?: string;
+  // Montant payé différent du montant dû: en attente de revue admin, nouveau paiement bloqué
+  paymentReviewRequired?: boolean;
+  // Verrou posé à l'initiation: un seul paiement en cours par campagne
+  paymentLock?: {
+    referenceId: string;
+    expiresAt: FirebaseFirestore.Timestamp;
+  };
   updatedAt?: FirebaseFirestore.Timestamp;
   updatedBy?: string;
 }
@@ -203,18 +531,349 @@ export interface Notification {
   isRead: boolean;
 }
 
+/**
+ * Type d'identifiant externe indexé vers notre referenceId
+ * - provider: identifiant du fournisseur (MessageId Y-Note)
+ * - financial: identifiant de l'opérateur (financialTransactionId)
+ */
+export type PaymentReferenceKind = "provider" | "financial";
+
+/**
+ * Entrée de l'index secondaire des références
+ */
+export interface PaymentReferenceIndex {
+  kind: PaymentReferenceKind;
+  value: string;
+  referenceId: string;
+  createdAt: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Événement du journal d'audit sécurité (callbacks rejetés, accès refusés...)
+ */
+export interface SecurityAuditEvent {
+  type: string;
+  reason: string;
+  ip?: string;
+  referenceId?: string;
+  userId?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * États d'un callback dans la boîte de réception
+ * - PENDING: à traiter (première tentative ou retentative planifiée)
+ * - PROCESSING: pris en charge par un worker (bail de leaseSeconds)
+ * - PROCESSED: traité avec succès
+ * - DEAD_LETTER: échec définitif, replay manuel requis
+ */
+export type WebhookEventStatus = "PENDING" | "PROCESSING" | "PROCESSED" | "DEAD_LETTER";
+
+/**
+ * Nature d'un callback fournisseur
+ */
+export type WebhookEventKind = "payment" | "refund";
+
+/**
+ * Callback fournisseur persisté avant traitement (collection webhook_events)
+ * L'ID du document est la clé de déduplication
+ */
+export interface WebhookEvent {
+  eventId: string;
+  provider: string;
+  kind: WebhookEventKind;
+  payload: PaymentCallbackData;
+  referenceId: string | null;
+  // Hash SHA-256 du jeton ?token= reçu avec le callback (null si absent)
+  callbackTokenHash: string | null;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  duplicateCount: number;
+  ip: string | null;
+  // Identifiant de corrélation de la requête qui a reçu le callback
+  requestId: string | null;
+  receivedAt: FirebaseFirestore.Timestamp;
+  lastReceivedAt: FirebaseFirestore.Timestamp;
+  nextAttemptAt: FirebaseFirestore.Timestamp;
+  leaseExpiresAt?: FirebaseFirestore.Timestamp;
+  processedAt?: FirebaseFirestore.Timestamp;
+  replayedBy?: string;
+  replayedAt?: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Événement notifié aux endpoints des marchands (webhooks sortants)
+ */
+export type MerchantEventType =
+  | "payment.pending"
+  | "payment.succeeded"
+  | "payment.failed"
+  | "refund.completed"
+  | "campaign.scheduled";
+
+/**
+ * Abonnement d'un endpoint marchand à des événements
+ * (collection merchant_webhook_subscriptions)
+ */
+export interface MerchantWebhookSubscription {
+  subscriptionId: string;
+  url: string;
+  events: MerchantEventType[];
+  // Secret de signature HMAC, communiqué une seule fois à la création
+  secret: string;
+  description: string | null;
+  active: boolean;
+  createdBy: string;
+  createdAt: FirebaseFirestore.Timestamp;
+  updatedAt: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Corps JSON envoyé à l'endpoint du marchand
+ */
+export interface MerchantEvent {
+  id: string;
+  type: MerchantEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Statut de livraison d'un événement à un endpoint
+ * - PENDING: à livrer (première tentative ou retentative planifiée)
+ * - DELIVERING: tentative en cours (bail)
+ * - DELIVERED: l'endpoint a répondu 2xx
+ * - DEAD_LETTER: échecs répétés ou abonnement désactivé (relivraison manuelle)
+ */
+export type MerchantWebhookDeliveryStatus = "PENDING" | "DELIVERING" | "DELIVERED" | "DEAD_LETTER";
+
+/**
+ * Tentative de livraison (journal de la livraison)
+ */
+export interface MerchantWebhookAttempt {
+  attempt: number;
+  at: FirebaseFirestore.Timestamp;
+  statusCode: number | null;
+  durationMs: number;
+  error: string | null;
+}
+
+/**
+ * Livraison d'un événement à un abonnement (collection merchant_webhook_deliveries)
+ */
+export interface MerchantWebhookDelivery {
+  deliveryId: string;
+  subscriptionId: string;
+  url: string;
+  eventId: string;
+  eventType: MerchantEventType;
+  event: MerchantEvent;
+  status: MerchantWebhookDeliveryStatus;
+  attempts: number;
+  attemptLog: MerchantWebhookAttempt[];
+  lastStatusCode: number | null;
+  lastError: string | null;
+  // Début de la réponse de l'endpoint (diagnostic)
+  lastResponseBody: string | null;
+  createdAt: FirebaseFirestore.Timestamp;
+  nextAttemptAt: FirebaseFirestore.Timestamp;
+  leaseExpiresAt?: FirebaseFirestore.Timestamp;
+  deliveredAt?: FirebaseFirestore.Timestamp;
+  redeliveredBy?: string;
+  redeliveredAt?: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Écart de paiement enregistré pour revue admin
+ */
+export interface PaymentDiscrepancyRecord extends AmountDiscrepancy {
+  referenceId: string;
+  campaignId: string;
+  userId: string;
+  financialTransactionId?: string;
+  status: "OPEN" | "RESOLVED";
+  createdAt: FirebaseFirestore.Timestamp;
+  resolution?: "ACCEPTED" | "REJECTED";
+  resolutionNote?: string | null;
+  resolvedBy?: string;
+  resolvedAt?: FirebaseFirestore.Timestamp;
+}
+
 /**
  * Demande de remboursement
  */
 export interface RefundRecord {
   refundId: string;
   originalReferenceId: string;
+  campaignId: string | null;
   amount: number;
   phoneNumber: string;
+  operator?: PaymentOperator;
   reason: string;
-  status: string;
+  status: RefundStatus;
+  provider?: string;
+  providerReference?: string | null;
+  attempts: number;
+  lastError?: string | null;
+  // Hashs SHA-256 des jetons secrets ajoutés à l'URL de callback (un par tentative d'envoi;
+  // callbackTokenHash: jeton unique des remboursements antérieurs)
+  callbackTokenHashes?: string[];
+  callbackTokenHash?: string;
+  // false: la dernière tentative a été refusée à l'envoi (relance sans vérification)
+  lastAttemptSent?: boolean;
+  reconcileAfter?: FirebaseFirestore.Timestamp;
   requestedBy: string;
+  // Montant au-delà du seuil REFUND_APPROVAL_THRESHOLD: second admin requis
+  approvalRequired?: boolean;
+  approvedBy?: string;
+  approvedAt?: FirebaseFirestore.Timestamp;
+  cancelledBy?: string;
+  // Remboursement manuel: référence du versement chez l'opérateur et admin l'ayant confirmé
+  operatorReference?: string;
+  completedBy?: string;
+  completionNote?: string | null;
+  requestId?: string | null;
   createdAt: FirebaseFirestore.Timestamp;
+  updatedAt: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Paiement tel que présenté à son propriétaire (sans données fournisseur, numéro masqué)
+ */
+export interface UserPaymentSummary {
+  referenceId: string;
+  campaignId: string | null;
+  amount: number;
+  paidAmount: number | null;
+  refundedAmount: number;
+  currency: string;
+  operator: PaymentOperator | null;
+  phoneNumber: string | null;
+  status: PaymentStatus;
+  financialTransactionId: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+/**
+ * Type de document comptable: reçu d'un paiement ou avoir d'un remboursement
+ */
+export type ReceiptType = "RECEIPT" | "CREDIT_NOTE";
+
+/**
+ * Reçu ou avoir émis (figé à l'émission: un changement de configuration ou de
+ * campagne ne modifie pas un document déjà émis)
+ */
+export interface ReceiptRecord {
+  receiptId: string;
+  // Numéro séquentiel, ex: REC-2026-000042
+  number: string;
+  type: ReceiptType;
+  referenceId: string;
+  refundId: string | null;
+  // Pour un avoir: numéro du reçu qu'il corrige
+  originalReceiptNumber: string | null;
+  campaignId: string | null;
+  campaignName: string | null;
+  userId: string;
+  customer: { name: string | null; email: string | null };
+  company: {
+    name: string;
+    address: string;
+    taxId: string;
+    registration: string;
+    email: string;
+    phone: string;
+  };
+  // Montants en XAF (montants remboursés pour un avoir)
+  subtotal: number;
+  discount: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+  currency: string;
+  operator: PaymentOperator | null;
+  // Numéro du payeur masqué
+  phoneNumber: string | null;
+  financialTransactionId: string | null;
+  html: string;
+  issuedAt: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Filtres de recherche des transactions (admin)
+ * Dates: bornes incluses sur createdAt; montants en FCFA sur amount
+ */
+export interface TransactionSearchFilters {
+  status?: PaymentStatus;
+  campaignId?: string;
+  userId?: string;
+  phoneNumber?: string;
+  from?: Date;
+  to?: Date;
+  minAmount?: number;
+  maxAmount?: number;
+  // referenceId de la dernière transaction de la page précédente
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Statut d'un remboursement
+ * - PENDING_APPROVAL: montant au-delà du seuil, en attente d'un second administrateur
+ * - PENDING_MANUAL: fournisseur sans remboursement automatique, traitement manuel
+ * - PENDING: enregistré, pas encore transmis au fournisseur
+ * - PROCESSING: transmis, en attente de l'issue (callback ou polling)
+ * - SUCCESSFUL / FAILED: issue fournisseur (FAILED peut être relancé ou annulé)
+ * - CANCELLED: annulé par un admin
+ */
+export type RefundStatus =
+  | "PENDING_APPROVAL"
+  | "PENDING_MANUAL"
+  | "PENDING"
+  | "PROCESSING"
+  | "SUCCESSFUL"
+  | "FAILED"
+  | "CANCELLED";
+
+// ============== SANTÉ ==============
+
+/**
+ * État d'un worker périodique (webhooks, réconciliation, webhooks marchands)
+ */
+export interface WorkerHeartbeat {
+  enabled: boolean;
+  started: boolean;
+  intervalMs: number;
+  // Fin du dernier passage (ISO), null avant le premier
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * État d'un composant vérifié par la readiness
+ * - up: opérationnel
+ * - degraded: fonctionne partiellement, l'instance reste routable
+ * - down: l'instance ne doit plus recevoir de trafic
+ * - disabled: composant désactivé par la configuration
+ */
+export type ComponentStatus = "up" | "degraded" | "down" | "disabled";
+
+export interface ComponentHealth {
+  status: ComponentStatus;
+  latencyMs: number;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Rapport de readiness: not_ready dès qu'un composant est down (HTTP 503)
+ */
+export interface ReadinessReport {
+  status: "ready" | "degraded" | "not_ready";
+  ready: boolean;
+  checks: Record<string, ComponentHealth>;
 }
 
 // ============== EXPRESS ==============
@@ -230,13 +889,51 @@ export interface AuthenticatedRequest {
   };
 }
 
+/**
+ * Code d'erreur renvoyé par l'API (champ code), documenté dans /api/docs
+ */
+export type ApiErrorCode =
+  | "UNAUTHENTICATED"
+  | "INVALID_TOKEN"
+  | "TOKEN_EXPIRED"
+  | "FORBIDDEN"
+  | "INVALID_ARGUMENT"
+  | "INVALID_JSON"
+  | "INVALID_PHONE"
+  | "NOT_FOUND"
+  | "PERMISSION_DENIED"
+  | "CORS_ERROR"
+  | "INVALID_STATUS"
+  | "AMOUNT_MISMATCH"
+  | "PAYMENT_IN_PROGRESS"
+  | "IDEMPOTENCY_KEY_REUSED"
+  | "IDEMPOTENCY_IN_PROGRESS"
+  | "REFUND_AMOUNT_EXCEEDED"
+  | "INVALID_TRANSITION"
+  | "EVENT_IN_PROGRESS"
+  | "PROVIDER_ERROR"
+  | "PROVIDER_UNAVAILABLE"
+  | "INTERNAL_ERROR";
+
+/**
+ * Champ refusé par la validation (field: chemin du champ, ex: "amount" ou "events.1")
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
 /**
  * Réponse d'erreur API
  */
 export interface ApiError {
   success: false;
   error: string;
-  code?: string;
+  code?: ApiErrorCode;
+  // Détail par champ des erreurs de validation (INVALID_ARGUMENT)
+  details?: FieldError[];
+  // Paiement à l'issue inconnue (PROVIDER_UNAVAILABLE): transaction à suivre
+  referenceId?: string;
 }
 
 /**
@@ -0,0 +1,47 @@
+/**
+ * Utilitaires cryptographiques (hash, comparaison à temps constant, jetons)
+ */
+
+import crypto from "crypto";
+
+/**
+ * Hash SHA-256 en hexadécimal
+ */
+export function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * HMAC SHA-256 en hexadécimal
+ */
+export function hmacSha256(secret: string, payload: string | Buffer): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+/**
+ * Compare deux chaînes à temps constant (évite les attaques temporelles)
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+
+  if (bufferA.length !== bufferB.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Génère un jeton secret aléatoire (hexadécimal)
+ */
+export function generateSecretToken(bytes: number = 24): string {
+  return crypto.randomBytes(bytes).toString("hex");
+}
+
+export default {
+  sha256,
+  hmacSha256,
+  safeEqual,
+  generateSecretToken,
+};
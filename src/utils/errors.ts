@@ -0,0 +1,189 @@
+/**
+ * Erreurs métier typées
+ *
+ * Les services lèvent ces erreurs; le gestionnaire d'erreurs (middleware/error-handler.ts)
+ * les traduit en réponse HTTP à partir de leur statut et de leur code, sans dépendre du
+ * texte du message. Toute autre erreur devient une 500 INTERNAL_ERROR.
+ */
+
+import { ApiErrorCode, FieldError } from "../types/payment.types";
+
+/**
+ * Erreur métier: statut HTTP et code API associés
+ */
+export class DomainError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+
+  constructor(message: string, status: number, code: ApiErrorCode) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// ============== 400 ==============
+
+/**
+ * Requête invalide, avec le détail des champs refusés
+ */
+export class ValidationError extends DomainError {
+  readonly details: FieldError[];
+
+  constructor(message: string, details: FieldError[] = [], code: ApiErrorCode = "INVALID_ARGUMENT") {
+    super(message, 400, code);
+    this.details = details;
+  }
+
+  /**
+   * Erreur portant sur un seul champ
+   */
+  static forField(field: string, message: string): ValidationError {
+    return new ValidationError(message, [{ field, message }]);
+  }
+}
+
+/**
+ * Numéro invalide, d'un autre opérateur ou différent de celui du payeur
+ */
+export class InvalidPhoneError extends ValidationError {
+  constructor(message: string, field = "phoneNumber") {
+    super(message, [{ field, message }], "INVALID_PHONE");
+  }
+}
+
+/**
+ * Montant différent du montant dû pour la campagne
+ */
+export class AmountMismatchError extends ValidationError {
+  constructor(message: string) {
+    super(message, [{ field: "amount", message }], "AMOUNT_MISMATCH");
+  }
+}
+
+/**
+ * Montant supérieur au montant restant remboursable
+ */
+export class RefundAmountExceededError extends ValidationError {
+  constructor(message: string) {
+    super(message, [{ field: "amount", message }], "REFUND_AMOUNT_EXCEEDED");
+  }
+}
+
+// ============== 403 / 404 ==============
+
+export class PermissionDeniedError extends DomainError {
+  constructor(message: string) {
+    super(message, 403, "PERMISSION_DENIED");
+  }
+}
+
+export class NotFoundError extends DomainError {
+  constructor(message: string) {
+    super(message, 404, "NOT_FOUND");
+  }
+}
+
+// ============== 409 ==============
+
+/**
+ * Opération impossible dans le statut actuel de la ressource (campagne, remboursement, reçu)
+ */
+export class InvalidStatusError extends DomainError {
+  constructor(message: string) {
+    super(message, 409, "INVALID_STATUS");
+  }
+}
+
+/**
+ * Changement de statut de transaction refusé par la machine à états
+ */
+export class InvalidTransitionError extends DomainError {
+  constructor(message: string) {
+    super(message, 409, "INVALID_TRANSITION");
+  }
+}
+
+/**
+ * Un paiement est déjà en cours pour la campagne (verrou)
+ */
+export class PaymentInProgressError extends DomainError {
+  constructor(message: string) {
+    super(message, 409, "PAYMENT_IN_PROGRESS");
+  }
+}
+
+/**
+ * Événement ou livraison webhook en cours de traitement par le worker
+ */
+export class EventInProgressError extends DomainError {
+  constructor(message: string) {
+    super(message, 409, "EVENT_IN_PROGRESS");
+  }
+}
+
+// ============== FOURNISSEUR ==============
+
+/**
+ * Refus du fournisseur de paiement (errorCode Y-Note, authentification refusée)
+ */
+export class ProviderError extends DomainError {
+  constructor(message: string, status = 502, code: ApiErrorCode = "PROVIDER_ERROR") {
+    super(message, status, code);
+  }
+}
+
+/**
+ * Fournisseur indisponible (disjoncteur ouvert, échecs transitoires épuisés): réessayer
+ * après retryAfterSeconds
+ */
+export class ProviderUnavailableError extends ProviderError {
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message, 503, "PROVIDER_UNAVAILABLE");
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Demande non idempotente (paiement, versement) restée sans réponse: elle a pu être
+ * exécutée, seul le suivi de statut peut trancher
+ * referenceId: transaction conservée en attente, à suivre au lieu de renvoyer la demande
+ */
+export class ProviderOutcomeUnknownError extends ProviderUnavailableError {
+  readonly referenceId?: string;
+
+  constructor(message: string, retryAfterSeconds: number, referenceId?: string) {
+    super(message, retryAfterSeconds);
+    this.referenceId = referenceId;
+  }
+}
+
+/**
+ * Fournisseur de paiement inconnu (configuration ou transaction enregistrée)
+ */
+export class UnknownProviderError extends DomainError {
+  constructor(name: string) {
+    super(`Fournisseur de paiement inconnu: ${name}`, 500, "INTERNAL_ERROR");
+  }
+}
+
+export default {
+  DomainError,
+  ValidationError,
+  InvalidPhoneError,
+  AmountMismatchError,
+  RefundAmountExceededError,
+  PermissionDeniedError,
+  NotFoundError,
+  InvalidStatusError,
+  InvalidTransitionError,
+  PaymentInProgressError,
+  EventInProgressError,
+  ProviderError,
+  ProviderUnavailableError,
+  ProviderOutcomeUnknownError,
+  UnknownProviderError,
+};
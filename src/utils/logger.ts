@@ -0,0 +1,201 @@
+/**
+ * Logger structuré
+ *
+ * - niveaux debug < info < warn < error, filtrés par LOG_LEVEL
+ * - une ligne JSON par entrée (LOG_FORMAT=json, défaut en production) ou format lisible
+ *   pour le développement (LOG_FORMAT=pretty)
+ * - l'identifiant de corrélation de la requête en cours (requestId) est ajouté à chaque entrée
+ * - masquage automatique, dans le message comme dans le contexte: MSISDN, jetons Bearer,
+ *   jetons passés en query, secrets Y-Note (customersecret...) et champs sensibles
+ *   (authorization, token, password, secret...)
+ */
+
+import { LOG_CONFIG } from "../config/env";
+import { maskPhoneNumber } from "./phone";
+import { getRequestId } from "./request-context";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogContext = Record<string, unknown>;
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const PRETTY_LEVELS: Record<LogLevel, string> = { debug: "DEBUG", info: "INFO ", warn: "WARN ", error: "ERROR" };
+
+const REDACTED = "[REDACTED]";
+
+// Profondeur maximale du contexte écrit (réponses fournisseur imbriquées)
+const MAX_DEPTH = 6;
+
+// Champs dont la valeur n'est jamais écrite (nom en minuscules, sans séparateurs)
+const SENSITIVE_KEY_PATTERN = /(authorization|cookie|password|secret|token|apikey|customerkey|subscriptionkey|signature)$/;
+
+// Champs contenant un numéro de téléphone
+const PHONE_KEY_PATTERN = /(phone|msisdn)/;
+
+// Numéro Mobile Money camerounais, avec ou sans indicatif
+const MSISDN_PATTERN = /(?<!\d)(?:\+?237)?6\d{8}(?!\d)/g;
+
+const STRING_REDACTIONS: [RegExp, string][] = [
+  [/Bearer\s+[^\s",;]+/gi, `Bearer ${REDACTED}`],
+  [/([?&](?:access_)?token=)[^&\s"]+/gi, `$1${REDACTED}`],
+  [/(customer_?secret["']?\s*[:=]\s*["']?)[^"'&,\s}]+/gi, `$1${REDACTED}`],
+];
+
+/**
+ * Masque les données sensibles contenues dans un texte libre
+ */
+function scrubString(value: string): string {
+  const scrubbed = STRING_REDACTIONS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+  return scrubbed.replace(MSISDN_PATTERN, (msisdn) => maskPhoneNumber(msisdn));
+}
+
+/**
+ * Erreur réduite à ce qui est utile au diagnostic (jamais la config axios et ses headers)
+ */
+function serializeError(error: any): LogContext {
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error.code && { code: error.code }),
+    ...(error.response && { status: error.response.status, data: error.response.data }),
+    ...(!error.response && error.stack && { stack: error.stack }),
+  };
+}
+
+function sanitizeField(key: string, value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  const normalizedKey = key.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+  if (SENSITIVE_KEY_PATTERN.test(normalizedKey) && value !== null && value !== undefined && typeof value !== "boolean") {
+    return REDACTED;
+  }
+
+  if (PHONE_KEY_PATTERN.test(normalizedKey) && (typeof value === "string" || typeof value === "number")) {
+    return maskPhoneNumber(String(value));
+  }
+
+  return sanitize(value, depth, seen);
+}
+
+/**
+ * Copie du contexte sans données sensibles (références circulaires et profondeur bornées)
+ */
+function sanitize(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === "string") {
+    return scrubString(value);
+  }
+
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (value instanceof Error) {
+    return sanitize(serializeError(value), depth, seen);
+  }
+
+  if (Buffer.isBuffer(value)) {
+    return `[Buffer ${value.length} octets]`;
+  }
+
+  // Timestamp Firestore
+  if (typeof (value as any).toDate === "function") {
+    return (value as any).toDate().toISOString();
+  }
+
+  if (depth >= MAX_DEPTH || seen.has(value)) {
+    return "[…]";
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, depth + 1, seen));
+  }
+
+  const result: LogContext = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = sanitizeField(key, item, depth + 1, seen);
+  }
+  return result;
+}
+
+function formatPretty(entry: LogContext, level: LogLevel): string {
+  const { time, level: _level, msg, requestId, ...fields } = entry;
+
+  const head = `${String(time).slice(11, 23)} ${PRETTY_LEVELS[level]} ${requestId ? `[${String(requestId).slice(0, 8)}] ` : ""}${msg}`;
+  const lines = Object.entries(fields).flatMap(([key, value]) =>
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+      ? [`    ${key}:`, ...value.map((item) => `      - ${item}`)]
+      : [`    ${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`]
+  );
+
+  return [head, ...lines].join("\n");
+}
+
+function write(level: LogLevel, message: string, context?: LogContext): void {
+  if (LEVEL_PRIORITY[level] < (LEVEL_PRIORITY[LOG_CONFIG.level] ?? LEVEL_PRIORITY.info)) {
+    return;
+  }
+
+  const requestId = getRequestId();
+  const entry: LogContext = {
+    time: new Date().toISOString(),
+    level,
+    msg: scrubString(message),
+    ...(requestId && { requestId }),
+    ...(context && (sanitize(context) as LogContext)),
+  };
+
+  const output = LOG_CONFIG.format === "json" ? JSON.stringify(entry) : formatPretty(entry, level);
+  const stream = level === "warn" || level === "error" ? process.stderr : process.stdout;
+  stream.write(output + "\n");
+}
+
+/**
+ * Détail de diagnostic (réponses brutes du fournisseur, cache...)
+ */
+export function debug(message: string, context?: LogContext): void {
+  write("debug", message, context);
+}
+
+/**
+ * Événement normal du service
+ */
+export function info(message: string, context?: LogContext): void {
+  write("info", message, context);
+}
+
+/**
+ * Anomalie sans échec de l'opération
+ */
+export function warn(message: string, context?: LogContext): void {
+  write("warn", message, context);
+}
+
+/**
+ * Échec d'une opération (passer l'erreur dans le contexte: { error })
+ */
+export function error(message: string, context?: LogContext): void {
+  write("error", message, context);
+}
+
+/**
+ * Attend l'écriture des entrées en attente (avant la fin du processus)
+ */
+export function flushLogs(): Promise<void> {
+  const flush = (stream: NodeJS.WriteStream) =>
+    new Promise<void>((resolve) => (stream.writableNeedDrain ? stream.once("drain", resolve) : resolve()));
+
+  return Promise.all([flush(process.stdout), flush(process.stderr)]).then(() => undefined);
+}
+
+export default {
+  debug,
+  info,
+  warn,
+  error,
+  flushLogs,
+};
@@ -0,0 +1,126 @@
+/**
+ * Utilitaires pour les numéros de téléphone Mobile Money Cameroun
+ * Formatage MSISDN et détection de l'opérateur (MTN / Orange)
+ */
+
+import { OPERATOR_CONFIG } from "../config/env";
+import { PaymentOperator } from "../types/payment.types";
+
+/**
+ * Formate le numéro de téléphone au format MSISDN
+ * Ex: 677123456 -> 237677123456 (Cameroun)
+ */
+export function formatPhoneNumber(phone: string): string {
+  // Supprimer tous les caractères non numériques
+  let cleaned = phone.replace(/\D/g, "");
+
+  // Si le numéro commence par 0, le supprimer
+  if (cleaned.startsWith("0")) {
+    cleaned = cleaned.substring(1);
+  }
+
+  // Si le numéro ne commence pas par l'indicatif pays (237 pour Cameroun)
+  if (!cleaned.startsWith("237")) {
+    cleaned = "237" + cleaned;
+  }
+
+  return cleaned;
+}
+
+/**
+ * Extrait le numéro national à 9 chiffres (sans indicatif ni 0 initial)
+ */
+function toNationalNumber(phone: string): string {
+  let cleaned = phone.replace(/\D/g, "");
+
+  // Supprimer le préfixe 237 si présent
+  if (cleaned.startsWith("237") && cleaned.length > 9) {
+    cleaned = cleaned.substring(3);
+  }
+
+  // Supprimer le 0 initial si présent
+  if (cleaned.startsWith("0")) {
+    cleaned = cleaned.substring(1);
+  }
+
+  return cleaned;
+}
+
+/**
+ * Vérifie qu'une valeur est un opérateur supporté
+ */
+export function isSupportedOperator(value: unknown): value is PaymentOperator {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(OPERATOR_CONFIG, value);
+}
+
+/**
+ * Détecte l'opérateur d'un numéro camerounais à partir de son préfixe
+ * Ex: 677123456 -> mtn, 699123456 -> orange
+ */
+export function detectOperator(phone: string): PaymentOperator | null {
+  const nationalNumber = toNationalNumber(phone);
+  const operators = Object.keys(OPERATOR_CONFIG) as PaymentOperator[];
+
+  const operator = operators.find((op) =>
+    OPERATOR_CONFIG[op].prefixes.some((prefix) => nationalNumber.startsWith(prefix))
+  );
+
+  return operator || null;
+}
+
+/**
+ * Valide un numéro Mobile Money Cameroun (MTN ou Orange)
+ * Si un opérateur est imposé, vérifie que le numéro lui appartient
+ */
+export function validatePhoneNumber(
+  phone: string,
+  operator?: PaymentOperator
+): { isValid: boolean; operator?: PaymentOperator; error?: string } {
+  const nationalNumber = toNationalNumber(phone);
+
+  // Vérifier la longueur
+  if (nationalNumber.length < 9) {
+    return { isValid: false, error: "Numéro trop court" };
+  }
+
+  if (nationalNumber.length > 9) {
+    return { isValid: false, error: "Numéro trop long" };
+  }
+
+  const detectedOperator = detectOperator(nationalNumber);
+
+  if (!detectedOperator) {
+    return { isValid: false, error: "Ce n'est pas un numéro MTN ou Orange Cameroun" };
+  }
+
+  if (operator && operator !== detectedOperator) {
+    return {
+      isValid: false,
+      error: `Ce n'est pas un numéro ${OPERATOR_CONFIG[operator].label} Cameroun`,
+    };
+  }
+
+  return { isValid: true, operator: detectedOperator };
+}
+
+/**
+ * Masque un numéro pour l'affichage (indicatif, premier chiffre et 3 derniers chiffres visibles)
+ * Ex: 237670000123 -> 2376*****123
+ */
+export function maskPhoneNumber(phone: string): string {
+  const cleaned = phone.replace(/\D/g, "");
+
+  if (cleaned.length <= 7) {
+    return "*".repeat(cleaned.length);
+  }
+
+  return `${cleaned.slice(0, 4)}${"*".repeat(cleaned.length - 7)}${cleaned.slice(-3)}`;
+}
+
+export default {
+  formatPhoneNumber,
+  maskPhoneNumber,
+  isSupportedOperator,
+  detectOperator,
+  validatePhoneNumber,
+};
@@ -0,0 +1,171 @@
+/**
+ * Rendu des reçus et avoirs (HTML et PDF)
+ * Le rendu ne dépend que du document émis: un même reçu produit toujours le même contenu.
+ */
+
+import PDFDocument from "pdfkit";
+import { OPERATOR_CONFIG } from "../config/env";
+import { ReceiptRecord } from "../types/payment.types";
+
+/**
+ * Formate un montant XAF (séparateur de milliers: espace simple, lisible par les polices PDF standard)
+ */
+export function formatXaf(amount: number): string {
+  return `${Math.round(amount)
+    .toString()
+    .replace(/\B(?=(\d{3})+(?!\d))/g, " ")} XAF`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(receipt: ReceiptRecord): string {
+  return receipt.issuedAt.toDate().toLocaleDateString("fr-FR", { timeZone: "Africa/Douala" });
+}
+
+/**
+ * Contenu commun aux deux formats: titre, lignes d'en-tête et lignes de montants
+ */
+function buildContent(receipt: ReceiptRecord): {
+  title: string;
+  company: string[];
+  details: [string, string][];
+  amounts: [string, string][];
+  total: [string, string];
+} {
+  const creditNote = receipt.type === "CREDIT_NOTE";
+  const company = receipt.company;
+
+  const details: [string, string][] = [
+    ["Numéro", receipt.number],
+    ["Date", formatDate(receipt)],
+    ["Client", receipt.customer.name || receipt.userId],
+  ];
+
+  if (receipt.customer.email) {
+    details.push(["Email", receipt.customer.email]);
+  }
+  if (receipt.campaignName || receipt.campaignId) {
+    details.push(["Campagne", receipt.campaignName || receipt.campaignId || ""]);
+  }
+  if (creditNote && receipt.originalReceiptNumber) {
+    details.push(["Reçu d'origine", receipt.originalReceiptNumber]);
+  }
+  details.push(["Référence de paiement", receipt.referenceId]);
+  if (receipt.operator) {
+    details.push(["Moyen de paiement", OPERATOR_CONFIG[receipt.operator].label]);
+  }
+  if (receipt.phoneNumber) {
+    details.push(["Téléphone", receipt.phoneNumber]);
+  }
+  if (receipt.financialTransactionId) {
+    details.push(["Transaction opérateur", receipt.financialTransactionId]);
+  }
+
+  const amounts: [string, string][] = [["Montant hors taxes", formatXaf(receipt.subtotal)]];
+  if (receipt.discount > 0) {
+    amounts.push(["Remise", `-${formatXaf(receipt.discount)}`]);
+  }
+  amounts.push([`Taxes (${Math.round(receipt.taxRate * 10000) / 100} %)`, formatXaf(receipt.tax)]);
+
+  return {
+    title: creditNote ? "AVOIR" : "REÇU DE PAIEMENT",
+    company: [
+      company.name,
+      company.address,
+      company.taxId ? `NIU: ${company.taxId}` : "",
+      company.registration ? `RCCM: ${company.registration}` : "",
+      [company.email, company.phone].filter(Boolean).join(" - "),
+    ].filter(Boolean),
+    details,
+    amounts,
+    total: [creditNote ? "Total remboursé TTC" : "Total payé TTC", formatXaf(receipt.total)],
+  };
+}
+
+/**
+ * Rendu HTML d'un reçu ou d'un avoir
+ */
+export function renderReceiptHtml(receipt: ReceiptRecord): string {
+  const content = buildContent(receipt);
+  const row = ([label, value]: [string, string]): string =>
+    `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(content.title)} ${escapeHtml(receipt.number)}</title>
+<style>
+body { font-family: Helvetica, Arial, sans-serif; color: #222; max-width: 720px; margin: 40px auto; }
+h1 { font-size: 22px; margin: 24px 0 16px; }
+table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+th { text-align: left; font-weight: normal; color: #555; padding: 4px 0; width: 45%; }
+td { padding: 4px 0; }
+.amounts td { text-align: right; }
+.total th, .total td { font-weight: bold; border-top: 1px solid #222; padding-top: 8px; }
+</style>
+</head>
+<body>
+<div>${content.company.map(escapeHtml).join("<br>")}</div>
+<h1>${escapeHtml(content.title)}</h1>
+<table>${content.details.map(row).join("")}</table>
+<table class="amounts">${content.amounts.map(row).join("")}<tr class="total"><th>${escapeHtml(
+    content.total[0]
+  )}</th><td>${escapeHtml(content.total[1])}</td></tr></table>
+<p>Montants en francs CFA (${escapeHtml(receipt.currency)}).</p>
+</body>
+</html>`;
+}
+
+/**
+ * Rendu PDF d'un reçu ou d'un avoir
+ */
+export function renderReceiptPdf(receipt: ReceiptRecord): Promise<Buffer> {
+  const content = buildContent(receipt);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: `${content.title} ${receipt.number}` } });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.font("Helvetica").fontSize(10);
+    content.company.forEach((line) => doc.text(line));
+
+    doc.moveDown(2).font("Helvetica-Bold").fontSize(18).text(content.title);
+    doc.moveDown().font("Helvetica").fontSize(10);
+
+    const line = (label: string, value: string, bold = false): void => {
+      const y = doc.y;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+      doc.text(label, 50, y, { width: 220 });
+      doc.text(value, 280, y, { width: 265, align: "right" });
+      doc.moveDown(0.4);
+    };
+
+    content.details.forEach(([label, value]) => line(label, value));
+    doc.moveDown();
+    content.amounts.forEach(([label, value]) => line(label, value));
+    doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+    doc.moveDown(0.4);
+    line(content.total[0], content.total[1], true);
+
+    doc.moveDown(2).font("Helvetica").fontSize(8).text(`Montants en francs CFA (${receipt.currency}).`, 50);
+    doc.end();
+  });
+}
+
+export default {
+  formatXaf,
+  renderReceiptHtml,
+  renderReceiptPdf,
+};
@@ -0,0 +1,41 @@
+/**
+ * Contexte de la requête en cours (identifiant de corrélation)
+ *
+ * L'identifiant est attaché à la requête HTTP (header X-Request-Id) puis suit tout le
+ * traitement asynchrone: logs, appels Y-Note et enregistrements Firestore.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { v4 as uuidv4 } from "uuid";
+
+// Identifiant accepté depuis l'extérieur (sinon un nouvel identifiant est généré)
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<{ requestId: string }>();
+
+/**
+ * Reprend l'identifiant fourni par l'appelant s'il est valide, sinon en génère un
+ */
+export function resolveRequestId(candidate: unknown): string {
+  return typeof candidate === "string" && REQUEST_ID_PATTERN.test(candidate) ? candidate : uuidv4();
+}
+
+/**
+ * Exécute fn avec l'identifiant de corrélation donné
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return storage.run({ requestId }, fn);
+}
+
+/**
+ * Identifiant de corrélation courant (undefined hors requête, ex: démarrage)
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+export default {
+  resolveRequestId,
+  runWithRequestId,
+  getRequestId,
+};
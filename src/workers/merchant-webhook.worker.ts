@@ -0,0 +1,87 @@
+/**
+ * Worker de livraison des webhooks sortants
+ * Relève périodiquement merchant_webhook_deliveries et tente les livraisons dues
+ * (retentatives planifiées, bails expirés)
+ */
+
+import { MERCHANT_WEBHOOK_CONFIG } from "../config/env";
+import { WorkerHeartbeat } from "../types/payment.types";
+import { processDueMerchantDeliveries } from "../services/merchant-webhook.service";
+import logger from "../utils/logger";
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Dernier passage terminé, suivi par le contrôle de readiness
+const heartbeat = { lastRunAt: null as number | null, lastError: null as string | null };
+
+/**
+ * Un passage du worker (jamais deux en parallèle sur la même instance)
+ */
+async function tick(): Promise<void> {
+  if (running) {
+    return;
+  }
+
+  running = true;
+
+  try {
+    const delivered = await processDueMerchantDeliveries();
+    if (delivered > 0) {
+      logger.info(`🔔 Worker webhooks marchands: ${delivered} livraison(s) tentée(s)`);
+    }
+    heartbeat.lastError = null;
+  } catch (error: any) {
+    logger.error("❌ Erreur worker webhooks marchands", { error: error.message });
+    heartbeat.lastError = error.message;
+  } finally {
+    running = false;
+    heartbeat.lastRunAt = Date.now();
+  }
+}
+
+/**
+ * Démarre le worker (sans effet s'il est désactivé ou déjà démarré)
+ */
+export function startMerchantWebhookWorker(): void {
+  if (!MERCHANT_WEBHOOK_CONFIG.workerEnabled || timer) {
+    return;
+  }
+
+  timer = setInterval(() => void tick(), MERCHANT_WEBHOOK_CONFIG.pollIntervalMs);
+  logger.info(`🔔 Worker webhooks marchands démarré (toutes les ${MERCHANT_WEBHOOK_CONFIG.pollIntervalMs} ms)`);
+}
+
+/**
+ * Arrête le worker
+ * @returns une promesse résolue à la fin du passage en cours (arrêt propre)
+ */
+export async function stopMerchantWebhookWorker(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+
+  while (running) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+/**
+ * État du worker pour le contrôle de readiness
+ */
+export function getMerchantWebhookWorkerHeartbeat(): WorkerHeartbeat {
+  return {
+    enabled: MERCHANT_WEBHOOK_CONFIG.workerEnabled,
+    started: timer !== null,
+    intervalMs: MERCHANT_WEBHOOK_CONFIG.pollIntervalMs,
+    lastRunAt: heartbeat.lastRunAt ? new Date(heartbeat.lastRunAt).toISOString() : null,
+    lastError: heartbeat.lastError,
+  };
+}
+
+export default {
+  startMerchantWebhookWorker,
+  stopMerchantWebhookWorker,
+  getMerchantWebhookWorkerHeartbeat,
+};
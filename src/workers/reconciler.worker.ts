@@ -0,0 +1,94 @@
+/**
+ * Worker de réconciliation
+ * Relance périodiquement la vérification des transactions restées en attente
+ * (et des remboursements en cours), reprend les initiations interrompues et fait expirer
+ * les paiements jamais confirmés
+ */
+
+import { RECONCILER_CONFIG } from "../config/env";
+import { WorkerHeartbeat } from "../types/payment.types";
+import {
+  reconcileDueTransactions,
+  reconcileProcessingRefunds,
+  recoverOrphanedInitiations,
+} from "../services/reconciliation.service";
+import logger from "../utils/logger";
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Dernier passage terminé, suivi par le contrôle de readiness
+const heartbeat = { lastRunAt: null as number | null, lastError: null as string | null };
+
+/**
+ * Un passage du worker (jamais deux en parallèle sur la même instance)
+ */
+async function tick(): Promise<void> {
+  if (running) {
+    return;
+  }
+
+  running = true;
+
+  try {
+    await recoverOrphanedInitiations();
+    const reconciled = await reconcileDueTransactions();
+    const refunds = await reconcileProcessingRefunds();
+    if (reconciled > 0 || refunds > 0) {
+      logger.info(`🔄 Réconciliation: ${reconciled} transaction(s), ${refunds} remboursement(s) vérifié(s)`);
+    }
+    heartbeat.lastError = null;
+  } catch (error: any) {
+    logger.error("❌ Erreur worker réconciliation", { error: error.message });
+    heartbeat.lastError = error.message;
+  } finally {
+    running = false;
+    heartbeat.lastRunAt = Date.now();
+  }
+}
+
+/**
+ * Démarre le worker (sans effet s'il est désactivé ou déjà démarré)
+ */
+export function startReconcilerWorker(): void {
+  if (!RECONCILER_CONFIG.enabled || timer) {
+    return;
+  }
+
+  timer = setInterval(() => void tick(), RECONCILER_CONFIG.intervalMs);
+  logger.info(`🔄 Worker réconciliation démarré (toutes les ${RECONCILER_CONFIG.intervalMs} ms)`);
+}
+
+/**
+ * Arrête le worker
+ * @returns une promesse résolue à la fin du passage en cours (arrêt propre)
+ */
+export async function stopReconcilerWorker(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+
+  while (running) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+/**
+ * État du worker pour le contrôle de readiness
+ */
+export function getReconcilerWorkerHeartbeat(): WorkerHeartbeat {
+  return {
+    enabled: RECONCILER_CONFIG.enabled,
+    started: timer !== null,
+    intervalMs: RECONCILER_CONFIG.intervalMs,
+    lastRunAt: heartbeat.lastRunAt ? new Date(heartbeat.lastRunAt).toISOString() : null,
+    lastError: heartbeat.lastError,
+  };
+}
+
+export default {
+  startReconcilerWorker,
+  stopReconcilerWorker,
+  getReconcilerWorkerHeartbeat,
+};
@@ -0,0 +1,87 @@
+/**
+ * Worker de traitement des callbacks
+ * Relève périodiquement la boîte de réception webhook_events et traite les
+ * événements dus (retentatives planifiées, bails expirés)
+ */
+
+import { WEBHOOK_INBOX_CONFIG } from "../config/env";
+import { WorkerHeartbeat } from "../types/payment.types";
+import { processDueWebhookEvents } from "../services/webhook-inbox.service";
+import logger from "../utils/logger";
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Dernier passage terminé, suivi par le contrôle de readiness
+const heartbeat = { lastRunAt: null as number | null, lastError: null as string | null };
+
+/**
+ * Un passage du worker (jamais deux en parallèle sur la même instance)
+ */
+async function tick(): Promise<void> {
+  if (running) {
+    return;
+  }
+
+  running = true;
+
+  try {
+    const processed = await processDueWebhookEvents();
+    if (processed > 0) {
+      logger.info(`📬 Worker webhooks: ${processed} événement(s) traité(s)`);
+    }
+    heartbeat.lastError = null;
+  } catch (error: any) {
+    logger.error("❌ Erreur worker webhooks", { error: error.message });
+    heartbeat.lastError = error.message;
+  } finally {
+    running = false;
+    heartbeat.lastRunAt = Date.now();
+  }
+}
+
+/**
+ * Démarre le worker (sans effet s'il est désactivé ou déjà démarré)
+ */
+export function startWebhookWorker(): void {
+  if (!WEBHOOK_INBOX_CONFIG.workerEnabled || timer) {
+    return;
+  }
+
+  timer = setInterval(() => void tick(), WEBHOOK_INBOX_CONFIG.pollIntervalMs);
+  logger.info(`📬 Worker webhooks démarré (toutes les ${WEBHOOK_INBOX_CONFIG.pollIntervalMs} ms)`);
+}
+
+/**
+ * Arrête le worker
+ * @returns une promesse résolue à la fin du passage en cours (arrêt propre)
+ */
+export async function stopWebhookWorker(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+
+  while (running) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+/**
+ * État du worker pour le contrôle de readiness
+ */
+export function getWebhookWorkerHeartbeat(): WorkerHeartbeat {
+  return {
+    enabled: WEBHOOK_INBOX_CONFIG.workerEnabled,
+    started: timer !== null,
+    intervalMs: WEBHOOK_INBOX_CONFIG.pollIntervalMs,
+    lastRunAt: heartbeat.lastRunAt ? new Date(heartbeat.lastRunAt).toISOString() : null,
+    lastError: heartbeat.lastError,
+  };
+}
+
+export default {
+  startWebhookWorker,
+  stopWebhookWorker,
+  getWebhookWorkerHeartbeat,
+};
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Request } from "express";
+import { SERVER_CONFIG } from "../../src/config/env";
+import { errorHandler, toErrorResponse } from "../../src/middleware/error-handler";
+import { validate } from "../../src/middleware/validate";
+import { initiatePaymentSchema } from "../../src/schemas/payment.schemas";
+import {
+  AmountMismatchError,
+  DomainError,
+  EventInProgressError,
+  InvalidPhoneError,
+  InvalidStatusError,
+  InvalidTransitionError,
+  NotFoundError,
+  PaymentInProgressError,
+  PermissionDeniedError,
+  ProviderError,
+  ProviderOutcomeUnknownError,
+  ProviderUnavailableError,
+  RefundAmountExceededError,
+  UnknownProviderError,
+  ValidationError,
+} from "../../src/utils/errors";
+
+function fakeResponse(headersSent = false) {
+  const res = {
+    headersSent,
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as any,
+    status: vi.fn(),
+    json: vi.fn(),
+    setHeader: vi.fn(),
+  };
+  res.status.mockImplementation((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json.mockImplementation((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  res.setHeader.mockImplementation((name: string, value: string) => {
+    res.headers[name] = value;
+  });
+  return res;
+}
+
+/**
+ * Passe une erreur au gestionnaire global
+ */
+function handle(error: unknown, res = fakeResponse()) {
+  const next = vi.fn();
+  errorHandler(error, { method: "POST", path: "/api/payments/initiate" } as Request, res as any, next);
+  return { res, next };
+}
+
+describe("toErrorResponse", () => {
+  it.each<[DomainError, number, string]>([
+    [new ValidationError("Requête invalide"), 400, "INVALID_ARGUMENT"],
+    [new InvalidPhoneError("Numéro invalide"), 400, "INVALID_PHONE"],
+    [new AmountMismatchError("Montant différent du montant dû"), 400, "AMOUNT_MISMATCH"],
+    [new RefundAmountExceededError("Montant trop élevé"), 400, "REFUND_AMOUNT_EXCEEDED"],
+    [new PermissionDeniedError("Accès refusé"), 403, "PERMISSION_DENIED"],
+    [new NotFoundError("Transaction introuvable"), 404, "NOT_FOUND"],
+    [new InvalidStatusError("Campagne déjà payée"), 409, "INVALID_STATUS"],
+    [new InvalidTransitionError("SUCCESSFUL -> FAILED"), 409, "INVALID_TRANSITION"],
+    [new PaymentInProgressError("Paiement en cours"), 409, "PAYMENT_IN_PROGRESS"],
+    [new EventInProgressError("Événement en cours"), 409, "EVENT_IN_PROGRESS"],
+    [new ProviderError("Refus Y-Note"), 502, "PROVIDER_ERROR"],
+    [new ProviderUnavailableError("Y-Note indisponible", 30), 503, "PROVIDER_UNAVAILABLE"],
+    [new ProviderOutcomeUnknownError("Réponse non reçue", 30), 503, "PROVIDER_UNAVAILABLE"],
+    [new UnknownProviderError("paypal"), 500, "INTERNAL_ERROR"],
+  ])("%s -> %i %s", (error, status, code) => {
+    expect(toErrorResponse(error)).toEqual({
+      status,
+      body: expect.objectContaining({ success: false, error: error.message, code }),
+    });
+  });
+
+  it("détaille les champs d'une erreur de validation", () => {
+    const error = new ValidationError("Requête invalide", [
+      { field: "amount", message: "amount doit être un nombre (FCFA)" },
+      { field: "phoneNumber", message: "phoneNumber est requis" },
+    ]);
+
+    expect(toErrorResponse(error).body.details).toEqual(error.details);
+    expect(toErrorResponse(new InvalidPhoneError("Numéro invalide")).body.details).toEqual([
+      { field: "phoneNumber", message: "Numéro invalide" },
+    ]);
+    expect(toErrorResponse(new ValidationError("Requête invalide")).body).not.toHaveProperty("details");
+  });
+
+  it("renvoie la référence d'un paiement à l'issue inconnue", () => {
+    expect(toErrorResponse(new ProviderOutcomeUnknownError("Réponse non reçue", 30, "ref-1")).body.referenceId).toBe(
+      "ref-1"
+    );
+    expect(toErrorResponse(new ProviderUnavailableError("Y-Note indisponible", 30)).body).not.toHaveProperty(
+      "referenceId"
+    );
+  });
+
+  it("traduit un refus CORS et un JSON illisible", () => {
+    const invalidJson = Object.assign(new SyntaxError("Unexpected token"), { body: "{" });
+
+    expect(toErrorResponse(new Error("Non autorisé par CORS"))).toMatchObject({ status: 403, body: { code: "CORS_ERROR" } });
+    expect(toErrorResponse(invalidJson)).toMatchObject({ status: 400, body: { code: "INVALID_JSON" } });
+  });
+
+  describe("erreur inattendue", () => {
+    const isProduction = SERVER_CONFIG.isProduction;
+
+    afterEach(() => {
+      SERVER_CONFIG.isProduction = isProduction;
+    });
+
+    it("renvoie 500 INTERNAL_ERROR avec le message hors production", () => {
+      SERVER_CONFIG.isProduction = false;
+
+      expect(toErrorResponse(new Error("Firestore indisponible"))).toEqual({
+        status: 500,
+        body: { success: false, error: "Firestore indisponible", code: "INTERNAL_ERROR" },
+      });
+    });
+
+    it("masque le message en production", () => {
+      SERVER_CONFIG.isProduction = true;
+
+      expect(toErrorResponse(new Error("Firestore indisponible")).body.error).toBe("Erreur serveur interne");
+    });
+  });
+});
+
+describe("errorHandler", () => {
+  beforeEach(() => {
+    // Erreurs journalisées attendues: hors de la sortie des tests
+    vi.spyOn(process.stderr, "write").mockReturnValue(true);
+  });
+
+  it("répond avec le statut et le corps de l'erreur", () => {
+    const { res } = handle(new NotFoundError("Transaction introuvable"));
+
+    expect(res.statusCode).toBe(404);
+    expect(res.body).toEqual({ success: false, error: "Transaction introuvable", code: "NOT_FOUND" });
+  });
+
+  it("ajoute Retry-After quand le fournisseur est indisponible", () => {
+    const { res } = handle(new ProviderUnavailableError("Y-Note indisponible", 45));
+
+    expect(res.statusCode).toBe(503);
+    expect(res.headers["Retry-After"]).toBe("45");
+  });
+
+  it("délègue à Express une réponse déjà commencée (flux SSE)", () => {
+    const error = new NotFoundError("Transaction introuvable");
+    const { res, next } = handle(error, fakeResponse(true));
+
+    expect(next).toHaveBeenCalledWith(error);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it("renvoie en 400 le détail des champs refusés par la validation", () => {
+    const next = vi.fn();
+    const req = { body: { campaignId: "campaign_123", amount: "5000" }, query: {} } as unknown as Request;
+    validate({ body: initiatePaymentSchema })(req, {} as any, next);
+
+    const { res } = handle(next.mock.calls[0][0]);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({
+      success: false,
+      error: "Requête invalide",
+      code: "INVALID_ARGUMENT",
+      details: [
+        { field: "amount", message: "amount doit être un nombre (FCFA)" },
+        { field: "phoneNumber", message: "phoneNumber est requis" },
+      ],
+    });
+  });
+});
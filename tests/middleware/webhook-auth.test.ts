@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { WEBHOOK_SECURITY_CONFIG } from "../../src/config/env";
+import { RawBodyRequest, verifyProviderWebhook } from "../../src/middleware/webhook-auth";
+import { recordSecurityEvent } from "../../src/services/audit.service";
+import { resolveTransaction } from "../../src/services/reference.service";
+import { resolveRefund } from "../../src/services/refund.service";
+import { hmacSha256, sha256 } from "../../src/utils/crypto";
+
+vi.mock("../../src/services/audit.service", () => ({ recordSecurityEvent: vi.fn() }));
+vi.mock("../../src/services/reference.service", () => ({ resolveTransaction: vi.fn() }));
+vi.mock("../../src/services/refund.service", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/services/refund.service")>()),
+  resolveRefund: vi.fn(),
+}));
+
+const CALLBACK_TOKEN = "jeton-de-callback";
+
+function fakeDoc(data: Record<string, unknown>): FirebaseFirestore.DocumentSnapshot {
+  return { exists: true, data: () => data } as unknown as FirebaseFirestore.DocumentSnapshot;
+}
+
+function fakeRequest(options: {
+  ip?: string;
+  body?: Record<string, unknown>;
+  token?: string;
+  headers?: Record<string, string>;
+}): RawBodyRequest {
+  const body = options.body ?? { referenceId: "ref-1", status: "SUCCESSFUL" };
+
+  return {
+    ip: options.ip ?? "::ffff:196.200.1.10",
+    body,
+    rawBody: Buffer.from(JSON.stringify(body)),
+    query: options.token !== undefined ? { token: options.token } : {},
+    headers: options.headers ?? {},
+  } as unknown as RawBodyRequest;
+}
+
+function fakeResponse() {
+  const res = { statusCode: 200, body: undefined as any, status: vi.fn(), json: vi.fn() };
+  res.status.mockImplementation((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json.mockImplementation((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  return res;
+}
+
+/**
+ * Passe la requête au middleware
+ * @returns la réponse et si la requête a été acceptée (next appelé)
+ */
+async function verify(req: RawBodyRequest, kind: "payment" | "refund" = "payment") {
+  const res = fakeResponse();
+  const next = vi.fn();
+
+  await verifyProviderWebhook("ynote", kind)(req, res as any, next);
+
+  return { res, accepted: next.mock.calls.length === 1 };
+}
+
+describe("verifyProviderWebhook", () => {
+  const initialConfig = { ...WEBHOOK_SECURITY_CONFIG };
+
+  beforeEach(() => {
+    Object.assign(WEBHOOK_SECURITY_CONFIG, initialConfig, {
+      allowedIps: [],
+      hmacSecret: "",
+      requireCallbackToken: false,
+    });
+    vi.mocked(resolveTransaction).mockResolvedValue(fakeDoc({ callbackTokenHash: sha256(CALLBACK_TOKEN) }));
+    vi.mocked(resolveRefund).mockResolvedValue(null);
+  });
+
+  describe("liste blanche d'IP", () => {
+    it.each([
+      ["196.200.1.10", ["196.200.1.10"]],
+      ["::ffff:196.200.1.10", ["10.0.0.1", "196.200.1.10"]],
+      ["41.202.17.3", ["41.202.0.0/16"]],
+      ["8.8.8.8", ["0.0.0.0/0"]],
+    ])("accepte %s (%j)", async (ip, allowedIps) => {
+      WEBHOOK_SECURITY_CONFIG.allowedIps = allowedIps;
+
+      expect((await verify(fakeRequest({ ip }))).accepted).toBe(true);
+    });
+
+    it.each([
+      ["196.200.1.11", ["196.200.1.10"]],
+      ["41.203.0.1", ["41.202.0.0/16"]],
+      ["41.202.0.1", ["41.202.0.0/33", "41.202.0.0/abc"]],
+      ["2001:db8::1", ["41.202.0.0/16"]],
+    ])("refuse %s (%j) et l'enregistre dans l'audit", async (ip, allowedIps) => {
+      WEBHOOK_SECURITY_CONFIG.allowedIps = allowedIps;
+
+      const { res, accepted } = await verify(fakeRequest({ ip }));
+
+      expect(accepted).toBe(false);
+      expect(res.statusCode).toBe(403);
+      expect(res.body.code).toBe("IP_NOT_ALLOWED");
+      expect(recordSecurityEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "webhook_rejected", ip, details: expect.objectContaining({ code: "IP_NOT_ALLOWED" }) })
+      );
+    });
+  });
+
+  describe("signature HMAC", () => {
+    const body = { referenceId: "ref-1", status: "SUCCESSFUL" };
+    const signature = hmacSha256("secret-hmac", JSON.stringify(body));
+
+    beforeEach(() => {
+      WEBHOOK_SECURITY_CONFIG.hmacSecret = "secret-hmac";
+    });
+
+    it.each([signature, `sha256=${signature}`, signature.toUpperCase()])("accepte la signature %s", async (header) => {
+      const req = fakeRequest({ body, headers: { "x-ynote-signature": header } });
+
+      expect((await verify(req)).accepted).toBe(true);
+    });
+
+    it("refuse une signature absente ou calculée sur un autre corps", async () => {
+      const missing = await verify(fakeRequest({ body }));
+      const tampered = await verify(
+        fakeRequest({ body: { ...body, status: "FAILED" }, headers: { "x-ynote-signature": signature } })
+      );
+
+      for (const { res, accepted } of [missing, tampered]) {
+        expect(accepted).toBe(false);
+        expect(res.statusCode).toBe(401);
+        expect(res.body.code).toBe("INVALID_SIGNATURE");
+      }
+    });
+  });
+
+  describe("jeton de callback", () => {
+    beforeEach(() => {
+      WEBHOOK_SECURITY_CONFIG.requireCallbackToken = true;
+    });
+
+    it("accepte le jeton de la transaction", async () => {
+      expect((await verify(fakeRequest({ token: CALLBACK_TOKEN }))).accepted).toBe(true);
+    });
+
+    it("refuse un jeton absent ou invalide", async () => {
+      for (const token of [undefined, "autre-jeton"]) {
+        const { res, accepted } = await verify(fakeRequest({ token }));
+
+        expect(accepted).toBe(false);
+        expect(res.statusCode).toBe(401);
+        expect(res.body.code).toBe("INVALID_CALLBACK_TOKEN");
+      }
+      expect(recordSecurityEvent).toHaveBeenCalledWith(expect.objectContaining({ referenceId: "ref-1" }));
+    });
+
+    it("laisse passer un callback dont la transaction n'est pas encore écrite (vérifié au traitement)", async () => {
+      vi.mocked(resolveTransaction).mockResolvedValue(null);
+
+      expect((await verify(fakeRequest({}))).accepted).toBe(true);
+    });
+
+    it("accepte le jeton de n'importe quelle tentative d'un remboursement", async () => {
+      vi.mocked(resolveRefund).mockResolvedValue(
+        fakeDoc({ callbackTokenHashes: [sha256("tentative-1"), sha256("tentative-2")] })
+      );
+      const body = { order_id: "refund-1", status: "SUCCESSFUL" };
+
+      expect((await verify(fakeRequest({ body, token: "tentative-1" }), "refund")).accepted).toBe(true);
+      expect((await verify(fakeRequest({ body, token: "tentative-2" }), "refund")).accepted).toBe(true);
+      expect((await verify(fakeRequest({ body, token: "tentative-3" }), "refund")).accepted).toBe(false);
+    });
+  });
+});
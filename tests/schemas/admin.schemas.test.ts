@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  merchantWebhookSubscriptionSchema,
+  resolveDiscrepancySchema,
+  transactionSearchSchema,
+} from "../../src/schemas/admin.schemas";
+
+/**
+ * Champs refusés par un schéma (chemin zod joint par des points, comme dans details)
+ */
+function rejectedFields(result: { success: boolean; error?: { issues: { path: PropertyKey[] }[] } }): string[] {
+  return (result.error?.issues || []).map((issue) => issue.path.map(String).join("."));
+}
+
+describe("transactionSearchSchema", () => {
+  it("convertit les dates et les montants de la query", () => {
+    expect(
+      transactionSearchSchema.parse({ status: "PENDING", from: "2026-01-01", minAmount: "1000", maxAmount: "" })
+    ).toEqual({ status: "PENDING", from: new Date("2026-01-01"), minAmount: 1000 });
+  });
+
+  it("refuse un statut, une date ou un montant invalides", () => {
+    const result = transactionSearchSchema.safeParse({ status: "DONE", to: "hier", minAmount: "-5" });
+
+    expect(rejectedFields(result)).toEqual(["status", "to", "minAmount"]);
+  });
+});
+
+describe("resolveDiscrepancySchema", () => {
+  it("n'accepte que accept ou reject", () => {
+    expect(resolveDiscrepancySchema.safeParse({ decision: "accept", note: "Écart accepté" }).success).toBe(true);
+    expect(rejectedFields(resolveDiscrepancySchema.safeParse({ decision: "refund" }))).toEqual(["decision"]);
+  });
+});
+
+describe("merchantWebhookSubscriptionSchema", () => {
+  it("désigne l'événement invalide par sa position", () => {
+    const result = merchantWebhookSubscriptionSchema.safeParse({
+      url: "https://example.com/hooks",
+      events: ["payment.succeeded", "payment.unknown"],
+    });
+
+    expect(rejectedFields(result)).toEqual(["events.1"]);
+  });
+
+  it("exige au moins un événement", () => {
+    const result = merchantWebhookSubscriptionSchema.safeParse({ url: "https://example.com/hooks", events: [] });
+
+    expect(result.error?.issues[0].message).toBe("Liste d'événements invalide: au moins un événement requis");
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from "vitest";
+import { Request } from "express";
+import { validate } from "../../src/middleware/validate";
+import {
+  initiatePaymentSchema,
+  paymentHistoryQuerySchema,
+  receiptQuerySchema,
+  refundSchema,
+  validatePhoneSchema,
+} from "../../src/schemas/payment.schemas";
+import { ValidationError } from "../../src/utils/errors";
+
+/**
+ * Passe une requête au middleware de validation
+ * @returns l'erreur transmise à next (undefined si la requête est valide) et la requête
+ */
+function runValidation(schemas: Parameters<typeof validate>[0], input: { body?: unknown; query?: unknown }) {
+  const req = { body: input.body, query: input.query ?? {} } as unknown as Request;
+  const next = vi.fn();
+
+  validate(schemas)(req, {} as any, next);
+
+  return { error: next.mock.calls[0][0] as ValidationError | undefined, req };
+}
+
+describe("initiatePaymentSchema", () => {
+  const valid = { campaignId: "campaign_123", phoneNumber: "677123456" };
+
+  it("accepte une demande minimale et un montant entier", () => {
+    expect(initiatePaymentSchema.safeParse(valid).success).toBe(true);
+    expect(initiatePaymentSchema.parse({ ...valid, amount: 5000, operator: "orange" })).toMatchObject({
+      amount: 5000,
+      operator: "orange",
+    });
+  });
+
+  it("refuse un montant passé en texte (\"5000\")", () => {
+    const { error } = runValidation({ body: initiatePaymentSchema }, { body: { ...valid, amount: "5000" } });
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error?.details).toEqual([{ field: "amount", message: "amount doit être un nombre (FCFA)" }]);
+  });
+
+  it.each([
+    [5000.5, "amount doit être un entier (FCFA)"],
+    [50, "Le montant minimum est de 100 FCFA"],
+  ])("refuse le montant %s", (amount, message) => {
+    const { error } = runValidation({ body: initiatePaymentSchema }, { body: { ...valid, amount } });
+
+    expect(error?.details).toEqual([{ field: "amount", message }]);
+  });
+
+  it("signale chaque champ requis manquant, corps absent compris", () => {
+    const { error } = runValidation({ body: initiatePaymentSchema }, { body: undefined });
+
+    expect(error?.message).toBe("Requête invalide");
+    expect(error?.details).toEqual([
+      { field: "campaignId", message: "campaignId est requis" },
+      { field: "phoneNumber", message: "phoneNumber est requis" },
+    ]);
+  });
+
+  it("refuse un texte vide ou un opérateur inconnu", () => {
+    const { error } = runValidation(
+      { body: initiatePaymentSchema },
+      { body: { campaignId: "   ", phoneNumber: 677123456, operator: "moov" } }
+    );
+
+    expect(error?.details).toEqual([
+      { field: "campaignId", message: "campaignId est requis" },
+      { field: "phoneNumber", message: "phoneNumber doit être une chaîne" },
+      { field: "operator", message: "operator invalide (valeurs acceptées: mtn, orange)" },
+    ]);
+  });
+
+  it("retire les champs inconnus et les espaces du corps validé", () => {
+    const { error, req } = runValidation(
+      { body: initiatePaymentSchema },
+      { body: { ...valid, campaignId: " campaign_123 ", userId: "autre-utilisateur" } }
+    );
+
+    expect(error).toBeUndefined();
+    expect(req.body).toEqual(valid);
+  });
+});
+
+describe("refundSchema", () => {
+  it("exige une référence et un motif, le montant étant optionnel", () => {
+    expect(refundSchema.safeParse({ referenceId: "ref-1", reason: "Doublon" }).success).toBe(true);
+
+    const { error } = runValidation({ body: refundSchema }, { body: { referenceId: "ref-1" } });
+    expect(error?.details).toEqual([{ field: "reason", message: "reason est requis" }]);
+  });
+
+  it.each([
+    ["1000", "amount doit être un nombre (FCFA)"],
+    [0, "Le montant du remboursement doit être un entier positif (FCFA)"],
+    [-500, "Le montant du remboursement doit être un entier positif (FCFA)"],
+  ])("refuse le montant %j", (amount, message) => {
+    const { error } = runValidation({ body: refundSchema }, { body: { referenceId: "ref-1", reason: "Doublon", amount } });
+
+    expect(error?.details).toEqual([{ field: "amount", message }]);
+  });
+});
+
+describe("validatePhoneSchema", () => {
+  it("exige un numéro", () => {
+    expect(validatePhoneSchema.safeParse({ phoneNumber: "699123456", operator: "orange" }).success).toBe(true);
+    expect(validatePhoneSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe("paramètres de query", () => {
+  it("convertit limit et ignore les paramètres vides", () => {
+    const { error, req } = runValidation(
+      { query: paymentHistoryQuerySchema },
+      { query: { limit: "20", campaignId: "", cursor: " abc " } }
+    );
+
+    expect(error).toBeUndefined();
+    expect(req.query).toEqual({ limit: 20, cursor: "abc" });
+  });
+
+  it.each(["0", "2.5", "dix"])("refuse limit=%s", (limit) => {
+    const { error } = runValidation({ query: paymentHistoryQuerySchema }, { query: { limit } });
+
+    expect(error?.details).toEqual([{ field: "limit", message: "limit invalide (entier positif attendu)" }]);
+  });
+
+  it("applique le format de reçu par défaut et refuse un format inconnu", () => {
+    expect(receiptQuerySchema.parse({})).toEqual({ format: "pdf" });
+
+    const { error } = runValidation({ query: receiptQuerySchema }, { query: { format: "docx" } });
+    expect(error?.details).toEqual([{ field: "format", message: "format invalide (valeurs acceptées: pdf, html)" }]);
+  });
+
+  it("renvoie ensemble les erreurs de la query et du corps", () => {
+    const { error } = runValidation(
+      { query: paymentHistoryQuerySchema, body: refundSchema },
+      { query: { limit: "-1" }, body: { referenceId: "ref-1", reason: "Doublon", amount: "10" } }
+    );
+
+    expect(error?.details.map((detail) => detail.field)).toEqual(["limit", "amount"]);
+  });
+});
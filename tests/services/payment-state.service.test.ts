@@ -0,0 +1,191 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  canTransition,
+  isAwaitingProvider,
+  PAYMENT_STATUSES,
+  PAYMENT_TRANSITIONS,
+  transitionInTransaction,
+  transitionPayment,
+} from "../../src/services/payment-state.service";
+import { InvalidTransitionError, NotFoundError } from "../../src/utils/errors";
+import { PaymentStatus } from "../../src/types/payment.types";
+
+// Document lu par la transaction Firestore de transitionPayment
+const firestore = vi.hoisted(() => ({
+  doc: { exists: true, data: (): Record<string, unknown> | undefined => ({ status: "PENDING" }) },
+  tx: { get: async () => firestore.doc, update: () => undefined, set: () => undefined },
+}));
+
+vi.mock("firebase-admin", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("firebase-admin")>();
+  const fakeFirestore = Object.assign(
+    () => ({ runTransaction: (run: (tx: unknown) => unknown) => Promise.resolve(run(firestore.tx)) }),
+    { Timestamp: actual.firestore.Timestamp, FieldValue: actual.firestore.FieldValue }
+  );
+  return { ...actual, firestore: fakeFirestore };
+});
+
+/**
+ * Transaction Firestore et document factices: enregistrent les écritures
+ */
+function fakeTransaction() {
+  const historyRef = { id: "history" };
+  const transactionRef = {
+    id: "ref-1",
+    collection: vi.fn(() => ({ doc: vi.fn(() => historyRef) })),
+  } as unknown as FirebaseFirestore.DocumentReference;
+  const tx = { update: vi.fn(), set: vi.fn() };
+
+  return { tx: tx as unknown as FirebaseFirestore.Transaction, calls: tx, transactionRef, historyRef };
+}
+
+describe("PAYMENT_TRANSITIONS", () => {
+  it("décrit chaque statut de paiement", () => {
+    expect(PAYMENT_STATUSES).toEqual([
+      "CREATED",
+      "PENDING",
+      "EXPIRED",
+      "SUCCESSFUL",
+      "FAILED",
+      "CANCELLED",
+      "REFUND_PENDING",
+      "PARTIALLY_REFUNDED",
+      "REFUNDED",
+    ]);
+
+    for (const targets of Object.values(PAYMENT_TRANSITIONS)) {
+      targets.forEach((target) => expect(PAYMENT_STATUSES).toContain(target));
+    }
+  });
+
+  it.each<[PaymentStatus, PaymentStatus]>([
+    ["CREATED", "PENDING"],
+    ["CREATED", "SUCCESSFUL"],
+    ["PENDING", "SUCCESSFUL"],
+    ["PENDING", "EXPIRED"],
+    ["EXPIRED", "SUCCESSFUL"],
+    ["FAILED", "SUCCESSFUL"],
+    ["SUCCESSFUL", "REFUND_PENDING"],
+    ["REFUND_PENDING", "SUCCESSFUL"],
+    ["REFUND_PENDING", "PARTIALLY_REFUNDED"],
+    ["PARTIALLY_REFUNDED", "REFUND_PENDING"],
+  ])("autorise %s -> %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it.each<[PaymentStatus, PaymentStatus]>([
+    ["SUCCESSFUL", "FAILED"],
+    ["SUCCESSFUL", "PENDING"],
+    ["FAILED", "PENDING"],
+    ["CANCELLED", "SUCCESSFUL"],
+    ["REFUNDED", "REFUND_PENDING"],
+    ["PENDING", "REFUNDED"],
+  ])("refuse %s -> %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+
+  it("considère CANCELLED et REFUNDED comme terminaux", () => {
+    expect(PAYMENT_TRANSITIONS.CANCELLED).toEqual([]);
+    expect(PAYMENT_TRANSITIONS.REFUNDED).toEqual([]);
+  });
+
+  it("n'attend le fournisseur que pour CREATED et PENDING", () => {
+    expect(PAYMENT_STATUSES.filter(isAwaitingProvider)).toEqual(["CREATED", "PENDING"]);
+  });
+});
+
+describe("transitionInTransaction", () => {
+  it("écrit le statut et l'historique d'une transition autorisée", () => {
+    const { tx, calls, transactionRef, historyRef } = fakeTransaction();
+
+    const result = transitionInTransaction(tx, transactionRef, "PENDING", "SUCCESSFUL", {
+      source: "callback",
+      reason: "confirmé",
+      updates: { financialTransactionId: "fin-1" },
+    });
+
+    expect(result).toEqual({ from: "PENDING", to: "SUCCESSFUL", changed: true });
+    expect(calls.update).toHaveBeenCalledWith(
+      transactionRef,
+      expect.objectContaining({ status: "SUCCESSFUL", financialTransactionId: "fin-1" })
+    );
+    expect(calls.set).toHaveBeenCalledWith(
+      historyRef,
+      expect.objectContaining({ from: "PENDING", to: "SUCCESSFUL", source: "callback", reason: "confirmé" })
+    );
+  });
+
+  it("refuse une transition interdite sans rien écrire", () => {
+    const { tx, calls, transactionRef } = fakeTransaction();
+
+    expect(() => transitionInTransaction(tx, transactionRef, "SUCCESSFUL", "FAILED", { source: "callback" })).toThrow(
+      InvalidTransitionError
+    );
+    expect(calls.update).not.toHaveBeenCalled();
+    expect(calls.set).not.toHaveBeenCalled();
+  });
+
+  it("n'historise pas un statut identique mais écrit les champs additionnels", () => {
+    const { tx, calls, transactionRef } = fakeTransaction();
+
+    const result = transitionInTransaction(tx, transactionRef, "PENDING", "PENDING", {
+      source: "poll",
+      updates: { ynoteStatusResponse: { status: "PENDING" } },
+    });
+
+    expect(result).toEqual({ from: "PENDING", to: "PENDING", changed: false });
+    expect(calls.update).toHaveBeenCalledWith(
+      transactionRef,
+      expect.objectContaining({ ynoteStatusResponse: { status: "PENDING" } })
+    );
+    expect(calls.set).not.toHaveBeenCalled();
+  });
+
+  it("considère une transaction sans statut comme CREATED", () => {
+    const { tx, transactionRef } = fakeTransaction();
+
+    expect(transitionInTransaction(tx, transactionRef, undefined, "PENDING", { source: "initiation" })).toEqual({
+      from: "CREATED",
+      to: "PENDING",
+      changed: true,
+    });
+  });
+
+  it("rejette un statut inconnu", () => {
+    const { tx, transactionRef } = fakeTransaction();
+
+    expect(() =>
+      transitionInTransaction(tx, transactionRef, "PENDING", "DONE" as PaymentStatus, { source: "admin" })
+    ).toThrow("Statut de paiement inconnu: DONE");
+  });
+});
+
+describe("transitionPayment", () => {
+  const { transactionRef } = fakeTransaction();
+
+  beforeEach(() => {
+    firestore.doc = { exists: true, data: () => ({ status: "PENDING", operator: "mtn" }) };
+  });
+
+  it("applique la transition au statut lu dans la transaction Firestore", async () => {
+    await expect(transitionPayment(transactionRef, "FAILED", { source: "poll" })).resolves.toEqual({
+      from: "PENDING",
+      to: "FAILED",
+      changed: true,
+    });
+  });
+
+  it("refuse un statut qui contredit une issue connue", async () => {
+    firestore.doc = { exists: true, data: () => ({ status: "SUCCESSFUL" }) };
+
+    await expect(transitionPayment(transactionRef, "FAILED", { source: "callback" })).rejects.toThrow(
+      InvalidTransitionError
+    );
+  });
+
+  it("signale une transaction introuvable", async () => {
+    firestore.doc = { exists: false, data: () => undefined };
+
+    await expect(transitionPayment(transactionRef, "FAILED", { source: "callback" })).rejects.toThrow(NotFoundError);
+  });
+});
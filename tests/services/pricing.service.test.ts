@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { PRICING_CONFIG } from "../../src/config/env";
+import { computeAmountDue, detectAmountDiscrepancy } from "../../src/services/pricing.service";
+import { InvalidStatusError } from "../../src/utils/errors";
+
+describe("computeAmountDue", () => {
+  const initialConfig = { ...PRICING_CONFIG };
+
+  afterEach(() => {
+    Object.assign(PRICING_CONFIG, initialConfig);
+  });
+
+  it("applique la remise avant la taxe", () => {
+    expect(computeAmountDue({ totalPrice: 10000, discountPercent: 10, taxRate: 0.1925 })).toEqual({
+      subtotal: 10000,
+      discount: 1000,
+      taxRate: 0.1925,
+      tax: 1733,
+      total: 10733,
+    });
+  });
+
+  it("préfère une remise en montant et la plafonne au prix", () => {
+    expect(computeAmountDue({ totalPrice: 5000, discountAmount: 7000, discountPercent: 10, taxRate: 0 })).toMatchObject({
+      discount: 5000,
+      total: 0,
+    });
+  });
+
+  it("utilise PAYMENT_TAX_RATE si la campagne n'a pas de taux", () => {
+    PRICING_CONFIG.taxRate = 0.1;
+
+    expect(computeAmountDue({ totalPrice: 5000 })).toMatchObject({ taxRate: 0.1, tax: 500, total: 5500 });
+  });
+
+  it.each([undefined, 0, -100, Number.NaN])("refuse un prix invalide (%s)", (totalPrice) => {
+    expect(() => computeAmountDue({ totalPrice: totalPrice as number })).toThrow(InvalidStatusError);
+  });
+});
+
+describe("detectAmountDiscrepancy", () => {
+  const initialConfig = { ...PRICING_CONFIG };
+
+  afterEach(() => {
+    Object.assign(PRICING_CONFIG, initialConfig);
+  });
+
+  it("ne signale rien sans montant payé ou dans la tolérance", () => {
+    PRICING_CONFIG.amountTolerance = 50;
+
+    expect(detectAmountDiscrepancy(5000, undefined)).toBeNull();
+    expect(detectAmountDiscrepancy(5000, 4950)).toBeNull();
+    expect(detectAmountDiscrepancy(5000, 5050)).toBeNull();
+  });
+
+  it("qualifie un sous-paiement ou un sur-paiement", () => {
+    expect(detectAmountDiscrepancy(5000, 4000)).toEqual({
+      type: "UNDERPAYMENT",
+      expected: 5000,
+      paid: 4000,
+      difference: -1000,
+    });
+    expect(detectAmountDiscrepancy(5000, 5001)).toMatchObject({ type: "OVERPAYMENT", difference: 1 });
+  });
+});
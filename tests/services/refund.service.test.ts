@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { reserveRefundAmount } from "../../src/services/refund.service";
+import { InvalidStatusError, NotFoundError, RefundAmountExceededError } from "../../src/utils/errors";
+
+// Requête des remboursements de la transaction (lue par tx.get)
+const refundsQuery = vi.hoisted(() => ({ kind: "refunds" }));
+
+vi.mock("firebase-admin", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("firebase-admin")>();
+  const fakeFirestore = Object.assign(() => ({ collection: () => ({ where: () => refundsQuery }) }), {
+    Timestamp: actual.firestore.Timestamp,
+    FieldValue: actual.firestore.FieldValue,
+  });
+  return { ...actual, firestore: fakeFirestore };
+});
+
+const CONTEXT = { actor: "admin-1", reason: "Remboursement client" };
+
+/**
+ * Transaction Firestore factice: une transaction de paiement et ses remboursements
+ */
+function fakeTransaction(
+  transaction: Record<string, unknown> | null,
+  refunds: { id: string; status: string; amount: number }[] = []
+) {
+  const transactionRef = {
+    id: "ref-1",
+    collection: () => ({ doc: () => ({ id: "history" }) }),
+  } as unknown as FirebaseFirestore.DocumentReference;
+
+  const tx = {
+    get: vi.fn(async (target: unknown) =>
+      target === refundsQuery
+        ? { docs: refunds.map(({ id, ...data }) => ({ id, data: () => data })) }
+        : { exists: transaction !== null, data: () => transaction ?? undefined }
+    ),
+    update: vi.fn(),
+    set: vi.fn(),
+  };
+
+  return { tx: tx as unknown as FirebaseFirestore.Transaction, calls: tx, transactionRef };
+}
+
+describe("reserveRefundAmount", () => {
+  let payment: Record<string, unknown>;
+
+  beforeEach(() => {
+    payment = { status: "SUCCESSFUL", amount: 10000 };
+  });
+
+  it("réserve par défaut tout le montant encaissé et passe la transaction en REFUND_PENDING", async () => {
+    const { tx, calls, transactionRef } = fakeTransaction(payment);
+
+    await expect(reserveRefundAmount(tx, transactionRef, undefined, CONTEXT)).resolves.toEqual({
+      transactionData: payment,
+      amount: 10000,
+    });
+    expect(calls.update).toHaveBeenCalledWith(transactionRef, expect.objectContaining({ status: "REFUND_PENDING" }));
+  });
+
+  it("plafonne au montant payé plutôt qu'au montant dû", async () => {
+    const { tx, transactionRef } = fakeTransaction({ ...payment, paidAmount: 8000 });
+
+    await expect(reserveRefundAmount(tx, transactionRef, 9000, CONTEXT)).rejects.toThrow(RefundAmountExceededError);
+    await expect(reserveRefundAmount(tx, transactionRef, 8000, CONTEXT)).resolves.toMatchObject({ amount: 8000 });
+  });
+
+  it("déduit les remboursements réussis ou en cours, pas ceux en échec ou annulés", async () => {
+    const { tx, transactionRef } = fakeTransaction({ ...payment, status: "PARTIALLY_REFUNDED" }, [
+      { id: "r1", status: "SUCCESSFUL", amount: 3000 },
+      { id: "r2", status: "PENDING_APPROVAL", amount: 2000 },
+      { id: "r3", status: "FAILED", amount: 4000 },
+      { id: "r4", status: "CANCELLED", amount: 1000 },
+    ]);
+
+    await expect(reserveRefundAmount(tx, transactionRef, undefined, CONTEXT)).resolves.toMatchObject({ amount: 5000 });
+    await expect(reserveRefundAmount(tx, transactionRef, 5001, CONTEXT)).rejects.toThrow(
+      "Montant de remboursement supérieur au montant remboursable (5000 FCFA)"
+    );
+  });
+
+  it("ne compte pas le remboursement relancé dans ce qui est déjà réservé", async () => {
+    const { tx, transactionRef } = fakeTransaction({ ...payment, status: "REFUND_PENDING" }, [
+      { id: "r1", status: "PENDING", amount: 10000 },
+    ]);
+
+    await expect(
+      reserveRefundAmount(tx, transactionRef, 10000, { ...CONTEXT, excludeRefundId: "r1" })
+    ).resolves.toMatchObject({ amount: 10000 });
+    await expect(reserveRefundAmount(tx, transactionRef, 1, CONTEXT)).rejects.toThrow(
+      "Aucun montant remboursable restant sur cette transaction"
+    );
+  });
+
+  it("refuse une transaction non payée ou introuvable", async () => {
+    const failed = fakeTransaction({ ...payment, status: "FAILED" });
+    const missing = fakeTransaction(null);
+
+    await expect(reserveRefundAmount(failed.tx, failed.transactionRef, 1000, CONTEXT)).rejects.toThrow(
+      InvalidStatusError
+    );
+    await expect(reserveRefundAmount(missing.tx, missing.transactionRef, 1000, CONTEXT)).rejects.toThrow(
+      NotFoundError
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { STATUS_CACHE_CONFIG } from "../../src/config/env";
+import { getProviderPaymentStatus, getStatusCacheStats } from "../../src/services/status-cache.service";
+import { PaymentProvider, ProviderStatusResult } from "../../src/types/payment.types";
+
+/**
+ * Fournisseur factice: chaque appel attend sa résolution explicite
+ */
+function fakeProvider() {
+  const pending: ((result: ProviderStatusResult) => void)[] = [];
+  const getPaymentStatus = vi.fn(
+    () => new Promise<ProviderStatusResult>((resolve) => pending.push(resolve))
+  );
+  const provider = { name: "fake", getPaymentStatus } as unknown as PaymentProvider;
+
+  const respond = (status: ProviderStatusResult["status"]) => pending.shift()!({ status, raw: {} } as ProviderStatusResult);
+  return { provider, getPaymentStatus, respond };
+}
+
+describe("getProviderPaymentStatus", () => {
+  let referenceId = 0;
+  const query = () => ({ referenceId: `ref-${referenceId}`, operator: "mtn" as const });
+
+  beforeEach(() => {
+    // Cache propre au module: une référence neuve par test
+    referenceId++;
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("fusionne les appels simultanés pour une même référence", async () => {
+    const { provider, getPaymentStatus, respond } = fakeProvider();
+    const before = getStatusCacheStats().coalesced;
+
+    const first = getProviderPaymentStatus(provider, query());
+    const second = getProviderPaymentStatus(provider, query());
+    respond("PENDING");
+
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      expect.objectContaining({ status: "PENDING" }),
+      expect.objectContaining({ status: "PENDING" }),
+    ]);
+    expect(getPaymentStatus).toHaveBeenCalledTimes(1);
+    expect(getStatusCacheStats().coalesced).toBe(before + 1);
+  });
+
+  it("sert un statut PENDING pendant son TTL, puis le dernier connu jusqu'à l'intervalle minimal", async () => {
+    const { provider, getPaymentStatus, respond } = fakeProvider();
+
+    const first = getProviderPaymentStatus(provider, query());
+    respond("PENDING");
+    await first;
+
+    vi.advanceTimersByTime(STATUS_CACHE_CONFIG.pendingTtlSeconds * 1000);
+    await expect(getProviderPaymentStatus(provider, query())).resolves.toMatchObject({ status: "PENDING" });
+    expect(getPaymentStatus).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(STATUS_CACHE_CONFIG.minPollIntervalSeconds * 1000);
+    const refreshed = getProviderPaymentStatus(provider, query());
+    respond("SUCCESSFUL");
+    await expect(refreshed).resolves.toMatchObject({ status: "SUCCESSFUL" });
+    expect(getPaymentStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it("ne conserve un statut FAILED que pendant STATUS_CACHE_FAILED_TTL_SECONDS", async () => {
+    const { provider, getPaymentStatus, respond } = fakeProvider();
+
+    const first = getProviderPaymentStatus(provider, query());
+    respond("FAILED");
+    await first;
+
+    vi.advanceTimersByTime(STATUS_CACHE_CONFIG.failedTtlSeconds * 1000 - 1);
+    await expect(getProviderPaymentStatus(provider, query())).resolves.toMatchObject({ status: "FAILED" });
+
+    vi.advanceTimersByTime(1);
+    const late = getProviderPaymentStatus(provider, query());
+    respond("SUCCESSFUL");
+    await expect(late).resolves.toMatchObject({ status: "SUCCESSFUL" });
+    expect(getPaymentStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it("contourne le cache pour une lecture fraîche", async () => {
+    const { provider, getPaymentStatus, respond } = fakeProvider();
+
+    const first = getProviderPaymentStatus(provider, query());
+    respond("PENDING");
+    await first;
+
+    const fresh = getProviderPaymentStatus(provider, query(), { fresh: true });
+    respond("SUCCESSFUL");
+    await expect(fresh).resolves.toMatchObject({ status: "SUCCESSFUL" });
+    expect(getPaymentStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it("ne met pas en cache une erreur du fournisseur", async () => {
+    const getPaymentStatus = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Y-Note indisponible"))
+      .mockResolvedValueOnce({ status: "PENDING", raw: {} });
+    const provider = { name: "fake", getPaymentStatus } as unknown as PaymentProvider;
+
+    await expect(getProviderPaymentStatus(provider, query())).rejects.toThrow("Y-Note indisponible");
+    await expect(getProviderPaymentStatus(provider, query())).resolves.toMatchObject({ status: "PENDING" });
+  });
+});
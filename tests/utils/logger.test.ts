@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LOG_CONFIG } from "../../src/config/env";
+import logger from "../../src/utils/logger";
+
+/**
+ * Entrées JSON écrites sur stdout et stderr pendant le test
+ */
+function captureEntries(): Record<string, any>[] {
+  const entries: Record<string, any>[] = [];
+  const capture = (chunk: string | Uint8Array): boolean => {
+    entries.push(JSON.parse(String(chunk)));
+    return true;
+  };
+
+  vi.spyOn(process.stdout, "write").mockImplementation(capture);
+  vi.spyOn(process.stderr, "write").mockImplementation(capture);
+  return entries;
+}
+
+describe("logger", () => {
+  const initialConfig = { ...LOG_CONFIG };
+  let entries: Record<string, any>[];
+
+  beforeEach(() => {
+    LOG_CONFIG.level = "debug";
+    LOG_CONFIG.format = "json";
+    entries = captureEntries();
+  });
+
+  afterEach(() => {
+    Object.assign(LOG_CONFIG, initialConfig);
+  });
+
+  it("masque les numéros de téléphone dans le message", () => {
+    logger.info("Paiement initié pour 237677123456 et 699123456");
+
+    expect(entries[0].msg).toBe("Paiement initié pour 2376*****456 et 6991**456");
+  });
+
+  it("masque les jetons Bearer et les jetons passés en query", () => {
+    logger.warn("Appel GET /api/payments/ref/events?access_token=abc.def&x=1 avec Bearer eyJhbGciOi");
+
+    expect(entries[0].msg).toBe(
+      "Appel GET /api/payments/ref/events?access_token=[REDACTED]&x=1 avec Bearer [REDACTED]"
+    );
+  });
+
+  it("masque les champs sensibles du contexte, à toute profondeur", () => {
+    logger.debug("📥 Réponse Y-Note", {
+      request: {
+        headers: { Authorization: "Bearer secret", "X-Api-Key": "k" },
+        body: { customer_secret: "s3cret", customerkey: "key", amount: 5000 },
+      },
+      callbackToken: "abcdef",
+      signatureValid: true,
+    });
+
+    expect(entries[0].request).toEqual({
+      headers: { Authorization: "[REDACTED]", "X-Api-Key": "[REDACTED]" },
+      body: { customer_secret: "[REDACTED]", customerkey: "[REDACTED]", amount: 5000 },
+    });
+    expect(entries[0].callbackToken).toBe("[REDACTED]");
+    // Un booléen ne révèle rien: conservé pour le diagnostic
+    expect(entries[0].signatureValid).toBe(true);
+  });
+
+  it("masque les champs de téléphone du contexte", () => {
+    logger.info("Remboursement", { phoneNumber: "237677123456", payer: { msisdn: 677123456 } });
+
+    expect(entries[0].phoneNumber).toBe("2376*****456");
+    expect(entries[0].payer).toEqual({ msisdn: "6771**456" });
+  });
+
+  it("réduit une erreur à son nom, son message et la réponse HTTP", () => {
+    const error = Object.assign(new Error("Request failed with status code 401"), {
+      config: { headers: { Authorization: "Bearer leaked" } },
+      response: { status: 401, data: { message: "invalid token" } },
+    });
+
+    logger.error("❌ Erreur Y-Note", { error });
+
+    expect(entries[0].error).toEqual({
+      name: "Error",
+      message: "Request failed with status code 401",
+      status: 401,
+      data: { message: "invalid token" },
+    });
+    expect(JSON.stringify(entries[0])).not.toContain("leaked");
+  });
+
+  it("supporte les références circulaires", () => {
+    const context: Record<string, unknown> = { referenceId: "ref-1" };
+    context.self = context;
+
+    logger.info("Cycle", context);
+
+    expect(entries[0]).toMatchObject({ referenceId: "ref-1", self: "[…]" });
+  });
+
+  it("filtre les entrées sous le niveau configuré", () => {
+    LOG_CONFIG.level = "warn";
+
+    logger.info("ignoré");
+    logger.warn("écrit");
+
+    expect(entries.map((entry) => entry.msg)).toEqual(["écrit"]);
+  });
+});
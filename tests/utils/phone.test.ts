@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { detectOperator, formatPhoneNumber, maskPhoneNumber, validatePhoneNumber } from "../../src/utils/phone";
+
+describe("formatPhoneNumber", () => {
+  it.each([
+    ["677123456", "237677123456"],
+    ["0677123456", "237677123456"],
+    ["+237 677 12 34 56", "237677123456"],
+    ["237699123456", "237699123456"],
+  ])("%s -> %s", (phone, expected) => {
+    expect(formatPhoneNumber(phone)).toBe(expected);
+  });
+});
+
+describe("detectOperator", () => {
+  it.each([
+    ["677123456", "mtn"],
+    ["650123456", "mtn"],
+    ["237683123456", "mtn"],
+    ["699123456", "orange"],
+    ["655123456", "orange"],
+    ["+237640123456", "orange"],
+    ["620123456", null],
+  ])("%s -> %s", (phone, expected) => {
+    expect(detectOperator(phone)).toBe(expected);
+  });
+});
+
+describe("validatePhoneNumber", () => {
+  it("accepte un numéro MTN ou Orange et renvoie son opérateur", () => {
+    expect(validatePhoneNumber("677123456")).toEqual({ isValid: true, operator: "mtn" });
+    expect(validatePhoneNumber("237 699 12 34 56")).toEqual({ isValid: true, operator: "orange" });
+  });
+
+  it("refuse un numéro de longueur invalide ou d'un autre opérateur", () => {
+    expect(validatePhoneNumber("67712345")).toMatchObject({ isValid: false, error: "Numéro trop court" });
+    expect(validatePhoneNumber("6771234567")).toMatchObject({ isValid: false, error: "Numéro trop long" });
+    expect(validatePhoneNumber("620123456")).toMatchObject({ isValid: false });
+  });
+
+  it("refuse un numéro qui n'appartient pas à l'opérateur imposé", () => {
+    expect(validatePhoneNumber("699123456", "mtn")).toEqual({
+      isValid: false,
+      error: "Ce n'est pas un numéro MTN Mobile Money Cameroun",
+    });
+  });
+});
+
+describe("maskPhoneNumber", () => {
+  it("ne laisse visibles que l'indicatif, le premier chiffre et les 3 derniers chiffres", () => {
+    expect(maskPhoneNumber("237670000123")).toBe("2376*****123");
+    expect(maskPhoneNumber("1234567")).toBe("*******");
+  });
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+    restoreMocks: true,
+    env: {
+      // Sortie des tests lisible: seules les erreurs des services testés sont écrites
+      LOG_LEVEL: "error",
+      DOTENV_CONFIG_QUIET: "true",
+    },
+  },
+});